@@ -8,6 +8,8 @@ import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import Calendar from "@/pages/calendar";
 import Analytics from "@/pages/analytics";
+import Business from "@/pages/business";
+import Playbook from "@/pages/playbook";
 import AICoach from "@/pages/ai-coach";
 import Journal from "@/pages/journal";
 import Settings from "@/pages/settings";
@@ -26,6 +28,8 @@ function Router() {
           <Route path="/" component={Dashboard} />
           <Route path="/calendar" component={Calendar} />
           <Route path="/analytics" component={Analytics} />
+          <Route path="/business" component={Business} />
+          <Route path="/playbook" component={Playbook} />
           <Route path="/ai-coach" component={AICoach} />
           <Route path="/journal" component={Journal} />
           <Route path="/settings" component={Settings} />
@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Scale } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { TradingAccount } from "@shared/schema";
+
+interface ConsistencyReport {
+  thresholdPct: number;
+  totalProfit: number;
+  largestDay: { date: string; pnl: number } | null;
+  largestDayPct: number;
+  withinRule: boolean;
+  profitNeeded: number;
+  todayPnl: number;
+  maxAllowedToday: number;
+  remainingToday: number;
+}
+
+interface ConsistencyCardProps {
+  currentAccount: TradingAccount | null;
+}
+
+export default function ConsistencyCard({ currentAccount }: ConsistencyCardProps) {
+  const { data: consistency, isLoading } = useQuery<ConsistencyReport>({
+    queryKey: ["/api/trading-accounts", currentAccount?.id, "consistency"],
+    enabled: Boolean(currentAccount),
+  });
+
+  if (isLoading || !consistency) {
+    return (
+      <div className="glass-morphism rounded-2xl p-4 sm:p-6 w-full animate-pulse" data-testid="consistency-card">
+        <div className="h-4 bg-gray-700 rounded mb-4"></div>
+        <div className="h-8 bg-gray-700 rounded mb-2"></div>
+        <div className="h-3 bg-gray-700 rounded"></div>
+      </div>
+    );
+  }
+
+  const color = consistency.withinRule ? "text-green-400" : "text-red-400";
+
+  return (
+    <div className="glass-morphism rounded-2xl p-4 sm:p-6 w-full overflow-hidden" data-testid="consistency-card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-gray-400 text-sm font-medium">Consistency ({consistency.thresholdPct}% rule)</h3>
+        <Scale className={`w-5 h-5 ${color}`} />
+      </div>
+      <div className={`text-3xl font-bold ${color}`} data-testid="consistency-largest-pct">
+        {consistency.largestDayPct.toFixed(1)}%
+      </div>
+      <div className="text-sm text-gray-400 mt-1">
+        {consistency.largestDay
+          ? `Largest day ${consistency.largestDay.date}: $${consistency.largestDay.pnl.toLocaleString()}`
+          : "No profitable days yet"}
+      </div>
+      <Progress
+        value={Math.min(100, (consistency.largestDayPct / consistency.thresholdPct) * 100)}
+        className="h-2 mt-4"
+      />
+      <div className="grid grid-cols-2 gap-4 mt-4 text-sm">
+        <div>
+          <div className="text-gray-400 text-xs">Max allowed today</div>
+          <div className="font-medium" data-testid="consistency-max-today">
+            ${consistency.remainingToday.toLocaleString()}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-400 text-xs">Profit needed</div>
+          <div className="font-medium" data-testid="consistency-profit-needed">
+            ${consistency.profitNeeded.toLocaleString()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
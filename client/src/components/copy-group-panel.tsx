@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Copy, AlertTriangle, CheckCircle2, Plus, Crown } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { TradingAccount, AccountGroup, AccountGroupMember } from '@shared/schema';
+
+interface AccountGroupWithMembers extends AccountGroup {
+  members: AccountGroupMember[];
+}
+
+interface Divergence {
+  type: 'missing_fill' | 'extra_fill' | 'qty_mismatch' | 'price_mismatch';
+  followerAccountId: string;
+  symbol: string;
+  time: string;
+  message: string;
+}
+
+interface GroupAccountSummary {
+  accountId: string;
+  role: 'leader' | 'follower';
+  trades: number;
+  netPnl: number;
+  trackingDifference: number | null;
+  divergences: number;
+}
+
+interface GroupAnalytics {
+  totalTrades: number;
+  netPnl: number;
+  accounts: GroupAccountSummary[];
+  divergences: Divergence[];
+}
+
+const DIVERGENCE_LABELS: Record<Divergence['type'], string> = {
+  missing_fill: 'Missing fill',
+  extra_fill: 'Extra fill',
+  qty_mismatch: 'Qty mismatch',
+  price_mismatch: 'Price mismatch',
+};
+
+interface CopyGroupPanelProps {
+  currentAccount: TradingAccount | null;
+}
+
+export default function CopyGroupPanel({ currentAccount }: CopyGroupPanelProps) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [followerIds, setFollowerIds] = useState<string[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: accounts = [] } = useQuery<TradingAccount[]>({
+    queryKey: ['/api/trading-accounts'],
+  });
+
+  const { data: groups = [] } = useQuery<AccountGroupWithMembers[]>({
+    queryKey: ['/api/account-groups'],
+  });
+
+  const group = currentAccount
+    ? groups.find(g =>
+        g.leaderAccountId === currentAccount.id ||
+        g.members.some(m => m.tradingAccountId === currentAccount.id))
+    : undefined;
+
+  const { data: analytics } = useQuery<GroupAnalytics>({
+    queryKey: ['/api/account-groups', group?.id, 'analytics'],
+    enabled: Boolean(group),
+  });
+
+  const createGroupMutation = useMutation({
+    mutationFn: async (data: { name: string; leaderAccountId: string; followerAccountIds: string[] }) => {
+      return apiRequest('POST', '/api/account-groups', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/account-groups'] });
+      toast({
+        title: "Copy Group Created",
+        description: "Follower accounts will be checked against the leader.",
+      });
+      setIsCreateOpen(false);
+      setFollowerIds([]);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create copy group. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateGroup = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!currentAccount) return;
+    const formData = new FormData(e.currentTarget);
+
+    createGroupMutation.mutate({
+      name: formData.get('name') as string,
+      leaderAccountId: currentAccount.id,
+      followerAccountIds: followerIds,
+    });
+  };
+
+  if (!currentAccount) {
+    return null;
+  }
+
+  const accountName = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    return account?.nickname || `Account ${account?.extAccountId || ''}`;
+  };
+
+  return (
+    <div className="glass-morphism rounded-2xl p-4 sm:p-6 w-full overflow-hidden" data-testid="copy-group-panel">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">{group ? group.name : 'Copy Trading'}</h3>
+        {!group && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="hover:bg-white/10" data-testid="button-create-copy-group">
+                <Plus className="w-4 h-4 mr-1" />
+                Group
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-gray-900 border-gray-800">
+              <DialogHeader>
+                <DialogTitle className="text-white">Create Copy Group</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleCreateGroup} className="space-y-4">
+                <div>
+                  <Label className="text-gray-300">Group Name</Label>
+                  <Input
+                    name="name"
+                    placeholder="e.g., Apex PA x5"
+                    className="bg-gray-800 border-gray-700 text-white"
+                    required
+                    data-testid="input-copy-group-name"
+                  />
+                </div>
+                <div>
+                  <Label className="text-gray-300">Leader</Label>
+                  <div className="text-sm text-white mt-1">{accountName(currentAccount.id)}</div>
+                </div>
+                <div>
+                  <Label className="text-gray-300">Followers</Label>
+                  <div className="space-y-2 mt-2">
+                    {accounts.filter(a => a.id !== currentAccount.id).map((account) => (
+                      <label key={account.id} className="flex items-center gap-2 text-sm text-white">
+                        <Checkbox
+                          checked={followerIds.includes(account.id)}
+                          onCheckedChange={(checked) => setFollowerIds(ids =>
+                            checked ? [...ids, account.id] : ids.filter(id => id !== account.id))}
+                          data-testid={`checkbox-follower-${account.id}`}
+                        />
+                        {account.nickname || `Account ${account.extAccountId}`}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <Button
+                  type="submit"
+                  disabled={createGroupMutation.isPending || followerIds.length === 0}
+                  className="w-full"
+                  data-testid="button-submit-copy-group"
+                >
+                  {createGroupMutation.isPending ? 'Creating...' : 'Create Group'}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {!group && (
+        <p className="text-sm text-gray-400">
+          Link this account as a leader to catch follower fills the copier missed.
+        </p>
+      )}
+
+      {group && analytics && (
+        <>
+          <div className="flex items-center gap-3 mb-4">
+            {analytics.divergences.length === 0
+              ? <CheckCircle2 className="w-8 h-8 text-green-400" />
+              : <AlertTriangle className="w-8 h-8 text-red-400" />}
+            <div>
+              <div className="text-2xl font-bold" data-testid="text-divergence-count">
+                {analytics.divergences.length} divergence{analytics.divergences.length === 1 ? '' : 's'}
+              </div>
+              <div className="text-sm text-gray-400">
+                Group net ${analytics.netPnl.toLocaleString()} over {analytics.totalTrades} trades
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {analytics.accounts.map((summary) => (
+              <div key={summary.accountId} className="flex items-center justify-between text-sm" data-testid={`copy-group-account-${summary.accountId}`}>
+                <div className="flex items-center gap-2 min-w-0">
+                  {summary.role === 'leader'
+                    ? <Crown className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+                    : <Copy className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                  <span className="truncate">{accountName(summary.accountId)}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  {summary.divergences > 0 && (
+                    <span className="text-red-400">{summary.divergences} off</span>
+                  )}
+                  <span className={summary.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}>
+                    ${summary.netPnl.toLocaleString()}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {analytics.divergences.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-white/10 space-y-2">
+              {analytics.divergences.slice(-5).reverse().map((divergence, index) => (
+                <div key={`${divergence.followerAccountId}-${divergence.time}-${index}`} className="text-sm" data-testid={`divergence-${index}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="text-red-400">{DIVERGENCE_LABELS[divergence.type]}</span>
+                    <span className="text-gray-400 text-xs">{new Date(divergence.time).toLocaleString()}</span>
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {accountName(divergence.followerAccountId)}: {divergence.message}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
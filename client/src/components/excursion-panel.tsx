@@ -0,0 +1,203 @@
+import { useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Upload } from 'lucide-react';
+import { ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+interface TradeExcursion {
+  id: string;
+  symbol: string;
+  side: 'long' | 'short';
+  entryTime: string;
+  pnl: number;
+  mfe: number;
+  mae: number;
+  bestExitPrice: number | null;
+  timeToMfeSec: number | null;
+}
+
+interface BarCoverage {
+  root: string;
+  timeframe: string;
+  bars: number;
+  from: string;
+  to: string;
+}
+
+interface BarImportResult {
+  root: string;
+  bars: number;
+  tradesUpdated: number;
+}
+
+const TIME_ZONES = [
+  { value: 'UTC', label: 'UTC (TradingView)' },
+  { value: 'America/Chicago', label: 'Chicago' },
+  { value: 'America/New_York', label: 'New York' },
+];
+
+export default function ExcursionPanel() {
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: excursions = [] } = useQuery<TradeExcursion[]>({
+    queryKey: ['/api/analytics/excursions'],
+  });
+
+  const { data: coverage = [] } = useQuery<BarCoverage[]>({
+    queryKey: ['/api/market-data/bars'],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (symbol: string) => {
+      const file = fileInputRef.current?.files?.[0];
+      if (!file) throw new Error('No file selected');
+
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('symbol', symbol);
+      formData.append('timezone', timeZone);
+
+      const response = await fetch('/api/market-data/bars', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).message || response.statusText);
+      }
+      return response.json() as Promise<BarImportResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/market-data/bars'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/excursions'] });
+      toast({
+        title: "Bars Imported",
+        description: `${result.bars} ${result.root} bars stored; ${result.tradesUpdated} trades updated.`,
+      });
+      setIsUploadOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import bars. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleUpload = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    uploadMutation.mutate(formData.get('symbol') as string);
+  };
+
+  const winners = excursions.filter(trade => trade.pnl >= 0);
+  const losers = excursions.filter(trade => trade.pnl < 0);
+
+  return (
+    <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6" data-testid="excursion-panel">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold" data-testid="text-excursions-title">
+          MFE / MAE
+        </h3>
+        <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="hover:bg-white/10" data-testid="button-upload-bars">
+              <Upload className="w-4 h-4 mr-1" />
+              Bars
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-gray-900 border-gray-800">
+            <DialogHeader>
+              <DialogTitle className="text-white">Upload 1-Minute Bars</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleUpload} className="space-y-4">
+              <div>
+                <Label className="text-gray-300">Contract</Label>
+                <Input
+                  name="symbol"
+                  placeholder="MNQ, ES, CL..."
+                  className="bg-gray-800 border-gray-700 text-white"
+                  required
+                  data-testid="input-bars-symbol"
+                />
+              </div>
+              <div>
+                <Label className="text-gray-300">Export Time Zone</Label>
+                <Select value={timeZone} onValueChange={setTimeZone}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-bars-timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_ZONES.map(zone => (
+                      <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-gray-300">TradingView, Sierra Chart or NinjaTrader export</Label>
+                <Input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.txt"
+                  className="bg-gray-800 border-gray-700 text-white"
+                  required
+                  data-testid="input-bars-file"
+                />
+              </div>
+              <Button type="submit" disabled={uploadMutation.isPending} className="w-full" data-testid="button-submit-bars">
+                {uploadMutation.isPending ? 'Importing...' : 'Import Bars'}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {excursions.length > 0 ? (
+        <div className="h-64" data-testid="chart-excursions">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis type="number" dataKey="mae" name="MAE" unit="$" stroke="#9CA3AF" />
+              <YAxis type="number" dataKey="mfe" name="MFE" unit="$" stroke="#9CA3AF" />
+              <Tooltip
+                cursor={{ strokeDasharray: '3 3' }}
+                contentStyle={{
+                  backgroundColor: '#1F2937',
+                  border: '1px solid #374151',
+                  borderRadius: '8px'
+                }}
+              />
+              <Scatter name="Winners" data={winners} fill="#34D399" />
+              <Scatter name="Losers" data={losers} fill="#F87171" />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400" data-testid="text-no-excursions">
+          Upload 1-minute bars for the contracts you trade to see how far each trade ran for and against you.
+        </p>
+      )}
+
+      {coverage.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-white/10 flex flex-wrap gap-3 text-xs text-gray-400">
+          {coverage.map(range => (
+            <span key={`${range.root}-${range.timeframe}`} data-testid={`bar-coverage-${range.root}`}>
+              {range.root} {range.timeframe}: {new Date(range.from).toLocaleDateString()} – {new Date(range.to).toLocaleDateString()}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
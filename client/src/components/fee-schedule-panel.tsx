@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Receipt, Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { listPropFirms, getPropFirm } from '@shared/propFirmRegistry';
+import type { FeeSchedule, TradingAccount } from '@shared/schema';
+
+const ANY = '__any';
+
+const FEE_FIELDS = [
+  { name: 'commissionPerSide', label: 'Commission' },
+  { name: 'exchangeFeePerSide', label: 'Exchange Fee' },
+  { name: 'nfaFeePerSide', label: 'NFA Fee' },
+  { name: 'platformFeePerSide', label: 'Platform Fee' },
+] as const;
+
+// Crypto venues charge a percentage of notional instead of a flat fee
+const PCT_FIELDS = [
+  { name: 'makerFeePct', label: 'Maker %' },
+  { name: 'takerFeePct', label: 'Taker %' },
+] as const;
+
+export default function FeeSchedulePanel() {
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [propFirm, setPropFirm] = useState(ANY);
+  const [accountId, setAccountId] = useState(ANY);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schedules = [] } = useQuery<FeeSchedule[]>({
+    queryKey: ['/api/fee-schedules'],
+  });
+
+  const { data: accounts = [] } = useQuery<TradingAccount[]>({
+    queryKey: ['/api/trading-accounts'],
+  });
+
+  const addScheduleMutation = useMutation({
+    mutationFn: async (data: Record<string, FormDataEntryValue | null>) => {
+      return apiRequest('POST', '/api/fee-schedules', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/fee-schedules'] });
+      toast({
+        title: "Fee Schedule Added",
+        description: "New trades without commissions will use it.",
+      });
+      setIsAddOpen(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add fee schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/fee-schedules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/fee-schedules'] });
+    },
+  });
+
+  const handleAddSchedule = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    addScheduleMutation.mutate({
+      propFirm: propFirm === ANY ? null : propFirm,
+      tradingAccountId: accountId === ANY ? null : accountId,
+      root: formData.get('root'),
+      ...Object.fromEntries([...FEE_FIELDS, ...PCT_FIELDS].map(field => [field.name, formData.get(field.name) || '0'])),
+    });
+  };
+
+  const scopeLabel = (schedule: FeeSchedule) => {
+    const account = accounts.find(a => a.id === schedule.tradingAccountId);
+    const scope = account
+      ? account.nickname || `Account ${account.extAccountId || ''}`
+      : schedule.propFirm
+        ? getPropFirm(schedule.propFirm)?.name || schedule.propFirm
+        : 'All accounts';
+    return `${scope} · ${schedule.root || 'All contracts'}`;
+  };
+
+  const perSideTotal = (schedule: FeeSchedule) =>
+    FEE_FIELDS.reduce((sum, field) => sum + parseFloat(schedule[field.name]), 0);
+
+  return (
+    <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6" data-testid="fee-schedule-panel">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Receipt className="w-5 h-5 mr-2 text-apple-blue" />
+          <h2 className="text-xl font-semibold" data-testid="text-fee-schedules-title">
+            Fee Schedules
+          </h2>
+        </div>
+        <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="hover:bg-white/10" data-testid="button-add-fee-schedule">
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-gray-900 border-gray-800">
+            <DialogHeader>
+              <DialogTitle className="text-white">Add Fee Schedule</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleAddSchedule} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label className="text-gray-300">Prop Firm</Label>
+                  <Select value={propFirm} onValueChange={setPropFirm}>
+                    <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-fee-firm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any firm</SelectItem>
+                      {listPropFirms().map((firm) => (
+                        <SelectItem key={firm.id} value={firm.id}>{firm.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-gray-300">Account</Label>
+                  <Select value={accountId} onValueChange={setAccountId}>
+                    <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-fee-account">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any account</SelectItem>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.nickname || `Account ${account.extAccountId || ''}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label className="text-gray-300">Contract</Label>
+                <Input
+                  name="root"
+                  placeholder="Blank for all contracts, or MNQ, ES..."
+                  className="bg-gray-800 border-gray-700 text-white"
+                  data-testid="input-fee-root"
+                />
+              </div>
+              <p className="text-xs text-gray-400">Dollars per contract, per side</p>
+              <div className="grid grid-cols-2 gap-4">
+                {FEE_FIELDS.map((field) => (
+                  <div key={field.name}>
+                    <Label className="text-gray-300">{field.label}</Label>
+                    <Input
+                      name={field.name}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0.00"
+                      className="bg-gray-800 border-gray-700 text-white"
+                      data-testid={`input-fee-${field.name}`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">Crypto only: percent of notional, per side</p>
+              <div className="grid grid-cols-2 gap-4">
+                {PCT_FIELDS.map((field) => (
+                  <div key={field.name}>
+                    <Label className="text-gray-300">{field.label}</Label>
+                    <Input
+                      name={field.name}
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      placeholder="0.000"
+                      className="bg-gray-800 border-gray-700 text-white"
+                      data-testid={`input-fee-${field.name}`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <Button type="submit" disabled={addScheduleMutation.isPending} className="w-full" data-testid="button-submit-fee-schedule">
+                {addScheduleMutation.isPending ? 'Saving...' : 'Add Fee Schedule'}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {schedules.length > 0 ? (
+        <div className="space-y-2">
+          {schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg"
+              data-testid={`fee-schedule-${schedule.id}`}
+            >
+              <div>
+                <div className="text-sm font-medium">{scopeLabel(schedule)}</div>
+                <div className="text-xs text-gray-400">
+                  ${perSideTotal(schedule).toFixed(2)} per side · ${(perSideTotal(schedule) * 2).toFixed(2)} round trip
+                  {parseFloat(schedule.takerFeePct) > 0 && ` · ${schedule.makerFeePct}% / ${schedule.takerFeePct}% maker/taker`}
+                </div>
+              </div>
+              <button
+                onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                className="p-1 text-gray-400 hover:text-red-400"
+                data-testid={`button-delete-fee-schedule-${schedule.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400" data-testid="text-no-fee-schedules">
+          Imports and alerts without a commission column are recorded with no fees until you add a schedule.
+        </p>
+      )}
+    </div>
+  );
+}
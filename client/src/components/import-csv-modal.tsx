@@ -12,17 +12,36 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Upload, FileCheck, Download, CheckCircle, AlertCircle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { watchImportJob, type ImportProgress, type ImportResult } from "@/lib/importJobs";
 import { useToast } from "@/hooks/use-toast";
+import { listPropFirms } from "@shared/propFirmRegistry";
+
+// A firm export (column mapping) or a platform export read by its own parser
+interface FormatCandidate {
+  source: string;
+  name: string;
+  confidence: number;
+  kind: 'trades' | 'fills';
+  mapping: MappingSpec | null;
+  // The export has no symbol column (TradingView strategy reports)
+  needsSymbol: boolean;
+}
 
 interface CsvPreview {
   headers: string[];
   previewRows: any[];
   totalRows: number;
-  detectedFormat?: {
-    source: string;
-    mapping: any;
+  detectedFormat?: FormatCandidate & {
+    runnersUp: FormatCandidate[];
   };
+  // Guessed columns for a daily account statement
+  statementMapping?: StatementMapping;
   filename: string;
+  // Set when this exact file was already imported and not rolled back
+  previousImport?: {
+    id: string;
+    createdAt: string;
+  };
 }
 
 interface MappingSpec {
@@ -35,7 +54,62 @@ interface MappingSpec {
   exitTime?: string;
   fees?: string;
   pnl?: string;
+  stopPrice?: string;
+  targetPrice?: string;
+  plannedRisk?: string;
   brokerExecutionId?: string;
+  quoteToUsd?: string;
+  liquidity?: string;
+}
+
+// Trade rows, or one row per day with the broker's balances
+type ImportType = 'trades' | 'statement';
+
+interface StatementMapping {
+  date: string;
+  startBalance?: string;
+  endBalance: string;
+  realizedPnl?: string;
+  fees?: string;
+  threshold?: string;
+}
+
+const STATEMENT_FIELDS: { field: keyof StatementMapping; label: string; required?: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'startBalance', label: 'Start Balance' },
+  { field: 'endBalance', label: 'End Balance', required: true },
+  { field: 'realizedPnl', label: 'Realized P&L' },
+  { field: 'fees', label: 'Fees' },
+  { field: 'threshold', label: 'Drawdown Threshold' },
+];
+
+type OptionalMappingField = 'exitPrice' | 'exitTime' | 'fees' | 'pnl' | 'stopPrice' | 'targetPrice' | 'plannedRisk' | 'quoteToUsd' | 'liquidity';
+
+const OPTIONAL_MAPPING_FIELDS: { field: OptionalMappingField; label: string }[] = [
+  { field: 'exitPrice', label: 'Exit Price' },
+  { field: 'exitTime', label: 'Exit Time' },
+  { field: 'fees', label: 'Fees' },
+  { field: 'pnl', label: 'P&L' },
+  { field: 'stopPrice', label: 'Stop Price' },
+  { field: 'targetPrice', label: 'Target Price' },
+  { field: 'plannedRisk', label: 'Planned Risk ($)' },
+  { field: 'quoteToUsd', label: 'Quote → USD Rate' },
+  { field: 'liquidity', label: 'Liquidity (Maker/Taker)' },
+];
+
+// Select items cannot have an empty value, so unmapped optional columns use this
+const UNMAPPED = "__none";
+
+// Row errors listed in the modal; the import history keeps the first thousand
+const MAX_LISTED_ERRORS = 50;
+
+// Multipart uploads, which apiRequest (JSON only) does not cover
+async function uploadCsv(url: string, formData: FormData) {
+  const res = await fetch(url, { method: 'POST', body: formData, credentials: 'include' });
+  if (!res.ok) {
+    throw new Error((await res.text()) || res.statusText);
+  }
+  return res.json();
 }
 
 interface ImportCsvModalProps {
@@ -45,12 +119,15 @@ interface ImportCsvModalProps {
 
 export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
   const [step, setStep] = useState(1);
+  const [importType, setImportType] = useState<ImportType>('trades');
   const [selectedSource, setSelectedSource] = useState<string>("");
   const [selectedAccount, setSelectedAccount] = useState<string>("");
   const [newAccountName, setNewAccountName] = useState("");
   const [newAccountType, setNewAccountType] = useState<"eval" | "pa" | "live">("eval");
-  const [newAccountFirm, setNewAccountFirm] = useState<"apex" | "topstep" | "takeprofit">("apex");
+  const [newAccountFirm, setNewAccountFirm] = useState<string>(listPropFirms()[0]?.id ?? "");
   const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+  const [format, setFormat] = useState<FormatCandidate | null>(null);
+  const [symbol, setSymbol] = useState("");
   const [mapping, setMapping] = useState<MappingSpec>({
     symbol: "",
     side: "",
@@ -58,13 +135,17 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
     entryPrice: "",
     entryTime: ""
   });
+  const [statementMapping, setStatementMapping] = useState<StatementMapping>({ date: "", endBalance: "" });
   const [saveMapping, setSaveMapping] = useState(false);
   const [mappingName, setMappingName] = useState("");
-  const [importProgress, setImportProgress] = useState(0);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [rowErrors, setRowErrors] = useState<{ row: number; message: string }[]>([]);
   const [importComplete, setImportComplete] = useState(false);
-  const [importResult, setImportResult] = useState<any>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const stopWatchingRef = useRef<(() => void) | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -82,20 +163,16 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
 
   // Preview CSV mutation
   const previewMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async (file: File): Promise<CsvPreview> => {
       const formData = new FormData();
       formData.append('file', file);
-      return apiRequest('/api/import/csv/preview', {
-        method: 'POST',
-        body: formData
-      });
+      return uploadCsv('/api/import/csv/preview', formData);
     },
     onSuccess: (data: CsvPreview) => {
       setCsvPreview(data);
-      if (data.detectedFormat) {
-        setSelectedSource(data.detectedFormat.source);
-        setMapping(data.detectedFormat.mapping);
-      }
+      setFormat(null);
+      if (data.detectedFormat) chooseFormat(data.detectedFormat);
+      setStatementMapping(data.statementMapping ?? { date: "", endBalance: "" });
       setStep(3);
     },
     onError: (error) => {
@@ -107,9 +184,9 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
     }
   });
 
-  // Import CSV mutation
+  // Import CSV mutation: uploads the file and starts a background job, followed over SSE
   const importMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (): Promise<{ jobId: string }> => {
       if (!csvPreview || !fileInputRef.current?.files?.[0]) {
         throw new Error("No file selected");
       }
@@ -117,35 +194,63 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
       const formData = new FormData();
       formData.append('file', fileInputRef.current.files[0]);
       formData.append('accountId', selectedAccount);
+      formData.append('importType', importType);
+      if (importType === 'statement') {
+        formData.append('mapping', JSON.stringify(statementMapping));
+        return uploadCsv('/api/import/csv', formData);
+      }
       formData.append('source', selectedSource);
-      formData.append('mapping', JSON.stringify(mapping));
-      formData.append('saveMapping', saveMapping.toString());
+      // null lets the platform parser read the rows
+      formData.append('mapping', JSON.stringify(usesParser ? null : mapping));
+      if (format?.needsSymbol) {
+        formData.append('symbol', symbol);
+      }
+      formData.append('saveMapping', (saveMapping && !usesParser).toString());
       if (saveMapping && mappingName) {
         formData.append('mappingName', mappingName);
       }
 
-      return apiRequest('/api/import/csv', {
-        method: 'POST',
-        body: formData
-      });
+      return uploadCsv('/api/import/csv', formData);
     },
-    onSuccess: (result) => {
-      setImportResult(result);
-      setImportComplete(true);
-      setImportProgress(100);
-      
-      // Refresh data
-      queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/ai-insights"] });
-      
-      toast({
-        title: "Import Successful",
-        description: `${result.inserted} trades imported, ${result.updated} updated`,
-        variant: "default"
+    onSuccess: ({ jobId }) => {
+      stopWatchingRef.current = watchImportJob(jobId, {
+        onProgress: setImportProgress,
+        onRowError: (row, message) => {
+          setRowErrors((errors) => errors.length < MAX_LISTED_ERRORS ? [...errors, { row, message }] : errors);
+        },
+        onDone: (result) => {
+          setImportResult(result);
+          setImportComplete(true);
+          setIsImporting(false);
+
+          // Refresh data
+          queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/ai-insights"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/import/batches"] });
+          // Also covers each account's balance history
+          queryClient.invalidateQueries({ queryKey: ["/api/trading-accounts"] });
+
+          toast({
+            title: "Import Successful",
+            description: importType === 'statement'
+              ? `${result.inserted + result.updated} statement days imported`
+              : `${result.inserted} trades imported, ${result.updated} updated`,
+            variant: "default"
+          });
+        },
+        onFailed: (message) => {
+          setIsImporting(false);
+          toast({
+            title: "Import Failed",
+            description: message,
+            variant: "destructive"
+          });
+        },
       });
     },
     onError: (error) => {
+      setIsImporting(false);
       toast({
         title: "Import Failed",
         description: error.message,
@@ -173,9 +278,18 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
     }
   });
 
+  const usesParser = format !== null && format.mapping === null;
+
+  const chooseFormat = (candidate: FormatCandidate) => {
+    setFormat(candidate);
+    setSelectedSource(candidate.source);
+    if (candidate.mapping) setMapping(candidate.mapping);
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.name.endsWith('.csv')) {
+    // Sierra Chart saves its trade activity log as tab-separated .txt
+    if (file && /\.(csv|tsv|txt)$/i.test(file.name)) {
       previewMutation.mutate(file);
     } else {
       toast({
@@ -187,16 +301,27 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
   };
 
   const handleImport = () => {
-    setImportProgress(10);
+    setIsImporting(true);
+    setRowErrors([]);
+    setImportProgress({ processed: 0, inserted: 0, updated: 0, errors: 0 });
     importMutation.mutate();
   };
 
+  const progressPct = importProgress && csvPreview?.totalRows
+    ? Math.min(100, Math.round((importProgress.processed / csvPreview.totalRows) * 100))
+    : 0;
+
   const resetModal = () => {
+    stopWatchingRef.current?.();
+    stopWatchingRef.current = null;
     setStep(1);
+    setImportType('trades');
     setSelectedSource("");
     setSelectedAccount("");
     setNewAccountName("");
     setCsvPreview(null);
+    setFormat(null);
+    setSymbol("");
     setMapping({
       symbol: "",
       side: "",
@@ -204,9 +329,12 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
       entryPrice: "",
       entryTime: ""
     });
+    setStatementMapping({ date: "", endBalance: "" });
     setSaveMapping(false);
     setMappingName("");
-    setImportProgress(0);
+    setImportProgress(null);
+    setIsImporting(false);
+    setRowErrors([]);
     setImportComplete(false);
     setImportResult(null);
     if (fileInputRef.current) {
@@ -225,66 +353,91 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
         return (
           <div className="space-y-6" data-testid="step-source-selection">
             <div>
-              <Label className="text-base font-medium">Select Data Source</Label>
+              <Label className="text-base font-medium">What does the file contain?</Label>
               <div className="grid grid-cols-2 gap-4 mt-3">
                 <Card 
-                  className={`cursor-pointer transition-colors ${selectedSource === 'apex' ? 'ring-2 ring-blue-500' : ''}`}
-                  onClick={() => setSelectedSource('apex')}
-                  data-testid="source-apex"
+                  className={`cursor-pointer transition-colors ${importType === 'trades' ? 'ring-2 ring-blue-500' : ''}`}
+                  onClick={() => setImportType('trades')}
+                  data-testid="import-type-trades"
                 >
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Apex Trader Funding</CardTitle>
+                    <CardTitle className="text-sm">Trade Rows</CardTitle>
                   </CardHeader>
                   <CardContent className="pt-0">
-                    <p className="text-xs text-muted-foreground">Auto-detects Apex CSV format</p>
+                    <p className="text-xs text-muted-foreground">Trades or fills from your firm or platform</p>
                   </CardContent>
                 </Card>
-                
-                <Card 
-                  className={`cursor-pointer transition-colors ${selectedSource === 'topstep' ? 'ring-2 ring-blue-500' : ''}`}
-                  onClick={() => setSelectedSource('topstep')}
-                  data-testid="source-topstep"
-                >
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">TopStep</CardTitle>
-                  </CardHeader>
-                  <CardContent className="pt-0">
-                    <p className="text-xs text-muted-foreground">Auto-detects TopStep CSV format</p>
-                  </CardContent>
-                </Card>
-                
-                <Card 
-                  className={`cursor-pointer transition-colors ${selectedSource === 'tpt' ? 'ring-2 ring-blue-500' : ''}`}
-                  onClick={() => setSelectedSource('tpt')}
-                  data-testid="source-tpt"
-                >
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Take Profit Trader</CardTitle>
-                  </CardHeader>
-                  <CardContent className="pt-0">
-                    <p className="text-xs text-muted-foreground">Auto-detects TPT CSV format</p>
-                  </CardContent>
-                </Card>
-                
+
                 <Card 
-                  className={`cursor-pointer transition-colors ${selectedSource === 'custom' ? 'ring-2 ring-blue-500' : ''}`}
-                  onClick={() => setSelectedSource('custom')}
-                  data-testid="source-custom"
+                  className={`cursor-pointer transition-colors ${importType === 'statement' ? 'ring-2 ring-blue-500' : ''}`}
+                  onClick={() => setImportType('statement')}
+                  data-testid="import-type-statement"
                 >
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm">Custom CSV</CardTitle>
+                    <CardTitle className="text-sm">Account Statement</CardTitle>
                   </CardHeader>
                   <CardContent className="pt-0">
-                    <p className="text-xs text-muted-foreground">Map columns manually</p>
+                    <p className="text-xs text-muted-foreground">One row per day with balances, P&L and drawdown threshold</p>
                   </CardContent>
                 </Card>
               </div>
             </div>
 
+            {importType === 'trades' && (
+              <div>
+                <Label className="text-base font-medium">Select Data Source</Label>
+                <div className="grid grid-cols-2 gap-4 mt-3">
+                  {listPropFirms().flatMap((firm) => firm.csvFormats.map((format) => (
+                    <Card 
+                      key={format.source}
+                      className={`cursor-pointer transition-colors ${selectedSource === format.source ? 'ring-2 ring-blue-500' : ''}`}
+                      onClick={() => setSelectedSource(format.source)}
+                      data-testid={`source-${format.source}`}
+                    >
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm">{firm.name}</CardTitle>
+                      </CardHeader>
+                      <CardContent className="pt-0">
+                        <p className="text-xs text-muted-foreground">Auto-detects {firm.name} CSV format</p>
+                      </CardContent>
+                    </Card>
+                  )))}
+                  
+                  <Card 
+                    className={`cursor-pointer transition-colors ${selectedSource === 'platform' ? 'ring-2 ring-blue-500' : ''}`}
+                    onClick={() => setSelectedSource('platform')}
+                    data-testid="source-platform"
+                  >
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">Trading Platform</CardTitle>
+                    </CardHeader>
+                    <CardContent className="pt-0">
+                      <p className="text-xs text-muted-foreground">
+                        Tradovate, NinjaTrader, Rithmic, Sierra Chart, Quantower or TradingView exports
+                      </p>
+                    </CardContent>
+                  </Card>
+
+                  <Card 
+                    className={`cursor-pointer transition-colors ${selectedSource === 'custom' ? 'ring-2 ring-blue-500' : ''}`}
+                    onClick={() => setSelectedSource('custom')}
+                    data-testid="source-custom"
+                  >
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm">Custom CSV</CardTitle>
+                    </CardHeader>
+                    <CardContent className="pt-0">
+                      <p className="text-xs text-muted-foreground">Map columns manually</p>
+                    </CardContent>
+                  </Card>
+                </div>
+              </div>
+            )}
+
             <div className="flex justify-end">
               <Button 
                 onClick={() => setStep(2)} 
-                disabled={!selectedSource}
+                disabled={importType === 'trades' && !selectedSource}
                 data-testid="button-next-account"
               >
                 Next: Select Account
@@ -337,9 +490,9 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="apex">Apex Trader Funding</SelectItem>
-                          <SelectItem value="topstep">TopStep</SelectItem>
-                          <SelectItem value="takeprofit">Take Profit Trader</SelectItem>
+                          {listPropFirms().map((firm) => (
+                            <SelectItem key={firm.id} value={firm.id}>{firm.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -391,7 +544,9 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                 <Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
                 <Label className="text-base font-medium">Upload CSV File</Label>
                 <p className="text-sm text-muted-foreground mt-2">
-                  Drop your {selectedSource.toUpperCase()} trading statement here
+                  {importType === 'statement'
+                    ? 'Drop your daily account statement here'
+                    : `Drop your ${selectedSource.toUpperCase()} trading statement here`}
                 </p>
               </div>
 
@@ -399,7 +554,7 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                 <Input
                   ref={fileInputRef}
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.tsv,.txt"
                   onChange={handleFileSelect}
                   className="hidden"
                   data-testid="input-file-upload"
@@ -431,13 +586,43 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                   {csvPreview.filename} • {csvPreview.totalRows} rows
                 </p>
               </div>
-              {csvPreview.detectedFormat && (
-                <Badge variant="secondary">
-                  {csvPreview.detectedFormat.source.toUpperCase()} Detected
+              {importType === 'trades' && format && (
+                <Badge variant="secondary" data-testid="badge-detected-format">
+                  {format.name} · {Math.round(format.confidence * 100)}% match
                 </Badge>
               )}
             </div>
 
+            {importType === 'trades' && csvPreview.detectedFormat && csvPreview.detectedFormat.runnersUp.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground" data-testid="list-runner-up-formats">
+                <span>Not right? Read it as</span>
+                {[csvPreview.detectedFormat, ...csvPreview.detectedFormat.runnersUp]
+                  .filter((candidate) => candidate.source !== format?.source)
+                  .map((candidate) => (
+                    <Button
+                      key={candidate.source}
+                      variant="outline"
+                      size="sm"
+                      className="h-6 text-xs"
+                      onClick={() => chooseFormat(candidate)}
+                      data-testid={`button-format-${candidate.source}`}
+                    >
+                      {candidate.name} ({Math.round(candidate.confidence * 100)}%)
+                    </Button>
+                  ))}
+              </div>
+            )}
+
+            {importType === 'trades' && csvPreview.previousImport && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center space-x-2" data-testid="text-previous-import">
+                <AlertCircle className="h-4 w-4 text-yellow-600" />
+                <span className="text-sm text-yellow-800">
+                  This file was already imported on {new Date(csvPreview.previousImport.createdAt).toLocaleString()}.
+                  Matching trades will be updated, not duplicated.
+                </span>
+              </div>
+            )}
+
             <div className="border rounded-lg p-4 max-h-60 overflow-auto">
               <table className="w-full text-xs">
                 <thead>
@@ -461,7 +646,65 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
               </table>
             </div>
 
-            {!csvPreview.detectedFormat && (
+            {importType === 'statement' && (
+              <Card data-testid="card-statement-mapping">
+                <CardHeader>
+                  <CardTitle className="text-sm">Map Statement Columns</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    {STATEMENT_FIELDS.map(({ field, label, required }) => (
+                      <div key={field}>
+                        <Label>{label}{required && ' *'}</Label>
+                        <Select
+                          value={statementMapping[field] || (required ? "" : UNMAPPED)}
+                          onValueChange={(value) => setStatementMapping({...statementMapping, [field]: value === UNMAPPED ? undefined : value})}
+                        >
+                          <SelectTrigger data-testid={`select-statement-${field}`}>
+                            <SelectValue placeholder={required ? "Select column" : "Not mapped"} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {!required && <SelectItem value={UNMAPPED}>Not mapped</SelectItem>}
+                            {csvPreview.headers.map((header) => (
+                              <SelectItem key={header} value={header}>{header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The account balance is set from the latest day in the file.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {importType === 'trades' && usesParser && format && (
+              <Card data-testid="card-platform-parser">
+                <CardContent className="pt-6 space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {format.name} files are read as they are, no column mapping needed.
+                    {format.kind === 'fills' && ' Fills are paired into trades from flat to flat.'}
+                  </p>
+                  {format.needsSymbol && (
+                    <div>
+                      <Label htmlFor="import-symbol">Symbol *</Label>
+                      <Input
+                        id="import-symbol"
+                        value={symbol}
+                        onChange={(e) => setSymbol(e.target.value)}
+                        placeholder="e.g., MNQZ4"
+                        data-testid="input-import-symbol"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">This export does not say which instrument was traded.</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {importType === 'trades' && !format && (
               <Card>
                 <CardHeader>
                   <CardTitle className="text-sm">Map Columns</CardTitle>
@@ -534,6 +777,28 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                       </Select>
                     </div>
                   </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    {OPTIONAL_MAPPING_FIELDS.map(({ field, label }) => (
+                      <div key={field}>
+                        <Label>{label}</Label>
+                        <Select
+                          value={mapping[field] || UNMAPPED}
+                          onValueChange={(value) => setMapping({...mapping, [field]: value === UNMAPPED ? undefined : value})}
+                        >
+                          <SelectTrigger data-testid={`select-mapping-${field}`}>
+                            <SelectValue placeholder="Not mapped" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                            {csvPreview.headers.map((header) => (
+                              <SelectItem key={header} value={header}>{header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
                   
                   <div className="flex items-center space-x-2">
                     <Switch 
@@ -562,7 +827,11 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
               </Button>
               <Button 
                 onClick={() => setStep(4)}
-                disabled={!mapping.symbol || !mapping.side || !mapping.qty || !mapping.entryPrice || !mapping.entryTime}
+                disabled={importType === 'statement'
+                  ? !statementMapping.date || !statementMapping.endBalance
+                  : usesParser
+                  ? !!format?.needsSymbol && !symbol.trim()
+                  : !mapping.symbol || !mapping.side || !mapping.qty || !mapping.entryPrice || !mapping.entryTime}
                 data-testid="button-next-import"
               >
                 Next: Import
@@ -589,7 +858,9 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span>Source:</span>
-                        <span className="font-medium">{selectedSource.toUpperCase()}</span>
+                        <span className="font-medium">
+                          {importType === 'statement' ? 'Account Statement' : format?.name ?? selectedSource.toUpperCase()}
+                        </span>
                       </div>
                       <div className="flex justify-between">
                         <span>Account:</span>
@@ -609,26 +880,40 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                   </CardContent>
                 </Card>
 
-                {importProgress > 0 && (
+                {importProgress && (
                   <div>
                     <div className="flex justify-between text-sm mb-2">
-                      <span>Importing...</span>
-                      <span>{importProgress}%</span>
+                      <span>
+                        Importing... {importProgress.processed.toLocaleString()} of {csvPreview?.totalRows.toLocaleString()} rows
+                      </span>
+                      <span>{progressPct}%</span>
                     </div>
-                    <Progress value={importProgress} data-testid="progress-import" />
+                    <Progress value={progressPct} data-testid="progress-import" />
+                    <div className="flex justify-between text-xs text-muted-foreground mt-2" data-testid="text-import-counts">
+                      <span>{importProgress.inserted} new · {importProgress.updated} updated</span>
+                      {importProgress.errors > 0 && <span>{importProgress.errors} rows skipped</span>}
+                    </div>
+                  </div>
+                )}
+
+                {rowErrors.length > 0 && (
+                  <div className="max-h-32 overflow-auto p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-xs text-yellow-800" data-testid="list-row-errors">
+                    {rowErrors.map(({ row, message }) => (
+                      <div key={row}>Row {row}: {message}</div>
+                    ))}
                   </div>
                 )}
 
                 <div className="flex justify-between">
-                  <Button variant="outline" onClick={() => setStep(3)} disabled={importMutation.isPending} data-testid="button-back-preview">
+                  <Button variant="outline" onClick={() => setStep(3)} disabled={isImporting} data-testid="button-back-preview">
                     Back
                   </Button>
                   <Button 
                     onClick={handleImport}
-                    disabled={importMutation.isPending}
+                    disabled={isImporting}
                     data-testid="button-start-import"
                   >
-                    {importMutation.isPending ? "Importing..." : "Start Import"}
+                    {isImporting ? "Importing..." : "Start Import"}
                   </Button>
                 </div>
               </>
@@ -638,7 +923,9 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                 <div>
                   <h3 className="font-medium text-lg">Import Complete!</h3>
                   <p className="text-muted-foreground">
-                    Your trades have been successfully imported
+                    {importType === 'statement'
+                      ? 'Your statement has been added to the balance history'
+                      : 'Your trades have been successfully imported'}
                   </p>
                 </div>
 
@@ -648,14 +935,14 @@ export function ImportCsvModal({ isOpen, onClose }: ImportCsvModalProps) {
                       <div className="grid grid-cols-2 gap-4 text-center">
                         <div>
                           <div className="text-2xl font-bold text-green-600">{importResult.inserted}</div>
-                          <div className="text-sm text-muted-foreground">New Trades</div>
+                          <div className="text-sm text-muted-foreground">{importType === 'statement' ? 'New Days' : 'New Trades'}</div>
                         </div>
                         <div>
                           <div className="text-2xl font-bold text-blue-600">{importResult.updated}</div>
                           <div className="text-sm text-muted-foreground">Updated</div>
                         </div>
                       </div>
-                      {importResult.errors?.length > 0 && (
+                      {importResult.errors.length > 0 && (
                         <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                           <div className="flex items-center space-x-2">
                             <AlertCircle className="h-4 w-4 text-yellow-600" />
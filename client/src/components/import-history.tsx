@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { History, Undo2, RefreshCw } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { watchImportJob } from '@/lib/importJobs';
+import { useToast } from '@/hooks/use-toast';
+import type { TradingAccount } from '@shared/schema';
+
+interface ImportBatchSummary {
+  id: string;
+  tradingAccountId: string;
+  source: string;
+  kind: 'trades' | 'statement';
+  filename: string | null;
+  mapping: Record<string, string>;
+  rowCount: number;
+  inserted: number;
+  updated: number;
+  errorCount: number;
+  errors: string[];
+  reimportOf: string | null;
+  rolledBackAt: string | null;
+  createdAt: string;
+}
+
+interface ImportBatchDetail extends ImportBatchSummary {
+  headers: string[];
+  // Set when a platform parser read the file, which is then read by it again
+  parserName: string | null;
+}
+
+const MAPPING_FIELDS = [
+  { field: 'symbol', label: 'Symbol *', required: true },
+  { field: 'side', label: 'Side *', required: true },
+  { field: 'qty', label: 'Quantity *', required: true },
+  { field: 'entryPrice', label: 'Entry Price *', required: true },
+  { field: 'entryTime', label: 'Entry Time *', required: true },
+  { field: 'exitPrice', label: 'Exit Price', required: false },
+  { field: 'exitTime', label: 'Exit Time', required: false },
+  { field: 'fees', label: 'Fees', required: false },
+  { field: 'pnl', label: 'P&L', required: false },
+  { field: 'stopPrice', label: 'Stop Price', required: false },
+  { field: 'targetPrice', label: 'Target Price', required: false },
+  { field: 'plannedRisk', label: 'Planned Risk ($)', required: false },
+  { field: 'quoteToUsd', label: 'Quote → USD Rate', required: false },
+  { field: 'liquidity', label: 'Liquidity (Maker/Taker)', required: false },
+] as const;
+
+// Select items cannot have an empty value, so unmapped optional columns use this
+const UNMAPPED = '__none';
+
+export default function ImportHistory() {
+  const [reimportId, setReimportId] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [isReimporting, setIsReimporting] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: batches = [] } = useQuery<ImportBatchSummary[]>({
+    queryKey: ['/api/import/batches'],
+  });
+
+  const { data: accounts = [] } = useQuery<TradingAccount[]>({
+    queryKey: ['/api/trading-accounts'],
+  });
+
+  const { data: reimportBatch } = useQuery<ImportBatchDetail>({
+    queryKey: ['/api/import/batches', reimportId],
+    enabled: !!reimportId,
+  });
+
+  useEffect(() => {
+    if (reimportBatch) setMapping(reimportBatch.mapping);
+  }, [reimportBatch]);
+
+  const invalidateImports = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/import/batches'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+  };
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/import/batches/${id}`);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      invalidateImports();
+      toast({
+        title: "Import Rolled Back",
+        description: `${result.deleted} trades removed, ${result.restored} restored`
+          + (result.skipped > 0 ? `, ${result.skipped} left as a later import changed them` : ''),
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to roll back import. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reimportMutation = useMutation({
+    mutationFn: async ({ id, mapping }: { id: string; mapping: Record<string, string> | null }) => {
+      const res = await apiRequest('POST', `/api/import/batches/${id}/reimport`, { mapping });
+      return res.json();
+    },
+    onSuccess: ({ jobId }) => {
+      setIsReimporting(true);
+      setReimportId(null);
+      watchImportJob(jobId, {
+        onDone: (result) => {
+          setIsReimporting(false);
+          invalidateImports();
+          toast({
+            title: "Re-import Complete",
+            description: `${result.inserted} trades imported, ${result.updated} updated`,
+          });
+        },
+        onFailed: (message) => {
+          setIsReimporting(false);
+          invalidateImports();
+          toast({
+            title: "Re-import Failed",
+            description: message,
+            variant: "destructive",
+          });
+        },
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to re-import. Please check the mapping and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const accountName = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    return account?.nickname || `Account ${account?.extAccountId || ''}`;
+  };
+
+  const handleReimport = () => {
+    if (!reimportId) return;
+    if (reimportBatch?.parserName) {
+      reimportMutation.mutate({ id: reimportId, mapping: null });
+      return;
+    }
+    const cleaned = Object.fromEntries(Object.entries(mapping).filter(([, column]) => column));
+    reimportMutation.mutate({ id: reimportId, mapping: cleaned });
+  };
+
+  const missingRequired = !reimportBatch?.parserName && MAPPING_FIELDS.some(({ field, required }) => required && !mapping[field]);
+
+  return (
+    <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6" data-testid="import-history">
+      <div className="flex items-center mb-4">
+        <History className="w-5 h-5 mr-2 text-apple-blue" />
+        <h2 className="text-xl font-semibold" data-testid="text-import-history-title">
+          Import History
+        </h2>
+      </div>
+
+      {batches.length > 0 ? (
+        <div className="space-y-2">
+          {batches.map((batch) => (
+            <div
+              key={batch.id}
+              className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg"
+              data-testid={`import-batch-${batch.id}`}
+            >
+              <div>
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {batch.filename || batch.source.toUpperCase()}
+                  {batch.rolledBackAt && <Badge variant="secondary">Rolled back</Badge>}
+                  {batch.reimportOf && <Badge variant="outline">Re-import</Badge>}
+                  {batch.kind === 'statement' && <Badge variant="outline">Statement</Badge>}
+                </div>
+                <div className="text-xs text-gray-400">
+                  {accountName(batch.tradingAccountId)} · {new Date(batch.createdAt).toLocaleString()} ·{' '}
+                  {batch.inserted} new, {batch.updated} updated
+                  {batch.errorCount > 0 && ` · ${batch.errorCount} rows skipped`}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                {batch.kind !== 'statement' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="hover:bg-white/10"
+                    disabled={isReimporting}
+                    onClick={() => setReimportId(batch.id)}
+                    data-testid={`button-reimport-${batch.id}`}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-1" />
+                    Re-import
+                  </Button>
+                )}
+                {!batch.rolledBackAt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-400 hover:bg-red-900/20 hover:text-red-300"
+                    disabled={rollbackMutation.isPending}
+                    onClick={() => rollbackMutation.mutate(batch.id)}
+                    data-testid={`button-rollback-${batch.id}`}
+                  >
+                    <Undo2 className="w-4 h-4 mr-1" />
+                    Roll back
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400" data-testid="text-no-imports">
+          CSV imports show up here and can be rolled back or re-run with a different mapping.
+        </p>
+      )}
+
+      <Dialog open={!!reimportId} onOpenChange={(open) => !open && setReimportId(null)}>
+        <DialogContent className="bg-gray-900 border-gray-800 max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-white">Re-import {reimportBatch?.filename || 'batch'}</DialogTitle>
+          </DialogHeader>
+          {reimportBatch && (
+            <div className="space-y-4">
+              <p className="text-xs text-gray-400">
+                {reimportBatch.rolledBackAt
+                  ? 'The stored rows are imported again'
+                  : 'The original import is rolled back first, then the stored rows are imported again'}
+                {reimportBatch.parserName ? ` with the ${reimportBatch.parserName} parser.` : ' with this mapping.'}
+              </p>
+              {!reimportBatch.parserName && (
+                <div className="grid grid-cols-2 gap-4">
+                  {MAPPING_FIELDS.map(({ field, label, required }) => (
+                    <div key={field}>
+                      <Label className="text-gray-300">{label}</Label>
+                      <Select
+                        value={mapping[field] || (required ? undefined : UNMAPPED)}
+                        onValueChange={(value) => setMapping({ ...mapping, [field]: value === UNMAPPED ? '' : value })}
+                      >
+                        <SelectTrigger className="bg-gray-800 border-gray-700" data-testid={`select-reimport-${field}`}>
+                          <SelectValue placeholder="Select column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {!required && <SelectItem value={UNMAPPED}>Not mapped</SelectItem>}
+                          {reimportBatch.headers.map((header) => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Button
+                onClick={handleReimport}
+                disabled={missingRequired || reimportMutation.isPending}
+                className="w-full"
+                data-testid="button-submit-reimport"
+              >
+                {reimportMutation.isPending ? 'Re-importing...' : 'Re-import'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import type { TradingAccount } from "@shared/schema";
+
+interface OpenPosition {
+  tradingAccountId: string;
+  root: string;
+  symbol: string;
+  side: "long" | "short";
+  qty: number;
+  averagePrice: number;
+  openedAt: string;
+  sessionClose: string | null;
+  pastSessionClose: boolean;
+  tradeIds: string[];
+}
+
+interface OpenPositionsProps {
+  currentAccount: TradingAccount | null;
+}
+
+export default function OpenPositions({ currentAccount }: OpenPositionsProps) {
+  const { data: positions = [], isLoading } = useQuery<OpenPosition[]>({
+    queryKey: [`/api/positions${currentAccount ? `?accountId=${currentAccount.id}` : ""}`],
+    refetchInterval: 30000,
+  });
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    });
+  };
+
+  return (
+    <div className="glass-morphism rounded-2xl p-4 sm:p-6 w-full overflow-hidden" data-testid="open-positions">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold" data-testid="text-positions-title">Open Positions</h3>
+        {positions.length > 0 && (
+          <span className="text-xs text-gray-400" data-testid="text-positions-count">
+            {positions.length} open
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {isLoading ? (
+          <div className="h-12 bg-white/5 rounded-xl animate-pulse" />
+        ) : positions.length > 0 ? (
+          positions.map((position) => (
+            <div
+              key={`${position.tradingAccountId}-${position.root}-${position.side}`}
+              className="flex items-center justify-between p-3 bg-white/5 rounded-xl"
+              data-testid={`position-${position.root}-${position.side}`}
+            >
+              <div className="flex items-center space-x-3">
+                <div className={`w-2 h-2 rounded-full ${position.side === "long" ? "bg-green-400" : "bg-red-400"}`}></div>
+                <div>
+                  <div className="font-medium text-sm">{position.symbol}</div>
+                  <div className="text-xs text-gray-400">Since {formatTime(position.openedAt)}</div>
+                  {position.pastSessionClose && (
+                    <div className="flex items-center gap-1 text-xs text-amber-400" data-testid={`position-overnight-${position.root}`}>
+                      <AlertTriangle className="w-3 h-3" />
+                      Open past the session close
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-sm font-medium capitalize">
+                  {position.side} {position.qty}
+                </div>
+                <div className="text-xs text-gray-400">@ {position.averagePrice.toLocaleString()}</div>
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-center py-4 text-sm text-gray-400" data-testid="text-no-positions">
+            Flat — no open positions
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
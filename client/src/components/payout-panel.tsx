@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Banknote, CheckCircle2, XCircle, Plus } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { TradingAccount, Payout } from '@shared/schema';
+
+interface PayoutCheck {
+  check: string;
+  ok: boolean;
+  message: string;
+}
+
+interface PayoutEligibility {
+  eligible: boolean;
+  balance: number;
+  availableAmount: number;
+  lastPayoutDate: string | null;
+  nextEligibleDate: string | null;
+  checks: PayoutCheck[];
+}
+
+interface PayoutPanelProps {
+  currentAccount: TradingAccount | null;
+}
+
+export default function PayoutPanel({ currentAccount }: PayoutPanelProps) {
+  const [isRecordOpen, setIsRecordOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const payoutsKey = `/api/payouts?accountId=${currentAccount?.id}`;
+
+  const { data: eligibility } = useQuery<PayoutEligibility>({
+    queryKey: ['/api/trading-accounts', currentAccount?.id, 'payout-eligibility'],
+    enabled: Boolean(currentAccount),
+  });
+
+  const { data: payouts = [] } = useQuery<Payout[]>({
+    queryKey: [payoutsKey],
+    enabled: Boolean(currentAccount),
+  });
+
+  const recordPayoutMutation = useMutation({
+    mutationFn: async (data: { amount: string; requestedAt: string }) => {
+      return apiRequest('POST', '/api/payouts', {
+        ...data,
+        tradingAccountId: currentAccount?.id,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trading-accounts', currentAccount?.id] });
+      queryClient.invalidateQueries({ queryKey: [payoutsKey] });
+      toast({
+        title: "Payout Recorded",
+        description: "Your payout has been added to the ledger.",
+      });
+      setIsRecordOpen(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to record payout. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRecordPayout = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    recordPayoutMutation.mutate({
+      amount: formData.get('amount') as string,
+      requestedAt: formData.get('requestedAt') as string,
+    });
+  };
+
+  if (!currentAccount || currentAccount.accountType !== 'pa') {
+    return null;
+  }
+
+  return (
+    <div className="glass-morphism rounded-2xl p-4 sm:p-6 w-full overflow-hidden" data-testid="payout-panel">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Next Payout</h3>
+        <Dialog open={isRecordOpen} onOpenChange={setIsRecordOpen}>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="hover:bg-white/10" data-testid="button-record-payout">
+              <Plus className="w-4 h-4 mr-1" />
+              Record
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-gray-900 border-gray-800">
+            <DialogHeader>
+              <DialogTitle className="text-white">Record Payout</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleRecordPayout} className="space-y-4">
+              <div>
+                <Label className="text-gray-300">Amount</Label>
+                <Input
+                  name="amount"
+                  type="number"
+                  step="0.01"
+                  placeholder="1000.00"
+                  className="bg-gray-800 border-gray-700 text-white"
+                  required
+                  data-testid="input-payout-amount"
+                />
+              </div>
+              <div>
+                <Label className="text-gray-300">Requested On</Label>
+                <Input
+                  name="requestedAt"
+                  type="date"
+                  defaultValue={new Date().toISOString().split('T')[0]}
+                  className="bg-gray-800 border-gray-700 text-white"
+                  required
+                  data-testid="input-payout-date"
+                />
+              </div>
+              <Button type="submit" disabled={recordPayoutMutation.isPending} className="w-full" data-testid="button-submit-payout">
+                {recordPayoutMutation.isPending ? 'Saving...' : 'Record Payout'}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {eligibility && (
+        <>
+          <div className="flex items-center gap-3 mb-4">
+            <Banknote className={`w-8 h-8 ${eligibility.eligible ? 'text-green-400' : 'text-gray-400'}`} />
+            <div>
+              <div className="text-2xl font-bold" data-testid="text-payout-amount">
+                ${eligibility.availableAmount.toLocaleString()}
+              </div>
+              <div className="text-sm text-gray-400" data-testid="text-payout-date">
+                {eligibility.eligible
+                  ? 'Eligible now'
+                  : eligibility.nextEligibleDate
+                    ? `Possible on ${eligibility.nextEligibleDate}`
+                    : 'Not yet eligible'}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {eligibility.checks.map((check) => (
+              <div key={check.check} className="flex items-center gap-2 text-sm" data-testid={`payout-check-${check.check}`}>
+                {check.ok
+                  ? <CheckCircle2 className="w-4 h-4 text-green-400 flex-shrink-0" />
+                  : <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />}
+                <span className="text-gray-300">{check.message}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {payouts.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-white/10 space-y-2">
+          {payouts.slice(0, 3).map((payout) => (
+            <div key={payout.id} className="flex items-center justify-between text-sm" data-testid={`payout-${payout.id}`}>
+              <span className="text-gray-400">{payout.requestedAt}</span>
+              <span className="capitalize text-gray-400">{payout.status}</span>
+              <span className="font-medium">${parseFloat(payout.amount).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
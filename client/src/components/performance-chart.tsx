@@ -1,9 +1,32 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
-import { TrendingUp, TrendingDown } from 'lucide-react';
+import { TrendingUp, TrendingDown, ShieldAlert } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
 import type { TradingAccount } from '@shared/schema';
 
+interface DrawdownPoint {
+  date: string;
+  endBalance: number;
+  threshold: number;
+  buffer: number;
+  locked: boolean;
+}
+
+interface DrawdownHistory {
+  series: DrawdownPoint[];
+  current: DrawdownPoint | null;
+}
+
+// Imported statement balances where there are any, otherwise worked out from P&L
+interface BalancePoint {
+  date: string;
+  startBalance: number;
+  endBalance: number;
+  threshold: number | null;
+  source: 'statement' | 'trades';
+}
+
 interface PerformanceChartProps {
   currentAccount: TradingAccount | null;
 }
@@ -16,6 +39,19 @@ export default function PerformanceChart({ currentAccount }: PerformanceChartPro
     enabled: Boolean(currentAccount),
   });
 
+  const { data: drawdown } = useQuery<DrawdownHistory>({
+    queryKey: ['/api/trading-accounts', currentAccount?.id, 'drawdown'],
+    enabled: Boolean(currentAccount),
+  });
+
+  const { data: balanceHistory } = useQuery<BalancePoint[]>({
+    queryKey: ['/api/trading-accounts', currentAccount?.id, 'balance-history'],
+    enabled: Boolean(currentAccount),
+  });
+
+  const series = balanceHistory || [];
+  const current = drawdown?.current;
+
   const timeframes = [
     { label: '1D', value: '1D' },
     { label: '1W', value: '1W' },
@@ -50,6 +86,25 @@ export default function PerformanceChart({ currentAccount }: PerformanceChartPro
             <div className="animate-spin w-8 h-8 border-2 border-apple-blue border-t-transparent rounded-full mx-auto mb-4"></div>
             <p className="text-gray-400">Loading performance data...</p>
           </div>
+        ) : currentAccount && series.length > 0 ? (
+          <div className="w-full h-full p-4" data-testid="chart-drawdown">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={series}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="date" stroke="#9CA3AF" />
+                <YAxis stroke="#9CA3AF" domain={['auto', 'auto']} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#1F2937',
+                    border: '1px solid #374151',
+                    borderRadius: '8px'
+                  }}
+                />
+                <Line type="monotone" dataKey="endBalance" name="Balance" stroke="#3B82F6" strokeWidth={2} dot={false} />
+                <Line type="stepAfter" dataKey="threshold" name="Liquidation" stroke="#F87171" strokeWidth={2} strokeDasharray="4 4" dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
         ) : currentAccount ? (
           <div className="text-center">
             <div className="flex items-center justify-center gap-4 mb-4">
@@ -81,6 +136,22 @@ export default function PerformanceChart({ currentAccount }: PerformanceChartPro
           </div>
         )}
       </div>
+
+      {current && (
+        <div className="flex items-center justify-between mt-4 p-3 bg-white/5 rounded-xl" data-testid="drawdown-buffer">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className={`w-5 h-5 ${current.buffer > 0 ? 'text-yellow-400' : 'text-red-400'}`} />
+            <div>
+              <div className="text-sm font-medium">
+                ${Math.max(current.buffer, 0).toLocaleString()} left before liquidation
+              </div>
+              <div className="text-xs text-gray-400">
+                Threshold ${current.threshold.toLocaleString()}{current.locked ? ' (locked)' : ''}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
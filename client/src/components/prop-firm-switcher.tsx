@@ -3,24 +3,42 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { Building2, Plus, Settings, TrendingUp, TrendingDown, DollarSign } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Building2, Plus, Settings, TrendingUp, TrendingDown, DollarSign, ShieldCheck, ShieldAlert, ShieldX } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import TradovateConnect from './tradovate-connect';
 import type { TradingAccount } from '@shared/schema';
+import { listPropFirms, getPropFirm, getPlanSizes } from '@shared/propFirmRegistry';
 
 interface PropFirmSwitcherProps {
   currentAccount: TradingAccount | null;
   onAccountChange: (account: TradingAccount) => void;
 }
 
-const PROP_FIRMS = {
-  apex: { name: 'Apex', color: 'bg-blue-500' },
-  topstep: { name: 'TopStep', color: 'bg-green-500' },
-  takeprofit: { name: 'Take Profit Trader', color: 'bg-purple-500' }
+// Color for accounts whose firm is no longer in the registry
+const UNKNOWN_FIRM_COLOR = '#6B7280';
+
+const COMPLIANCE_STATUS = {
+  pass: { label: 'Compliant', icon: ShieldCheck, color: 'text-green-400', dot: 'bg-green-400' },
+  warn: { label: 'Warning', icon: ShieldAlert, color: 'text-yellow-400', dot: 'bg-yellow-400' },
+  breach: { label: 'Breach', icon: ShieldX, color: 'text-red-400', dot: 'bg-red-400' },
 };
 
+interface ComplianceRule {
+  rule: string;
+  label: string;
+  status: keyof typeof COMPLIANCE_STATUS;
+  message: string;
+}
+
+interface ComplianceReport {
+  status: keyof typeof COMPLIANCE_STATUS;
+  balance: number;
+  rules: ComplianceRule[];
+}
+
 const ACCOUNT_TYPES = {
   eval: { name: 'Evaluation', icon: TrendingUp, color: 'text-orange-500' },
   pa: { name: 'Funded (PA)', icon: TrendingDown, color: 'text-green-500' },
@@ -29,6 +47,7 @@ const ACCOUNT_TYPES = {
 
 export default function PropFirmSwitcher({ currentAccount, onAccountChange }: PropFirmSwitcherProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [selectedFirm, setSelectedFirm] = useState('');
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -36,8 +55,13 @@ export default function PropFirmSwitcher({ currentAccount, onAccountChange }: Pr
     queryKey: ['/api/trading-accounts'],
   });
 
+  const { data: compliance } = useQuery<ComplianceReport>({
+    queryKey: ['/api/trading-accounts', currentAccount?.id, 'compliance'],
+    enabled: Boolean(currentAccount),
+  });
+
   const createAccountMutation = useMutation({
-    mutationFn: async (data: { propFirm: string; accountType: string; nickname: string }) => {
+    mutationFn: async (data: { propFirm: string; accountType: string; accountSize: string; nickname: string }) => {
       return apiRequest('POST', '/api/trading-accounts', data);
     },
     onSuccess: () => {
@@ -64,6 +88,7 @@ export default function PropFirmSwitcher({ currentAccount, onAccountChange }: Pr
     createAccountMutation.mutate({
       propFirm: formData.get('propFirm') as string,
       accountType: formData.get('accountType') as string,
+      accountSize: formData.get('accountSize') as string,
       nickname: formData.get('nickname') as string,
     });
   };
@@ -76,17 +101,26 @@ export default function PropFirmSwitcher({ currentAccount, onAccountChange }: Pr
     return acc;
   }, {} as Record<string, TradingAccount[]>);
 
+  const complianceStatus = compliance ? COMPLIANCE_STATUS[compliance.status] : null;
+  const currentFirm = currentAccount ? getPropFirm(currentAccount.propFirm) : undefined;
+
+  // Offer the selected firm's plan sizes, or every size in the registry until a firm is picked
+  const firmForSizes = getPropFirm(selectedFirm);
+  const accountSizes = firmForSizes
+    ? getPlanSizes(firmForSizes)
+    : Array.from(new Set(listPropFirms().flatMap(getPlanSizes))).sort((a, b) => a - b);
+
   return (
     <div className="flex items-center gap-3">
       {/* Current Account Display */}
       <div className="flex items-center gap-3 bg-gray-900/50 backdrop-blur-md border border-gray-800/50 rounded-xl p-3 min-w-[250px]">
         {currentAccount ? (
           <>
-            <div className={`w-3 h-3 rounded-full ${PROP_FIRMS[currentAccount.propFirm as keyof typeof PROP_FIRMS]?.color || 'bg-gray-500'}`} />
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: currentFirm?.color || UNKNOWN_FIRM_COLOR }} />
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2">
                 <span className="font-medium text-white text-sm">
-                  {PROP_FIRMS[currentAccount.propFirm as keyof typeof PROP_FIRMS]?.name || 'Unknown'}
+                  {currentFirm?.name || 'Unknown'}
                 </span>
                 <Badge variant="secondary" className="text-xs">
                   {ACCOUNT_TYPES[currentAccount.accountType as keyof typeof ACCOUNT_TYPES]?.name}
@@ -102,6 +136,37 @@ export default function PropFirmSwitcher({ currentAccount, onAccountChange }: Pr
               </div>
               <div className="text-xs text-gray-400">Balance</div>
             </div>
+            {compliance && complianceStatus && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    className={`flex items-center gap-1 text-xs font-medium ${complianceStatus.color}`}
+                    data-testid="button-compliance-status"
+                  >
+                    <complianceStatus.icon className="w-4 h-4" />
+                    {complianceStatus.label}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="bg-gray-900 border-gray-800 w-80" data-testid="compliance-rules">
+                  <h4 className="text-sm font-medium text-white mb-3">Prop Firm Rules</h4>
+                  {compliance.rules.length > 0 ? (
+                    <div className="space-y-2">
+                      {compliance.rules.map((rule) => (
+                        <div key={rule.rule} className="flex items-start gap-2" data-testid={`compliance-rule-${rule.rule}`}>
+                          <div className={`w-2 h-2 rounded-full mt-1.5 ${COMPLIANCE_STATUS[rule.status].dot}`} />
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm text-white">{rule.label}</div>
+                            <div className="text-xs text-gray-400">{rule.message}</div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-400">No firm rules apply to this account type.</p>
+                  )}
+                </PopoverContent>
+              </Popover>
+            )}
           </>
         ) : (
           <div className="flex items-center gap-2 text-gray-400">
@@ -123,7 +188,7 @@ export default function PropFirmSwitcher({ currentAccount, onAccountChange }: Pr
           {Object.entries(groupedAccounts).map(([propFirm, firmAccounts]) => (
             <div key={propFirm}>
               <div className="px-2 py-1.5 text-xs font-medium text-gray-400 uppercase tracking-wider">
-                {PROP_FIRMS[propFirm as keyof typeof PROP_FIRMS]?.name}
+                {getPropFirm(propFirm)?.name || propFirm}
               </div>
               {firmAccounts.map((account) => {
                 const AccountIcon = ACCOUNT_TYPES[account.accountType as keyof typeof ACCOUNT_TYPES]?.icon || Building2;
@@ -174,14 +239,17 @@ export default function PropFirmSwitcher({ currentAccount, onAccountChange }: Pr
               <label className="block text-sm font-medium text-gray-300 mb-1">
                 Prop Firm
               </label>
-              <Select name="propFirm" required>
+              <Select name="propFirm" value={selectedFirm} onValueChange={setSelectedFirm} required>
                 <SelectTrigger className="bg-gray-800 border-gray-700">
                   <SelectValue placeholder="Select prop firm" />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.entries(PROP_FIRMS).map(([value, firm]) => (
-                    <SelectItem key={value} value={value}>
-                      {firm.name}
+                  {listPropFirms().map((firm) => (
+                    <SelectItem key={firm.id} value={firm.id}>
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: firm.color }} />
+                        {firm.name}
+                      </div>
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -206,6 +274,24 @@ export default function PropFirmSwitcher({ currentAccount, onAccountChange }: Pr
               </Select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Account Size
+              </label>
+              <Select name="accountSize" defaultValue="50000" required>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue placeholder="Select account size" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accountSizes.map((size) => (
+                    <SelectItem key={size} value={String(size)}>
+                      ${size.toLocaleString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-1">
                 Account Nickname
@@ -7,10 +7,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import type { TradingAccount } from '@shared/schema';
+import { classifyInstrument, forexLotSize, isUsdQuote } from '@shared/instrumentRegistry';
+import { forexPipValue } from '@shared/tradePnl';
+import type { TradingAccount, Setup } from '@shared/schema';
 
 const actions = [
   {
@@ -30,10 +32,30 @@ export default function QuickActions({ currentAccount, onSyncTrades }: QuickActi
   const [isAddTradeOpen, setIsAddTradeOpen] = useState(false);
   const [isAiCoachOpen, setIsAiCoachOpen] = useState(false);
   const [isImportCsvOpen, setIsImportCsvOpen] = useState(false);
+  const [tradeSymbol, setTradeSymbol] = useState('');
+  // Size, price and rate as typed, for the forex pip value shown under them
+  const [sizing, setSizing] = useState({ qty: '', entryPrice: '', quoteToUsd: '' });
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, navigate] = useLocation();
 
+  const { data: setups = [] } = useQuery<Setup[]>({
+    queryKey: ['/api/setups'],
+  });
+  const activeSetups = setups.filter(setup => setup.status === 'active');
+
+  // Crosses (EURGBP) and coins quoted in EUR or BTC need a USD rate for their P&L;
+  // USD-based pairs (USDJPY) convert at the exit price
+  const instrument = classifyInstrument(tradeSymbol);
+  const needsQuoteRate = (instrument.assetClass === 'forex' || instrument.assetClass === 'crypto')
+    && !!instrument.quote && !isUsdQuote(instrument.quote) && instrument.base !== 'USD';
+  const isCrypto = instrument.assetClass === 'crypto';
+  const sizingQty = parseFloat(sizing.qty);
+  const sizingPrice = parseFloat(sizing.entryPrice);
+  const pipValue = sizingQty > 0 && sizingPrice > 0
+    ? forexPipValue(tradeSymbol, sizingQty, sizingPrice, needsQuoteRate ? sizing.quoteToUsd || null : null)
+    : null;
+
   const addTradeMutation = useMutation({
     mutationFn: async (data: any) => {
       return apiRequest('POST', '/api/trades', {
@@ -43,11 +65,14 @@ export default function QuickActions({ currentAccount, onSyncTrades }: QuickActi
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/trades/recent'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/setups/stats'] });
       toast({
         title: "Trade Added",
         description: "Your trade has been added successfully.",
       });
       setIsAddTradeOpen(false);
+      setTradeSymbol('');
+      setSizing({ qty: '', entryPrice: '', quoteToUsd: '' });
     },
     onError: () => {
       toast({
@@ -68,10 +93,16 @@ export default function QuickActions({ currentAccount, onSyncTrades }: QuickActi
       qty: formData.get('quantity'),
       entryPrice: formData.get('entryPrice'),
       exitPrice: formData.get('exitPrice'),
+      stopPrice: formData.get('stopPrice'),
+      targetPrice: formData.get('targetPrice'),
+      plannedRisk: formData.get('plannedRisk'),
+      quoteToUsd: formData.get('quoteToUsd') || null,
+      liquidity: formData.get('liquidity') || null,
       entryTime: new Date(formData.get('entryTime') as string),
       exitTime: formData.get('exitTime') ? new Date(formData.get('exitTime') as string) : null,
-      pnl: formData.get('pnl'),
-      fees: formData.get('fees') || '0',
+      pnl: formData.get('pnl') || null,
+      fees: formData.get('fees') || null,
+      setupIds: formData.get('setupId') ? [formData.get('setupId')] : [],
     });
   };
   const actionHandlers = {
@@ -111,6 +142,7 @@ export default function QuickActions({ currentAccount, onSyncTrades }: QuickActi
                   name="symbol"
                   placeholder="ES, NQ, YM, etc."
                   className="bg-gray-800 border-gray-700 text-white"
+                  onChange={(e) => setTradeSymbol(e.target.value)}
                   required
                   data-testid="input-trade-symbol"
                 />
@@ -134,9 +166,10 @@ export default function QuickActions({ currentAccount, onSyncTrades }: QuickActi
                 <Input
                   name="quantity"
                   type="number"
-                  step="1"
+                  step="any"
                   placeholder="1"
                   className="bg-gray-800 border-gray-700 text-white"
+                  onChange={(e) => setSizing({ ...sizing, qty: e.target.value })}
                   required
                   data-testid="input-trade-quantity"
                 />
@@ -149,11 +182,17 @@ export default function QuickActions({ currentAccount, onSyncTrades }: QuickActi
                   step="0.25"
                   placeholder="4500.00"
                   className="bg-gray-800 border-gray-700 text-white"
+                  onChange={(e) => setSizing({ ...sizing, entryPrice: e.target.value })}
                   required
                   data-testid="input-trade-entry-price"
                 />
               </div>
             </div>
+            {pipValue !== null && (
+              <p className="text-xs text-gray-400" data-testid="text-trade-pip-value">
+                {Math.round((sizingQty / forexLotSize()) * 100) / 100} lots · 1 pip = ${pipValue.toFixed(2)}
+              </p>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label className="text-gray-300">Exit Price (Optional)</Label>
@@ -167,18 +206,99 @@ export default function QuickActions({ currentAccount, onSyncTrades }: QuickActi
                 />
               </div>
               <div>
-                <Label className="text-gray-300">P&L</Label>
+                <Label className="text-gray-300">P&L (Optional)</Label>
                 <Input
                   name="pnl"
                   type="number"
                   step="0.01"
-                  placeholder="100.00"
+                  placeholder="Auto from prices"
                   className="bg-gray-800 border-gray-700 text-white"
-                  required
                   data-testid="input-trade-pnl"
                 />
               </div>
             </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label className="text-gray-300">Stop</Label>
+                <Input
+                  name="stopPrice"
+                  type="number"
+                  step="0.25"
+                  placeholder="4495.00"
+                  className="bg-gray-800 border-gray-700 text-white"
+                  data-testid="input-trade-stop-price"
+                />
+              </div>
+              <div>
+                <Label className="text-gray-300">Target</Label>
+                <Input
+                  name="targetPrice"
+                  type="number"
+                  step="0.25"
+                  placeholder="4507.50"
+                  className="bg-gray-800 border-gray-700 text-white"
+                  data-testid="input-trade-target-price"
+                />
+              </div>
+              <div>
+                <Label className="text-gray-300">Risk ($)</Label>
+                <Input
+                  name="plannedRisk"
+                  type="number"
+                  step="0.01"
+                  placeholder="From stop"
+                  className="bg-gray-800 border-gray-700 text-white"
+                  data-testid="input-trade-planned-risk"
+                />
+              </div>
+            </div>
+            {(needsQuoteRate || isCrypto) && (
+              <div className="grid grid-cols-2 gap-4">
+                {needsQuoteRate && (
+                  <div>
+                    <Label className="text-gray-300">{instrument.quote} → USD Rate</Label>
+                    <Input
+                      name="quoteToUsd"
+                      type="number"
+                      step="any"
+                      placeholder={`USD per 1 ${instrument.quote}`}
+                      className="bg-gray-800 border-gray-700 text-white"
+                      onChange={(e) => setSizing({ ...sizing, quoteToUsd: e.target.value })}
+                      data-testid="input-trade-quote-to-usd"
+                    />
+                  </div>
+                )}
+                {isCrypto && (
+                  <div>
+                    <Label className="text-gray-300">Liquidity</Label>
+                    <Select name="liquidity">
+                      <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-trade-liquidity">
+                        <SelectValue placeholder="Taker" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="taker">Taker</SelectItem>
+                        <SelectItem value="maker">Maker</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+            {activeSetups.length > 0 && (
+              <div>
+                <Label className="text-gray-300">Setup</Label>
+                <Select name="setupId">
+                  <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-trade-setup">
+                    <SelectValue placeholder="No setup" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeSetups.map(setup => (
+                      <SelectItem key={setup.id} value={setup.id}>{setup.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div>
               <Label className="text-gray-300">Entry Time</Label>
               <Input
@@ -1,14 +1,83 @@
-import { useQuery } from "@tanstack/react-query";
-import { ArrowRight } from "lucide-react";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { realizedR } from "@shared/rMultiple";
 
 interface RecentTradesProps {
   currentAccount: any;
 }
 
 export default function RecentTrades({ currentAccount }: RecentTradesProps) {
+  const [editingTrade, setEditingTrade] = useState<any | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const invalidateTrades = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trades/recent"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/daily"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/performance"] });
+  };
+
+  const updateTradeMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, FormDataEntryValue | null> }) => {
+      return apiRequest("PATCH", `/api/trades/${id}`, updates);
+    },
+    onSuccess: () => {
+      invalidateTrades();
+      toast({
+        title: "Trade Updated",
+        description: "The change was saved to the trade's history.",
+      });
+      setEditingTrade(null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update trade. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTradeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/trades/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTrades();
+      toast({
+        title: "Trade Deleted",
+        description: "Daily P&L has been recalculated.",
+      });
+      setEditingTrade(null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete trade. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleUpdateTrade = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const updates: Record<string, FormDataEntryValue | null> = {};
+    for (const field of ["qty", "entryPrice", "exitPrice", "stopPrice", "fees", "pnl"]) {
+      const value = formData.get(field);
+      const current = editingTrade[field] ?? "";
+      if (value !== current) updates[field] = value;
+    }
+    updateTradeMutation.mutate({ id: editingTrade.id, updates });
+  };
 
   const { data: trades, isLoading, error } = useQuery({
     queryKey: ["/api/trades/recent", currentAccount?.id],
@@ -71,11 +140,13 @@ export default function RecentTrades({ currentAccount }: RecentTradesProps) {
           (trades as any).map((trade: any) => {
             const pnlValue = parseFloat(trade.pnl || "0");
             const isProfit = pnlValue >= 0;
+            const rMultiple = realizedR(trade);
             
             return (
               <div 
                 key={trade.id} 
-                className="flex items-center justify-between p-3 bg-white/5 rounded-xl hover:bg-white/10 transition-colors"
+                onClick={() => setEditingTrade(trade)}
+                className="flex items-center justify-between p-3 bg-white/5 rounded-xl hover:bg-white/10 transition-colors cursor-pointer"
                 data-testid={`trade-${trade.symbol}-${trade.id}`}
               >
                 <div className="flex items-center space-x-3">
@@ -87,6 +158,11 @@ export default function RecentTrades({ currentAccount }: RecentTradesProps) {
                     <div className="text-xs text-gray-400" data-testid={`trade-time-${trade.id}`}>
                       {formatTime(trade.entryTime)}
                     </div>
+                    {trade.mfe !== null && trade.mae !== null && (
+                      <div className="text-xs text-gray-500" data-testid={`trade-excursion-${trade.id}`}>
+                        MFE ${parseFloat(trade.mfe).toLocaleString()} · MAE ${parseFloat(trade.mae).toLocaleString()}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
@@ -98,6 +174,11 @@ export default function RecentTrades({ currentAccount }: RecentTradesProps) {
                   </div>
                   <div className="text-xs text-gray-400 capitalize" data-testid={`trade-side-${trade.id}`}>
                     {trade.side}
+                    {rMultiple !== null && (
+                      <span className="ml-2" data-testid={`trade-r-${trade.id}`}>
+                        {rMultiple >= 0 ? '+' : ''}{rMultiple}R
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -119,6 +200,62 @@ export default function RecentTrades({ currentAccount }: RecentTradesProps) {
         <span>View All Trades</span>
         <ArrowRight className="w-4 h-4" />
       </button>
+
+      {/* Edit Trade Modal */}
+      <Dialog open={editingTrade !== null} onOpenChange={(open) => !open && setEditingTrade(null)}>
+        <DialogContent className="bg-gray-900 border-gray-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              Edit {editingTrade?.symbol} {editingTrade?.side}
+            </DialogTitle>
+          </DialogHeader>
+          {editingTrade && (
+            <form onSubmit={handleUpdateTrade} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  { name: "qty", label: "Quantity" },
+                  { name: "entryPrice", label: "Entry Price" },
+                  { name: "exitPrice", label: "Exit Price" },
+                  { name: "stopPrice", label: "Stop" },
+                  { name: "fees", label: "Fees" },
+                  { name: "pnl", label: "P&L" },
+                ].map((field) => (
+                  <div key={field.name}>
+                    <Label className="text-gray-300">{field.label}</Label>
+                    <Input
+                      name={field.name}
+                      type="number"
+                      step="any"
+                      defaultValue={editingTrade[field.name] ?? ""}
+                      className="bg-gray-800 border-gray-700 text-white"
+                      data-testid={`input-edit-trade-${field.name}`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="destructive"
+                  disabled={deleteTradeMutation.isPending}
+                  onClick={() => deleteTradeMutation.mutate(editingTrade.id)}
+                  data-testid="button-delete-trade"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={updateTradeMutation.isPending}
+                  className="flex-1"
+                  data-testid="button-save-trade"
+                >
+                  {updateTradeMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { GitCompare, Merge, Check, Trash2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { Trade, TradingAccount, ReconciliationItem } from '@shared/schema';
+
+interface QueueItem extends Omit<ReconciliationItem, 'differences'> {
+  differences: Record<string, [unknown, unknown]>;
+  trade: Trade | null;
+  candidate: Trade | null;
+}
+
+interface DayStatus {
+  tradingAccountId: string;
+  tradeDate: string;
+  status: 'pending' | 'reconciled' | 'conflicts';
+  sources: string[];
+  merged: number;
+  openItems: number;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  tv: 'TradingView',
+  email: 'Email',
+  csv: 'CSV',
+  fills: 'Broker',
+  api: 'Broker',
+  manual: 'Manual',
+};
+
+const STATUS_STYLES: Record<DayStatus['status'], string> = {
+  reconciled: 'bg-green-900/40 text-green-300',
+  pending: 'bg-yellow-900/40 text-yellow-300',
+  conflicts: 'bg-red-900/40 text-red-300',
+};
+
+function describeTrade(trade: Trade | null) {
+  if (!trade) return '—';
+  const time = new Date(trade.entryTime).toLocaleTimeString();
+  return `${trade.side.toUpperCase()} ${trade.qty} ${trade.symbol} @ ${trade.entryPrice} · ${time}`;
+}
+
+export default function ReconciliationQueue() {
+  const [accountId, setAccountId] = useState<string>('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: accounts = [] } = useQuery<TradingAccount[]>({
+    queryKey: ['/api/trading-accounts'],
+  });
+
+  const { data: items = [] } = useQuery<QueueItem[]>({
+    queryKey: ['/api/reconciliation/queue'],
+  });
+
+  const { data: days = [] } = useQuery<DayStatus[]>({
+    queryKey: ['/api/reconciliation/days'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/reconciliation/queue'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reconciliation/days'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'merge' | 'keep' | 'delete' }) => {
+      const res = await apiRequest('POST', `/api/reconciliation/items/${id}/resolve`, { action });
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to resolve the trade. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('POST', '/api/reconciliation/run', { accountId: id });
+      return res.json();
+    },
+    onSuccess: ({ days }) => {
+      invalidate();
+      const results = Object.values(days as Record<string, { merged: number; openItems: number }>);
+      toast({
+        title: "Reconciliation Complete",
+        description: `${results.reduce((sum, day) => sum + day.merged, 0)} trades merged, `
+          + `${results.reduce((sum, day) => sum + day.openItems, 0)} left to review`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to run reconciliation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const accountName = (id: string) => {
+    const account = accounts.find(a => a.id === id);
+    return account?.nickname || `Account ${account?.extAccountId || ''}`;
+  };
+
+  const recentDays = [...days].sort((a, b) => b.tradeDate.localeCompare(a.tradeDate)).slice(0, 14);
+
+  return (
+    <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6" data-testid="reconciliation-queue">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <GitCompare className="w-5 h-5 mr-2 text-apple-blue" />
+          <h2 className="text-xl font-semibold" data-testid="text-reconciliation-title">
+            Reconciliation
+          </h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={accountId} onValueChange={setAccountId}>
+            <SelectTrigger className="w-48 bg-gray-800 border-gray-700" data-testid="select-reconcile-account">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>{accountName(account.id)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-gray-700 text-white hover:bg-gray-800"
+            disabled={!accountId || runMutation.isPending}
+            onClick={() => runMutation.mutate(accountId)}
+            data-testid="button-run-reconciliation"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            {runMutation.isPending ? 'Running...' : 'Run'}
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400 mb-4">
+        TradingView alerts, emails and CSV rows are matched to the broker's records, which keep their price, fees and P&L.
+        Trades that could not be matched wait here for review.
+      </p>
+
+      {recentDays.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4" data-testid="reconciliation-days">
+          {recentDays.map((day) => (
+            <span
+              key={`${day.tradingAccountId}-${day.tradeDate}`}
+              className={`px-2 py-1 rounded text-xs ${STATUS_STYLES[day.status]}`}
+              title={`${accountName(day.tradingAccountId)} · ${day.sources.map(s => SOURCE_LABELS[s] || s).join(', ')}`}
+              data-testid={`reconciliation-day-${day.tradeDate}`}
+            >
+              {day.tradeDate} · {day.status}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {items.length > 0 ? (
+        <div className="space-y-2">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className="p-3 bg-gray-800/50 rounded-lg"
+              data-testid={`reconciliation-item-${item.id}`}
+            >
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <div className="flex items-center gap-2 font-medium">
+                    {item.tradeDate}
+                    <Badge variant={item.kind === 'mismatch' ? 'destructive' : 'secondary'}>
+                      {item.kind === 'mismatch' ? 'Mismatch' : 'No broker record'}
+                    </Badge>
+                    <span className="text-xs text-gray-400">{accountName(item.tradingAccountId)}</span>
+                  </div>
+                  <div className="text-xs text-gray-300 mt-1">
+                    {SOURCE_LABELS[item.trade?.source || ''] || item.trade?.source}: {describeTrade(item.trade)}
+                  </div>
+                  {item.candidate && (
+                    <div className="text-xs text-gray-300">
+                      {SOURCE_LABELS[item.candidate.source || ''] || item.candidate.source}: {describeTrade(item.candidate)}
+                    </div>
+                  )}
+                  {Object.keys(item.differences).length > 0 && (
+                    <div className="text-xs text-yellow-400 mt-1">
+                      {Object.entries(item.differences)
+                        .map(([field, [ours, theirs]]) => `${field}: ${String(ours)} vs ${String(theirs)}`)
+                        .join(' · ')}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {item.candidate && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="hover:bg-white/10"
+                      disabled={resolveMutation.isPending}
+                      onClick={() => resolveMutation.mutate({ id: item.id, action: 'merge' })}
+                      data-testid={`button-merge-${item.id}`}
+                    >
+                      <Merge className="w-4 h-4 mr-1" />
+                      Merge
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="hover:bg-white/10"
+                    disabled={resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ id: item.id, action: 'keep' })}
+                    data-testid={`button-keep-${item.id}`}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Keep
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-400 hover:bg-red-900/20 hover:text-red-300"
+                    disabled={resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ id: item.id, action: 'delete' })}
+                    data-testid={`button-delete-${item.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400" data-testid="text-no-reconciliation-items">
+          Nothing to review. Every trade matched a broker record or is still waiting for one.
+        </p>
+      )}
+    </div>
+  );
+}
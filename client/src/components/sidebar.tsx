@@ -1,4 +1,4 @@
-import { Home, Calendar, BarChart3, Brain, Book, Settings, Moon } from "lucide-react";
+import { Home, Calendar, BarChart3, Briefcase, ClipboardList, Brain, Book, Settings, Moon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useLocation } from "wouter";
 
@@ -6,6 +6,8 @@ const navigation = [
   { name: "Dashboard", icon: Home, path: "/", testId: "nav-dashboard" },
   { name: "Calendar", icon: Calendar, path: "/calendar", testId: "nav-calendar" },
   { name: "Analytics", icon: BarChart3, path: "/analytics", testId: "nav-analytics" },
+  { name: "Business", icon: Briefcase, path: "/business", testId: "nav-business" },
+  { name: "Playbook", icon: ClipboardList, path: "/playbook", testId: "nav-playbook" },
   { name: "AI Coach", icon: Brain, path: "/ai-coach", testId: "nav-ai" },
   { name: "Journal", icon: Book, path: "/journal", testId: "nav-journal" },
   { name: "Settings", icon: Settings, path: "/settings", testId: "nav-settings" },
@@ -60,16 +60,17 @@ export default function TradovateConnect({ account }: TradovateConnectProps) {
 
   const syncMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest('POST', '/api/tradovate/sync', {
+      const response = await apiRequest('POST', '/api/tradovate/sync', {
         accountId: account.id,
       });
+      return response.json();
     },
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ['/api/trades/recent', account.id] });
       queryClient.invalidateQueries({ queryKey: ['/api/analytics/performance', account.id] });
       toast({
         title: "Sync Complete",
-        description: `Synced ${data.syncedTrades || 0} new trades from Tradovate.`,
+        description: `Synced ${data.newFills || 0} new fills into ${data.trades || 0} trades from Tradovate.`,
       });
     },
     onError: (error) => {
@@ -0,0 +1,50 @@
+// Follows a background CSV import over Server-Sent Events. Returns a function that
+// stops listening; the stream also closes itself once the job is done or failed.
+
+export interface ImportProgress {
+  processed: number;
+  inserted: number;
+  updated: number;
+  errors: number;
+}
+
+export interface ImportResult {
+  batchId: string;
+  inserted: number;
+  updated: number;
+  daysTouched: string[];
+  errors: string[];
+}
+
+export interface ImportJobHandlers {
+  onProgress?: (progress: ImportProgress) => void;
+  onRowError?: (row: number, message: string) => void;
+  onDone: (result: ImportResult) => void;
+  onFailed: (message: string) => void;
+}
+
+export function watchImportJob(jobId: string, handlers: ImportJobHandlers): () => void {
+  const source = new EventSource(`/api/import/jobs/${jobId}/events`, { withCredentials: true });
+  const listen = (type: string, handle: (data: any) => void) => {
+    source.addEventListener(type, (event) => handle(JSON.parse((event as MessageEvent).data)));
+  };
+
+  listen('progress', (data) => handlers.onProgress?.(data.progress));
+  listen('row-error', (data) => handlers.onRowError?.(data.row, data.message));
+  listen('done', (data) => {
+    source.close();
+    handlers.onDone(data.result);
+  });
+  listen('failed', (data) => {
+    source.close();
+    handlers.onFailed(data.message);
+  });
+  // The server ends the stream after done/failed; any other drop means the job is gone
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) return;
+    source.close();
+    handlers.onFailed('Lost connection to the import');
+  };
+
+  return () => source.close();
+}
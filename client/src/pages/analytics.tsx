@@ -2,8 +2,11 @@ import { useState } from "react";
 import { BarChart3, TrendingUp, TrendingDown, Calendar, DollarSign } from "lucide-react";
 import Sidebar from "@/components/sidebar";
 import Header from "@/components/header";
+import ExcursionPanel from "@/components/excursion-panel";
 import { useQuery } from "@tanstack/react-query";
-import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, BarChart, Bar } from "recharts";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, BarChart, Bar, Cell } from "recharts";
+import type { TradingAccount } from "@shared/schema";
 
 interface AnalyticsData {
   totalPnl: number;
@@ -16,8 +19,49 @@ interface AnalyticsData {
   sharpeRatio: number;
 }
 
+interface FeeDrag {
+  grossProfit: number;
+  fees: number;
+  dragPct: number | null;
+  byComponent: { commission: number; exchange: number; nfa: number; platform: number };
+}
+
+interface RStats {
+  trades: number;
+  averageR: number;
+  expectancyR: number;
+  winRate: number;
+  avgWinR: number;
+  avgLossR: number;
+  totalR: number;
+}
+
+interface RBucket {
+  label: string;
+  from: number | null;
+  to: number | null;
+  count: number;
+}
+
+interface RGroup extends RStats {
+  key: string;
+  distribution: RBucket[];
+}
+
+interface RAnalytics {
+  summary: RStats;
+  distribution: RBucket[];
+  byAccount: RGroup[];
+  bySetup: RGroup[];
+  tradesWithoutRisk: number;
+}
+
 export default function Analytics() {
   const [timeframe, setTimeframe] = useState("1M");
+  const [assetClass, setAssetClass] = useState("all");
+  // "all", or a setup or account group as "setup:<name>" / "account:<id>"
+  const [rGroup, setRGroup] = useState("all");
+  const assetClassQuery = assetClass === "all" ? "" : `?assetClass=${assetClass}`;
   
   const { data: analytics, isLoading } = useQuery<AnalyticsData>({
     queryKey: ['/api/analytics/performance', timeframe]
@@ -27,6 +71,33 @@ export default function Analytics() {
     queryKey: ['/api/analytics/chart', timeframe]
   });
 
+  const { data: rAnalytics } = useQuery<RAnalytics>({
+    queryKey: [`/api/analytics/r-multiples${assetClassQuery}`]
+  });
+
+  const { data: feeDrag } = useQuery<FeeDrag>({
+    queryKey: [`/api/analytics/fees${assetClassQuery}`]
+  });
+
+  const { data: accounts = [] } = useQuery<TradingAccount[]>({
+    queryKey: ['/api/trading-accounts']
+  });
+
+  const accountName = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    return account?.nickname || `Account ${account?.extAccountId || ''}`;
+  };
+
+  const formatR = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+
+  // The R card shows the whole summary or one setup's or account's trades
+  const selectedRGroup = rAnalytics && (
+    rAnalytics.bySetup.find((group) => `setup:${group.key}` === rGroup) ||
+    rAnalytics.byAccount.find((group) => `account:${group.key}` === rGroup)
+  );
+  const rStats = selectedRGroup || rAnalytics?.summary;
+  const rDistribution = selectedRGroup?.distribution || rAnalytics?.distribution || [];
+
   const stats = [
     {
       name: "Total P&L",
@@ -66,6 +137,14 @@ export default function Analytics() {
     { label: "YTD", value: "YTD" }
   ];
 
+  const assetClasses = [
+    { label: "All", value: "all" },
+    { label: "Futures", value: "futures" },
+    { label: "Stocks", value: "equity" },
+    { label: "Forex", value: "forex" },
+    { label: "Crypto", value: "crypto" }
+  ];
+
   return (
     <div className="min-h-screen bg-gray-950 text-white">
       <Sidebar />
@@ -83,7 +162,7 @@ export default function Analytics() {
             </div>
 
             {/* Timeframe Selector */}
-            <div className="mb-8">
+            <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
               <div className="flex space-x-2" data-testid="timeframe-selector">
                 {timeframes.map((tf) => (
                   <button
@@ -100,6 +179,22 @@ export default function Analytics() {
                   </button>
                 ))}
               </div>
+              <div className="flex space-x-2" data-testid="asset-class-selector">
+                {assetClasses.map((ac) => (
+                  <button
+                    key={ac.value}
+                    onClick={() => setAssetClass(ac.value)}
+                    className={`px-4 py-2 rounded-lg text-sm transition-all ${
+                      assetClass === ac.value
+                        ? "bg-apple-blue text-white"
+                        : "bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white"
+                    }`}
+                    data-testid={`button-asset-class-${ac.value}`}
+                  >
+                    {ac.label}
+                  </button>
+                ))}
+              </div>
             </div>
 
             {/* Stats Grid */}
@@ -218,6 +313,157 @@ export default function Analytics() {
               </div>
             )}
 
+            {/* R-Multiples */}
+            {rAnalytics && rStats && (
+              <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold" data-testid="text-r-distribution-title">
+                      R Distribution
+                    </h3>
+                    <Select value={selectedRGroup ? rGroup : "all"} onValueChange={setRGroup}>
+                      <SelectTrigger className="w-48" data-testid="select-r-group">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All trades</SelectItem>
+                        {rAnalytics.bySetup.map((group) => (
+                          <SelectItem key={`setup:${group.key}`} value={`setup:${group.key}`}>{group.key}</SelectItem>
+                        ))}
+                        {rAnalytics.byAccount.length > 1 && rAnalytics.byAccount.map((group) => (
+                          <SelectItem key={`account:${group.key}`} value={`account:${group.key}`}>{accountName(group.key)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4 mb-4">
+                    <div>
+                      <p className="text-gray-400 text-sm">Average R</p>
+                      <p className={`text-xl font-semibold ${rStats.averageR >= 0 ? 'text-green-400' : 'text-red-400'}`} data-testid="text-average-r">
+                        {formatR(rStats.averageR)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400 text-sm">Expectancy</p>
+                      <p className={`text-xl font-semibold ${rStats.expectancyR >= 0 ? 'text-green-400' : 'text-red-400'}`} data-testid="text-expectancy-r">
+                        {formatR(rStats.expectancyR)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400 text-sm">Trades with R</p>
+                      <p className="text-xl font-semibold" data-testid="text-r-trade-count">
+                        {rStats.trades}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="h-48" data-testid="chart-r-distribution">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={rDistribution}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                        <XAxis dataKey="label" stroke="#9CA3AF" interval={1} />
+                        <YAxis stroke="#9CA3AF" allowDecimals={false} />
+                        <Tooltip 
+                          contentStyle={{ 
+                            backgroundColor: '#1F2937', 
+                            border: '1px solid #374151',
+                            borderRadius: '8px'
+                          }} 
+                        />
+                        <Bar dataKey="count">
+                          {rDistribution.map((bucket) => (
+                            <Cell key={bucket.label} fill={(bucket.to ?? 1) <= 0 ? '#F87171' : '#34D399'} />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  {rAnalytics.tradesWithoutRisk > 0 && (
+                    <p className="text-xs text-gray-400 mt-2" data-testid="text-trades-without-risk">
+                      {rAnalytics.tradesWithoutRisk} closed trades have no stop or planned risk
+                    </p>
+                  )}
+                </div>
+
+                <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6">
+                  <h3 className="text-lg font-semibold mb-4" data-testid="text-r-by-setup-title">
+                    Expectancy by Setup
+                  </h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-400 text-left">
+                        <th className="pb-2 font-normal">Setup</th>
+                        <th className="pb-2 font-normal text-right">Trades</th>
+                        <th className="pb-2 font-normal text-right">Win %</th>
+                        <th className="pb-2 font-normal text-right">Expectancy</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rAnalytics.bySetup.map((group) => (
+                        <tr key={group.key} className="border-t border-white/5" data-testid={`row-r-setup-${group.key}`}>
+                          <td className="py-2">{group.key}</td>
+                          <td className="py-2 text-right">{group.trades}</td>
+                          <td className="py-2 text-right">{group.winRate.toFixed(0)}%</td>
+                          <td className={`py-2 text-right ${group.expectancyR >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {formatR(group.expectancyR)}
+                          </td>
+                        </tr>
+                      ))}
+                      {rAnalytics.byAccount.length > 1 && (
+                        <tr>
+                          <td colSpan={4} className="pt-4 pb-2 text-gray-400">By Account</td>
+                        </tr>
+                      )}
+                      {rAnalytics.byAccount.length > 1 && rAnalytics.byAccount.map((group) => (
+                        <tr key={group.key} className="border-t border-white/5 text-gray-300" data-testid={`row-r-account-${group.key}`}>
+                          <td className="py-2">{accountName(group.key)}</td>
+                          <td className="py-2 text-right">{group.trades}</td>
+                          <td className="py-2 text-right">{group.winRate.toFixed(0)}%</td>
+                          <td className={`py-2 text-right ${group.expectancyR >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {formatR(group.expectancyR)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {feeDrag && feeDrag.fees > 0 && (
+              <div className="mt-8 bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6" data-testid="fee-drag">
+                <h3 className="text-lg font-semibold mb-4" data-testid="text-fee-drag-title">
+                  Fee Drag
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                  <div>
+                    <p className="text-gray-400 text-sm">Of Gross Profit</p>
+                    <p className="text-xl font-semibold text-red-400" data-testid="text-fee-drag-pct">
+                      {feeDrag.dragPct === null ? '—' : `${feeDrag.dragPct.toFixed(1)}%`}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400 text-sm">Total Fees</p>
+                    <p className="text-xl font-semibold" data-testid="text-fee-total">${feeDrag.fees.toFixed(2)}</p>
+                  </div>
+                  {[
+                    { label: 'Commission', value: feeDrag.byComponent.commission },
+                    { label: 'Exchange', value: feeDrag.byComponent.exchange },
+                    { label: 'NFA', value: feeDrag.byComponent.nfa },
+                    { label: 'Platform', value: feeDrag.byComponent.platform },
+                  ].map((component) => (
+                    <div key={component.label}>
+                      <p className="text-gray-400 text-sm">{component.label}</p>
+                      <p className="text-xl font-semibold text-gray-300">${component.value.toFixed(2)}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mt-8">
+              <ExcursionPanel />
+            </div>
+
             {isLoading && (
               <div className="text-center py-12">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-apple-blue mx-auto"></div>
@@ -0,0 +1,436 @@
+import { useState } from "react";
+import { Briefcase, DollarSign, TrendingUp, TrendingDown, Wallet, Plus, Trash2 } from "lucide-react";
+import Sidebar from "@/components/sidebar";
+import Header from "@/components/header";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from "recharts";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getPropFirm } from "@shared/propFirmRegistry";
+import type { TradingAccount, Expense } from "@shared/schema";
+
+interface LedgerLine {
+  key: string;
+  label: string;
+  expenses: number;
+  payouts: number;
+  net: number;
+  roiPct: number | null;
+}
+
+interface AccountLedgerLine extends LedgerLine {
+  propFirm: string;
+  accountType: string;
+  status: string;
+  pendingPayouts: number;
+}
+
+interface BusinessLedger {
+  totals: LedgerLine & { pendingPayouts: number };
+  expensesByType: Record<Expense["type"], number>;
+  byFirm: LedgerLine[];
+  byAccount: AccountLedgerLine[];
+  byMonth: LedgerLine[];
+}
+
+const EXPENSE_TYPES: Record<Expense["type"], string> = {
+  eval_purchase: "Evaluation Purchase",
+  reset: "Reset",
+  activation_fee: "Activation Fee",
+  data_fee: "Monthly Data Fee",
+};
+
+function formatMoney(value: number): string {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatRoi(roiPct: number | null): string {
+  return roiPct === null ? "—" : `${roiPct.toFixed(1)}%`;
+}
+
+export default function Business() {
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [expenseAccount, setExpenseAccount] = useState("");
+  const [expenseType, setExpenseType] = useState<Expense["type"]>("eval_purchase");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: ledger, isLoading } = useQuery<BusinessLedger>({
+    queryKey: ["/api/analytics/business"],
+  });
+
+  const { data: accounts = [] } = useQuery<TradingAccount[]>({
+    queryKey: ["/api/trading-accounts"],
+  });
+
+  const { data: expenses = [] } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const invalidateLedger = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/business"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+  };
+
+  const addExpenseMutation = useMutation({
+    mutationFn: async (data: { tradingAccountId: string; type: string; amount: string; incurredAt: string; notes: string }) => {
+      return apiRequest("POST", "/api/expenses", data);
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      toast({
+        title: "Expense Added",
+        description: "The expense has been added to your business ledger.",
+      });
+      setIsAddOpen(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add expense. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteExpenseMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/expenses/${id}`);
+    },
+    onSuccess: invalidateLedger,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete expense. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddExpense = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    addExpenseMutation.mutate({
+      tradingAccountId: expenseAccount,
+      type: expenseType,
+      amount: formData.get("amount") as string,
+      incurredAt: formData.get("incurredAt") as string,
+      notes: formData.get("notes") as string,
+    });
+  };
+
+  const accountsById = new Map(accounts.map((account) => [account.id, account]));
+
+  const stats = ledger ? [
+    {
+      name: "Total Spent",
+      value: formatMoney(ledger.totals.expenses),
+      change: "negative",
+      icon: Wallet,
+      testId: "stat-total-spent",
+    },
+    {
+      name: "Payouts Received",
+      value: formatMoney(ledger.totals.payouts),
+      change: "positive",
+      icon: DollarSign,
+      testId: "stat-payouts-received",
+    },
+    {
+      name: "Net Profit",
+      value: formatMoney(ledger.totals.net),
+      change: ledger.totals.net >= 0 ? "positive" : "negative",
+      icon: ledger.totals.net >= 0 ? TrendingUp : TrendingDown,
+      testId: "stat-net-profit",
+    },
+    {
+      name: "ROI",
+      value: formatRoi(ledger.totals.roiPct),
+      change: (ledger.totals.roiPct ?? 0) >= 0 ? "positive" : "negative",
+      icon: Briefcase,
+      testId: "stat-roi",
+    },
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white">
+      <Sidebar />
+      <div className="ml-20">
+        <Header />
+        <main className="p-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="mb-8 flex items-start justify-between">
+              <div>
+                <h1 className="text-3xl font-bold mb-2" data-testid="text-business-title">
+                  Prop Firm Business
+                </h1>
+                <p className="text-gray-400" data-testid="text-business-subtitle">
+                  What your evaluations, resets and fees cost against the payouts they earned
+                </p>
+              </div>
+              <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+                <DialogTrigger asChild>
+                  <Button data-testid="button-add-expense">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Expense
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="bg-gray-900 border-gray-800">
+                  <DialogHeader>
+                    <DialogTitle className="text-white">Add Expense</DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleAddExpense} className="space-y-4">
+                    <div>
+                      <Label className="text-gray-300">Account</Label>
+                      <Select value={expenseAccount} onValueChange={setExpenseAccount} required>
+                        <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-expense-account">
+                          <SelectValue placeholder="Select account" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {accounts.map((account) => (
+                            <SelectItem key={account.id} value={account.id}>
+                              {account.nickname || `Account ${account.extAccountId}`} ({getPropFirm(account.propFirm)?.name || account.propFirm})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-gray-300">Type</Label>
+                      <Select value={expenseType} onValueChange={(value) => setExpenseType(value as Expense["type"])}>
+                        <SelectTrigger className="bg-gray-800 border-gray-700" data-testid="select-expense-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(EXPENSE_TYPES).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label className="text-gray-300">Amount</Label>
+                        <Input
+                          name="amount"
+                          type="number"
+                          step="0.01"
+                          placeholder="167.00"
+                          className="bg-gray-800 border-gray-700 text-white"
+                          required
+                          data-testid="input-expense-amount"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-gray-300">Date</Label>
+                        <Input
+                          name="incurredAt"
+                          type="date"
+                          defaultValue={new Date().toISOString().split("T")[0]}
+                          className="bg-gray-800 border-gray-700 text-white"
+                          required
+                          data-testid="input-expense-date"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label className="text-gray-300">Notes</Label>
+                      <Input
+                        name="notes"
+                        placeholder="Optional"
+                        className="bg-gray-800 border-gray-700 text-white"
+                        data-testid="input-expense-notes"
+                      />
+                    </div>
+                    <Button
+                      type="submit"
+                      disabled={addExpenseMutation.isPending || !expenseAccount}
+                      className="w-full"
+                      data-testid="button-submit-expense"
+                    >
+                      {addExpenseMutation.isPending ? "Saving..." : "Add Expense"}
+                    </Button>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+
+            {/* Stats Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+              {stats.map((stat) => {
+                const Icon = stat.icon;
+                return (
+                  <div
+                    key={stat.name}
+                    className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6"
+                    data-testid={stat.testId}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-gray-400 text-sm mb-1">{stat.name}</p>
+                        <p className={`text-2xl font-bold ${stat.change === "positive" ? "text-green-400" : "text-red-400"}`}>
+                          {stat.value}
+                        </p>
+                      </div>
+                      <Icon className={`w-8 h-8 ${stat.change === "positive" ? "text-green-400" : "text-red-400"}`} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {ledger && (
+              <>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+                  {/* Monthly cash flow */}
+                  <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6">
+                    <h3 className="text-lg font-semibold mb-4" data-testid="text-monthly-title">
+                      Monthly Cash Flow
+                    </h3>
+                    <div className="h-64" data-testid="chart-business-monthly">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={ledger.byMonth}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                          <XAxis dataKey="label" stroke="#9CA3AF" />
+                          <YAxis stroke="#9CA3AF" />
+                          <Tooltip
+                            contentStyle={{
+                              backgroundColor: '#1F2937',
+                              border: '1px solid #374151',
+                              borderRadius: '8px'
+                            }}
+                          />
+                          <Legend />
+                          <Bar dataKey="expenses" name="Expenses" fill="#EF4444" />
+                          <Bar dataKey="payouts" name="Payouts" fill="#22C55E" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+
+                  {/* By firm */}
+                  <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6">
+                    <h3 className="text-lg font-semibold mb-4" data-testid="text-by-firm-title">
+                      ROI by Prop Firm
+                    </h3>
+                    {ledger.byFirm.length > 0 ? (
+                      <div className="space-y-3">
+                        {ledger.byFirm.map((firm) => (
+                          <div key={firm.key} className="flex items-center justify-between text-sm" data-testid={`business-firm-${firm.key}`}>
+                            <div className="flex items-center gap-2">
+                              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: getPropFirm(firm.key)?.color || '#6B7280' }} />
+                              <span className="font-medium">{firm.label}</span>
+                            </div>
+                            <div className="flex items-center gap-6">
+                              <span className="text-gray-400">{formatMoney(firm.expenses)} spent</span>
+                              <span className="text-gray-400">{formatMoney(firm.payouts)} paid</span>
+                              <span className={firm.net >= 0 ? "text-green-400" : "text-red-400"}>{formatMoney(firm.net)}</span>
+                              <span className="w-16 text-right">{formatRoi(firm.roiPct)}</span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-400">No expenses or payouts recorded yet.</p>
+                    )}
+                    <div className="grid grid-cols-2 gap-4 mt-6 pt-4 border-t border-white/10 text-sm">
+                      {Object.entries(EXPENSE_TYPES).map(([type, label]) => (
+                        <div key={type} className="flex justify-between">
+                          <span className="text-gray-400">{label}</span>
+                          <span>{formatMoney(ledger.expensesByType[type as Expense["type"]])}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                {/* By account */}
+                <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6 mb-8">
+                  <h3 className="text-lg font-semibold mb-4" data-testid="text-by-account-title">
+                    Accounts
+                  </h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-400 text-left border-b border-white/10">
+                          <th className="py-2 font-medium">Account</th>
+                          <th className="py-2 font-medium">Firm</th>
+                          <th className="py-2 font-medium">Status</th>
+                          <th className="py-2 font-medium text-right">Spent</th>
+                          <th className="py-2 font-medium text-right">Paid Out</th>
+                          <th className="py-2 font-medium text-right">Pending</th>
+                          <th className="py-2 font-medium text-right">Net</th>
+                          <th className="py-2 font-medium text-right">ROI</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ledger.byAccount.map((account) => (
+                          <tr key={account.key} className="border-b border-white/5" data-testid={`business-account-${account.key}`}>
+                            <td className="py-2">{account.label}</td>
+                            <td className="py-2 text-gray-400">{getPropFirm(account.propFirm)?.name || account.propFirm}</td>
+                            <td className="py-2 text-gray-400 capitalize">{account.accountType} · {account.status}</td>
+                            <td className="py-2 text-right">{formatMoney(account.expenses)}</td>
+                            <td className="py-2 text-right">{formatMoney(account.payouts)}</td>
+                            <td className="py-2 text-right text-gray-400">{formatMoney(account.pendingPayouts)}</td>
+                            <td className={`py-2 text-right ${account.net >= 0 ? "text-green-400" : "text-red-400"}`}>{formatMoney(account.net)}</td>
+                            <td className="py-2 text-right">{formatRoi(account.roiPct)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* Expense ledger */}
+            <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6">
+              <h3 className="text-lg font-semibold mb-4" data-testid="text-expenses-title">
+                Expenses
+              </h3>
+              {expenses.length > 0 ? (
+                <div className="space-y-2">
+                  {expenses.map((expense) => {
+                    const account = accountsById.get(expense.tradingAccountId);
+                    return (
+                      <div key={expense.id} className="flex items-center justify-between text-sm" data-testid={`expense-${expense.id}`}>
+                        <span className="text-gray-400 w-28">{expense.incurredAt}</span>
+                        <span className="flex-1">{EXPENSE_TYPES[expense.type]}</span>
+                        <span className="flex-1 text-gray-400">{account?.nickname || `Account ${account?.extAccountId || ''}`}</span>
+                        <span className="w-28 text-right font-medium">{formatMoney(parseFloat(expense.amount))}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="ml-2 hover:bg-white/10"
+                          onClick={() => deleteExpenseMutation.mutate(expense.id)}
+                          data-testid={`button-delete-expense-${expense.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-gray-400" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">No expenses recorded yet.</p>
+              )}
+            </div>
+
+            {isLoading && (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-apple-blue mx-auto"></div>
+                <p className="text-gray-400 mt-4">Loading business ledger...</p>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
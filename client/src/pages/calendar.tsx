@@ -1,4 +1,4 @@
-import { Calendar as CalendarIcon, Clock, TrendingUp, AlertTriangle } from "lucide-react";
+import { Calendar as CalendarIcon, Clock, TrendingUp, AlertTriangle, ShieldX } from "lucide-react";
 import Sidebar from "@/components/sidebar";
 import Header from "@/components/header";
 import { useQuery } from "@tanstack/react-query";
@@ -14,11 +14,40 @@ interface EconomicEvent {
   previous?: string;
 }
 
+interface NewsViolation {
+  id: string;
+  tradingAccountId: string;
+  tradeId: string;
+  eventId: string;
+  tradeDate: string;
+  minutesBefore: number;
+  minutesAfter: number;
+  enforced: boolean;
+}
+
 export default function Calendar() {
+  const month = new Date().toISOString().slice(0, 7);
+  // Day 0 of the next month is this month's last day
+  const [year, monthNumber] = month.split('-').map(Number);
+  const monthEnd = `${month}-${String(new Date(Date.UTC(year, monthNumber, 0)).getUTCDate()).padStart(2, '0')}`;
+
   const { data: events = [], isLoading } = useQuery<EconomicEvent[]>({
-    queryKey: ['/api/econ/events']
+    queryKey: [`/api/economic-events?startDate=${month}`]
+  });
+
+  // Trades held through each event's blackout window, across all accounts
+  const { data: violations = [] } = useQuery<NewsViolation[]>({
+    queryKey: [`/api/news-violations?from=${month}-01&to=${monthEnd}`]
   });
 
+  const violationsByEvent = violations.reduce((acc, violation) => {
+    if (!acc[violation.eventId]) {
+      acc[violation.eventId] = [];
+    }
+    acc[violation.eventId].push(violation);
+    return acc;
+  }, {} as Record<string, NewsViolation[]>);
+
   const getImportanceColor = (importance: string) => {
     switch (importance) {
       case 'high': return 'text-red-400 bg-red-400/10';
@@ -65,6 +94,8 @@ export default function Calendar() {
                 {events.length > 0 ? (
                   events.map((event) => {
                     const ImportanceIcon = getImportanceIcon(event.importance);
+                    const eventViolations = violationsByEvent[event.id] || [];
+                    const enforcedViolations = eventViolations.filter(v => v.enforced).length;
                     return (
                       <div
                         key={event.id}
@@ -105,6 +136,18 @@ export default function Calendar() {
                                   )}
                                 </div>
                               )}
+                              {eventViolations.length > 0 && (
+                                <div
+                                  className={`flex items-center gap-2 mt-3 text-sm ${enforcedViolations > 0 ? 'text-red-400' : 'text-yellow-400'}`}
+                                  data-testid={`text-event-violations-${event.id}`}
+                                >
+                                  <ShieldX className="w-4 h-4" />
+                                  <span>
+                                    {eventViolations.length} trade{eventViolations.length === 1 ? '' : 's'} open from {eventViolations[0].minutesBefore}m before to {eventViolations[0].minutesAfter}m after
+                                    {enforcedViolations > 0 ? ` (${enforcedViolations} against firm rules)` : ' (coaching window)'}
+                                  </span>
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -7,9 +7,13 @@ import Header from "@/components/header";
 import QuickActions from "@/components/quick-actions";
 import PerformanceChart from "@/components/performance-chart";
 import MetricsGrid from "@/components/metrics-grid";
+import ConsistencyCard from "@/components/consistency-card";
 import AiInsights from "@/components/ai-insights";
 import RecentTrades from "@/components/recent-trades";
+import OpenPositions from "@/components/open-positions";
 import PropFirmSwitcher from "@/components/prop-firm-switcher";
+import PayoutPanel from "@/components/payout-panel";
+import CopyGroupPanel from "@/components/copy-group-panel";
 import AIChat from "@/components/ai-chat";
 import type { TradingAccount } from "@shared/schema";
 
@@ -75,19 +79,25 @@ export default function Dashboard() {
                 onAccountChange={setCurrentAccount}
               />
             </div>
-            <MetricsGrid currentAccount={currentAccount} />
+            <div className="grid grid-cols-1 xl:grid-cols-[1fr_320px] gap-4 sm:gap-6">
+              <MetricsGrid currentAccount={currentAccount} />
+              <ConsistencyCard currentAccount={currentAccount} />
+            </div>
             
             {/* Main Content Grid */}
             <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 lg:gap-8">
-              {/* AI Insights & Recent Trades */}
+              {/* AI Insights, Open Positions & Recent Trades */}
               <div className="space-y-6 min-w-0">
                 <AiInsights currentAccount={currentAccount} />
+                <OpenPositions currentAccount={currentAccount} />
                 <RecentTrades currentAccount={currentAccount} />
               </div>
               
-              {/* Performance Chart */}
-              <div className="min-w-0">
+              {/* Performance Chart, Payouts & Copy Trading */}
+              <div className="space-y-6 min-w-0">
                 <PerformanceChart currentAccount={currentAccount} />
+                <PayoutPanel currentAccount={currentAccount} />
+                <CopyGroupPanel currentAccount={currentAccount} />
               </div>
             </div>
 
@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { ClipboardList, Plus, Trash2, Pause, Play, TrendingUp, TrendingDown, CheckSquare } from "lucide-react";
+import Sidebar from "@/components/sidebar";
+import Header from "@/components/header";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Setup } from "@shared/schema";
+
+interface SetupStats {
+  setupId: string;
+  name: string;
+  status: Setup["status"];
+  sampleSize: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  expectancy: number;
+  profitFactor: number | null;
+  averageR: number | null;
+  netPnl: number;
+  review: "promote" | "pause" | null;
+}
+
+function formatMoney(value: number): string {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function splitLines(value: FormDataEntryValue | null): string[] {
+  return String(value || "").split("\n").map(line => line.trim()).filter(line => line.length > 0);
+}
+
+export default function Playbook() {
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: setups = [] } = useQuery<Setup[]>({
+    queryKey: ["/api/setups"],
+  });
+
+  const { data: stats = [], isLoading } = useQuery<SetupStats[]>({
+    queryKey: ["/api/setups/stats"],
+  });
+
+  const invalidateSetups = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/setups"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/setups/stats"] });
+  };
+
+  const addSetupMutation = useMutation({
+    mutationFn: async (data: { name: string; description: string; rules: string[]; examples: string[] }) => {
+      return apiRequest("POST", "/api/setups", data);
+    },
+    onSuccess: () => {
+      invalidateSetups();
+      toast({
+        title: "Setup Added",
+        description: "Tag trades with it to start building its stats.",
+      });
+      setIsAddOpen(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add setup. Names must be unique.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: Setup["status"] }) => {
+      return apiRequest("PATCH", `/api/setups/${id}`, { status });
+    },
+    onSuccess: invalidateSetups,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update setup. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSetupMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/setups/${id}`);
+    },
+    onSuccess: invalidateSetups,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete setup. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddSetup = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    addSetupMutation.mutate({
+      name: formData.get("name") as string,
+      description: formData.get("description") as string,
+      rules: splitLines(formData.get("rules")),
+      examples: splitLines(formData.get("examples")),
+    });
+  };
+
+  const statsById = new Map(stats.map((stat) => [stat.setupId, stat]));
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white">
+      <Sidebar />
+      <div className="ml-20">
+        <Header />
+        <main className="p-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="mb-8 flex items-start justify-between">
+              <div>
+                <h1 className="text-3xl font-bold mb-2" data-testid="text-playbook-title">
+                  Playbook
+                </h1>
+                <p className="text-gray-400" data-testid="text-playbook-subtitle">
+                  Your setups ranked by expectancy, with weekly promote and pause calls
+                </p>
+              </div>
+              <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+                <DialogTrigger asChild>
+                  <Button data-testid="button-add-setup">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Setup
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="bg-gray-900 border-gray-800">
+                  <DialogHeader>
+                    <DialogTitle className="text-white">Add Setup</DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleAddSetup} className="space-y-4">
+                    <div>
+                      <Label className="text-gray-300">Name</Label>
+                      <Input
+                        name="name"
+                        placeholder="e.g., Opening Range Breakout"
+                        className="bg-gray-800 border-gray-700 text-white"
+                        required
+                        data-testid="input-setup-name"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-gray-300">Description</Label>
+                      <Input
+                        name="description"
+                        placeholder="Optional"
+                        className="bg-gray-800 border-gray-700 text-white"
+                        data-testid="input-setup-description"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-gray-300">Rules (one per line)</Label>
+                      <Textarea
+                        name="rules"
+                        placeholder={"First 15-minute range set\nBreak with volume\nStop under range low"}
+                        className="bg-gray-800 border-gray-700 text-white"
+                        data-testid="input-setup-rules"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-gray-300">Example Screenshots (one URL per line)</Label>
+                      <Textarea
+                        name="examples"
+                        placeholder="https://..."
+                        className="bg-gray-800 border-gray-700 text-white"
+                        data-testid="input-setup-examples"
+                      />
+                    </div>
+                    <Button
+                      type="submit"
+                      disabled={addSetupMutation.isPending}
+                      className="w-full"
+                      data-testid="button-submit-setup"
+                    >
+                      {addSetupMutation.isPending ? "Saving..." : "Add Setup"}
+                    </Button>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+
+            {/* Stats table */}
+            <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6 mb-8">
+              <h3 className="text-lg font-semibold mb-4" data-testid="text-setup-stats-title">
+                Setup Performance
+              </h3>
+              {stats.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="pb-2 font-normal">Setup</th>
+                      <th className="pb-2 font-normal text-right">Trades</th>
+                      <th className="pb-2 font-normal text-right">Win %</th>
+                      <th className="pb-2 font-normal text-right">Expectancy</th>
+                      <th className="pb-2 font-normal text-right">Profit Factor</th>
+                      <th className="pb-2 font-normal text-right">Avg R</th>
+                      <th className="pb-2 font-normal text-right">Review</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.map((stat) => (
+                      <tr key={stat.setupId} className={`border-t border-white/5 ${stat.status === "paused" ? "text-gray-500" : ""}`} data-testid={`row-setup-${stat.setupId}`}>
+                        <td className="py-2">
+                          {stat.name}
+                          {stat.status === "paused" && <span className="ml-2 text-xs">(paused)</span>}
+                        </td>
+                        <td className="py-2 text-right">{stat.sampleSize}</td>
+                        <td className="py-2 text-right">{stat.winRate.toFixed(0)}%</td>
+                        <td className={`py-2 text-right ${stat.expectancy >= 0 ? "text-green-400" : "text-red-400"}`}>
+                          {formatMoney(stat.expectancy)}
+                        </td>
+                        <td className="py-2 text-right">{stat.profitFactor === null ? "—" : stat.profitFactor.toFixed(2)}</td>
+                        <td className="py-2 text-right">{stat.averageR === null ? "—" : `${stat.averageR.toFixed(2)}R`}</td>
+                        <td className="py-2 text-right">
+                          {stat.review === "promote" && (
+                            <span className="inline-flex items-center gap-1 text-green-400" data-testid={`review-promote-${stat.setupId}`}>
+                              <TrendingUp className="w-4 h-4" /> Promote
+                            </span>
+                          )}
+                          {stat.review === "pause" && (
+                            <button
+                              onClick={() => updateStatusMutation.mutate({ id: stat.setupId, status: "paused" })}
+                              className="inline-flex items-center gap-1 text-red-400 hover:text-red-300"
+                              data-testid={`review-pause-${stat.setupId}`}
+                            >
+                              <TrendingDown className="w-4 h-4" /> Pause
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-400" data-testid="text-no-setups">
+                  {isLoading ? "Loading..." : "Add your first setup, then tag trades with it from Add Trade."}
+                </p>
+              )}
+            </div>
+
+            {/* Setup cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {setups.map((setup) => {
+                const rules = asList(setup.rules);
+                const examples = asList(setup.examples);
+                const stat = statsById.get(setup.id);
+                return (
+                  <div
+                    key={setup.id}
+                    className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6"
+                    data-testid={`card-setup-${setup.id}`}
+                  >
+                    <div className="flex items-start justify-between mb-2">
+                      <div className="flex items-center gap-2">
+                        <ClipboardList className="w-5 h-5 text-gray-400" />
+                        <h4 className="font-semibold">{setup.name}</h4>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => updateStatusMutation.mutate({ id: setup.id, status: setup.status === "paused" ? "active" : "paused" })}
+                          className="p-1 text-gray-400 hover:text-white"
+                          title={setup.status === "paused" ? "Resume" : "Pause"}
+                          data-testid={`button-toggle-setup-${setup.id}`}
+                        >
+                          {setup.status === "paused" ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => deleteSetupMutation.mutate(setup.id)}
+                          className="p-1 text-gray-400 hover:text-red-400"
+                          data-testid={`button-delete-setup-${setup.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    {setup.description && (
+                      <p className="text-sm text-gray-400 mb-3">{setup.description}</p>
+                    )}
+                    {rules.length > 0 && (
+                      <ul className="space-y-1 mb-3">
+                        {rules.map((rule, index) => (
+                          <li key={index} className="flex items-start gap-2 text-sm">
+                            <CheckSquare className="w-4 h-4 text-gray-500 mt-0.5 flex-shrink-0" />
+                            <span>{rule}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {examples.length > 0 && (
+                      <div className="flex gap-2 overflow-x-auto mb-3">
+                        {examples.map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt={`${setup.name} example`} className="h-16 rounded border border-white/10" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {stat && (
+                      <div className="text-xs text-gray-400">
+                        {stat.sampleSize} trades · {formatMoney(stat.netPnl)} net
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { ImportCsvModal } from "@/components/import-csv-modal";
+import FeeSchedulePanel from "@/components/fee-schedule-panel";
+import ImportHistory from "@/components/import-history";
+import ReconciliationQueue from "@/components/reconciliation-queue";
 import { useLocation } from "wouter";
 
 interface UserSettings {
@@ -308,6 +311,8 @@ export default function Settings() {
                 </div>
               </div>
 
+              <FeeSchedulePanel />
+
               {/* Preferences */}
               <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6">
                 <div className="flex items-center mb-4">
@@ -430,6 +435,10 @@ export default function Settings() {
                 </div>
               </div>
 
+              <ImportHistory />
+
+              <ReconciliationQueue />
+
               {/* Auto-Import Status */}
               {ingestConfig?.forwardingAddress && (
                 <div className="bg-gray-900/50 backdrop-blur-xl rounded-xl border border-white/10 p-6">
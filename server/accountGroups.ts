@@ -0,0 +1,191 @@
+import type { AccountGroup, AccountGroupMember, Trade } from "@shared/schema";
+
+export type DivergenceType = 'missing_fill' | 'extra_fill' | 'qty_mismatch' | 'price_mismatch';
+
+export interface Divergence {
+  type: DivergenceType;
+  followerAccountId: string;
+  leaderTradeId: string | null;
+  followerTradeId: string | null;
+  symbol: string;
+  time: string;
+  expected: number | null;
+  actual: number | null;
+  message: string;
+}
+
+export interface GroupAccountSummary {
+  accountId: string;
+  role: 'leader' | 'follower';
+  trades: number;
+  netPnl: number;
+  // Follower P&L minus the leader's P&L scaled by the follower's multiplier
+  trackingDifference: number | null;
+  divergences: number;
+}
+
+export interface GroupAnalytics {
+  groupId: string;
+  totalTrades: number;
+  netPnl: number;
+  accounts: GroupAccountSummary[];
+  divergences: Divergence[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function tradeNetPnl(trade: Trade): number {
+  return parseFloat(trade.pnl || '0') - parseFloat(trade.fees || '0');
+}
+
+function entryMs(trade: Trade): number {
+  return new Date(trade.entryTime).getTime();
+}
+
+// Pair each leader trade with the closest-in-time follower trade on the same instrument and side.
+// Instruments compare by contract root, since sources spell the same contract differently (MNQZ4, MNQ1!).
+// Anything left unpaired on either side is a copier failure.
+export function detectDivergences(
+  group: AccountGroup,
+  member: AccountGroupMember,
+  leaderTrades: Trade[],
+  followerTrades: Trade[]
+): Divergence[] {
+  const priceTolerance = parseFloat(group.priceTolerance || '0.5');
+  const timeToleranceMs = (group.timeToleranceSec ?? 60) * 1000;
+  const multiplier = parseFloat(member.qtyMultiplier || '1');
+  const unmatched = new Set(followerTrades.map(t => t.id));
+  const divergences: Divergence[] = [];
+
+  const sortedLeader = [...leaderTrades].sort((a, b) => entryMs(a) - entryMs(b));
+  for (const leaderTrade of sortedLeader) {
+    const candidates = followerTrades.filter(t =>
+      unmatched.has(t.id) &&
+      (t.root || t.symbol) === (leaderTrade.root || leaderTrade.symbol) &&
+      t.side === leaderTrade.side &&
+      Math.abs(entryMs(t) - entryMs(leaderTrade)) <= timeToleranceMs
+    );
+    const match = candidates.sort((a, b) =>
+      Math.abs(entryMs(a) - entryMs(leaderTrade)) - Math.abs(entryMs(b) - entryMs(leaderTrade))
+    )[0];
+    const time = new Date(leaderTrade.entryTime).toISOString();
+
+    if (!match) {
+      divergences.push({
+        type: 'missing_fill',
+        followerAccountId: member.tradingAccountId,
+        leaderTradeId: leaderTrade.id,
+        followerTradeId: null,
+        symbol: leaderTrade.symbol,
+        time,
+        expected: round2(parseFloat(leaderTrade.qty) * multiplier),
+        actual: 0,
+        message: `No ${leaderTrade.side} ${leaderTrade.symbol} fill within ${group.timeToleranceSec ?? 60}s of the leader`,
+      });
+      continue;
+    }
+    unmatched.delete(match.id);
+
+    const expectedQty = parseFloat(leaderTrade.qty) * multiplier;
+    const actualQty = parseFloat(match.qty);
+    if (Math.abs(actualQty - expectedQty) > 1e-9) {
+      divergences.push({
+        type: 'qty_mismatch',
+        followerAccountId: member.tradingAccountId,
+        leaderTradeId: leaderTrade.id,
+        followerTradeId: match.id,
+        symbol: leaderTrade.symbol,
+        time,
+        expected: round2(expectedQty),
+        actual: actualQty,
+        message: `Filled ${actualQty} contracts, expected ${round2(expectedQty)}`,
+      });
+    }
+
+    const prices: Array<[string, string | null, string | null]> = [
+      ['entry', leaderTrade.entryPrice, match.entryPrice],
+      ['exit', leaderTrade.exitPrice, match.exitPrice],
+    ];
+    for (const [leg, leaderPrice, followerPrice] of prices) {
+      if (leaderPrice === null || followerPrice === null) continue;
+      const expected = parseFloat(leaderPrice);
+      const actual = parseFloat(followerPrice);
+      if (Math.abs(actual - expected) > priceTolerance) {
+        divergences.push({
+          type: 'price_mismatch',
+          followerAccountId: member.tradingAccountId,
+          leaderTradeId: leaderTrade.id,
+          followerTradeId: match.id,
+          symbol: leaderTrade.symbol,
+          time,
+          expected,
+          actual,
+          message: `${leg === 'entry' ? 'Entry' : 'Exit'} at ${actual}, leader at ${expected} (tolerance ${priceTolerance})`,
+        });
+      }
+    }
+  }
+
+  for (const trade of followerTrades) {
+    if (!unmatched.has(trade.id)) continue;
+    divergences.push({
+      type: 'extra_fill',
+      followerAccountId: member.tradingAccountId,
+      leaderTradeId: null,
+      followerTradeId: trade.id,
+      symbol: trade.symbol,
+      time: new Date(trade.entryTime).toISOString(),
+      expected: 0,
+      actual: parseFloat(trade.qty),
+      message: `${trade.side} ${trade.symbol} fill has no matching leader trade`,
+    });
+  }
+
+  return divergences.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+export function computeGroupAnalytics(
+  group: AccountGroup,
+  members: AccountGroupMember[],
+  tradesByAccount: Map<string, Trade[]>
+): GroupAnalytics {
+  const leaderTrades = tradesByAccount.get(group.leaderAccountId) || [];
+  const leaderPnl = leaderTrades.reduce((sum, t) => sum + tradeNetPnl(t), 0);
+
+  const accounts: GroupAccountSummary[] = [{
+    accountId: group.leaderAccountId,
+    role: 'leader',
+    trades: leaderTrades.length,
+    netPnl: round2(leaderPnl),
+    trackingDifference: null,
+    divergences: 0,
+  }];
+  const divergences: Divergence[] = [];
+
+  for (const member of members) {
+    if (member.tradingAccountId === group.leaderAccountId) continue;
+    const followerTrades = tradesByAccount.get(member.tradingAccountId) || [];
+    const followerPnl = followerTrades.reduce((sum, t) => sum + tradeNetPnl(t), 0);
+    const memberDivergences = detectDivergences(group, member, leaderTrades, followerTrades);
+
+    accounts.push({
+      accountId: member.tradingAccountId,
+      role: 'follower',
+      trades: followerTrades.length,
+      netPnl: round2(followerPnl),
+      trackingDifference: round2(followerPnl - leaderPnl * parseFloat(member.qtyMultiplier || '1')),
+      divergences: memberDivergences.length,
+    });
+    divergences.push(...memberDivergences);
+  }
+
+  return {
+    groupId: group.id,
+    totalTrades: accounts.reduce((sum, a) => sum + a.trades, 0),
+    netPnl: round2(accounts.reduce((sum, a) => sum + a.netPnl, 0)),
+    accounts,
+    divergences: divergences.sort((a, b) => a.time.localeCompare(b.time)),
+  };
+}
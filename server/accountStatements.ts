@@ -0,0 +1,262 @@
+import { z } from "zod";
+import { db } from "./db";
+import { storage } from "./storage";
+import { dailyMetrics, importBatches, type DailyMetrics, type ImportBatch, type TradingAccount } from "@shared/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { parseStats } from "./dailyMetrics";
+import { updateEvaluationStatus } from "./evaluationTracker";
+import { parseAmount } from "./csvParsers/values";
+import type { CsvRow, ImportFile, ImportHooks, ImportProgress, ImportResult, RollbackResult } from "./csvImport";
+
+// Daily account statements: one row per day with the broker's own balances. They are kept
+// in daily_metrics.stats.statement next to the trade-derived numbers, which they do not replace.
+
+// Which column holds each figure; only the date and ending balance are required
+export const statementMappingSchema = z.object({
+  date: z.string().min(1),
+  startBalance: z.string().optional(),
+  endBalance: z.string().min(1),
+  realizedPnl: z.string().optional(),
+  fees: z.string().optional(),
+  threshold: z.string().optional(),
+});
+
+export type StatementMapping = z.infer<typeof statementMappingSchema>;
+
+export interface StatementDay {
+  date: string;
+  startBalance: number | null;
+  endBalance: number;
+  realizedPnl: number | null;
+  fees: number | null;
+  // Drawdown (liquidation) threshold the firm reported for the day
+  threshold: number | null;
+}
+
+// What daily_metrics.stats.statement holds
+export interface DailyStatement extends Omit<StatementDay, 'date'> {
+  batchId: string;
+  importedAt: string;
+}
+
+export interface BalancePoint {
+  date: string;
+  startBalance: number;
+  endBalance: number;
+  threshold: number | null;
+  // 'statement' when the broker reported the balance, 'trades' when it is worked out from P&L
+  source: 'statement' | 'trades';
+}
+
+// Rows between progress updates
+const PROGRESS_EVERY = 500;
+const MAX_STORED_ERRORS = 1000;
+
+// Column names firms and brokers use, tried in order; matched ignoring case and padding
+const STATEMENT_HEADERS: Record<keyof StatementMapping, string[]> = {
+  date: ['date', 'trade date', 'statement date', 'trading day', 'day'],
+  startBalance: ['start balance', 'starting balance', 'beginning balance', 'opening balance', 'start of day balance', 'sod balance'],
+  endBalance: ['end balance', 'ending balance', 'closing balance', 'end of day balance', 'eod balance', 'balance', 'account balance'],
+  realizedPnl: ['realized p&l', 'realized pnl', 'realized profit', 'net p&l', 'net pnl', 'p&l', 'pnl'],
+  fees: ['fees', 'commissions', 'commission', 'total fees'],
+  threshold: ['drawdown threshold', 'trailing threshold', 'liquidation threshold', 'auto liquidate threshold', 'trailing drawdown', 'max drawdown level'],
+};
+
+export function detectStatementMapping(headers: string[]): StatementMapping | null {
+  const byName = new Map(headers.map(header => [header.trim().toLowerCase(), header]));
+  const guess = Object.fromEntries(
+    Object.entries(STATEMENT_HEADERS)
+      .map(([field, names]) => [field, names.map(name => byName.get(name)).find(Boolean)])
+      .filter(([, header]) => header)
+  ) as Partial<StatementMapping>;
+  return guess.date && guess.endBalance ? guess as StatementMapping : null;
+}
+
+// YYYY-MM-DD as written, anything else through Date in the server's time zone
+function parseStatementDate(value: string): string {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+
+  const date = new Date(trimmed);
+  if (isNaN(date.getTime())) throw new Error(`unreadable date "${value}"`);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function parseStatementRow(row: CsvRow, mapping: StatementMapping): StatementDay {
+  const value = (column?: string) => column ? parseAmount(row[column] ?? '') ?? null : null;
+  const dateValue = row[mapping.date];
+  if (!dateValue?.trim()) throw new Error('missing date');
+
+  const endBalance = value(mapping.endBalance);
+  if (endBalance === null) throw new Error('missing ending balance');
+
+  return {
+    date: parseStatementDate(dateValue),
+    startBalance: value(mapping.startBalance),
+    endBalance,
+    realizedPnl: value(mapping.realizedPnl),
+    // Statements show fees as negative amounts as often as positive ones
+    fees: value(mapping.fees) !== null ? Math.abs(value(mapping.fees)!) : null,
+    threshold: value(mapping.threshold),
+  };
+}
+
+async function getAccountDays(accountId: string, dates: string[]): Promise<DailyMetrics[]> {
+  if (dates.length === 0) return [];
+  return db
+    .select()
+    .from(dailyMetrics)
+    .where(and(eq(dailyMetrics.tradingAccountId, accountId), inArray(dailyMetrics.tradeDate, dates)));
+}
+
+// Records an import batch of kind 'statement'. A later row for the same date wins, and the
+// account balance follows the latest day in the file.
+export async function importAccountStatement(
+  userId: string,
+  accountId: string,
+  rows: AsyncIterable<CsvRow> | Iterable<CsvRow>,
+  mapping: StatementMapping,
+  file: ImportFile = {},
+  hooks: ImportHooks = {}
+): Promise<ImportResult> {
+  const [batch] = await db.insert(importBatches).values({
+    userId,
+    tradingAccountId: accountId,
+    source: 'statement',
+    kind: 'statement',
+    filename: file.filename ?? null,
+    fileHash: file.fileHash ?? null,
+    mapping,
+  }).returning();
+
+  const result: ImportResult = { batchId: batch.id, inserted: 0, updated: 0, daysTouched: [], errors: [] };
+  const progress: ImportProgress = { processed: 0, inserted: 0, updated: 0, errors: 0 };
+  const days = new Map<string, StatementDay>();
+
+  let rowNumber = 0;
+  for await (const row of rows) {
+    rowNumber++;
+    try {
+      const day = parseStatementRow(row, mapping);
+      days.set(day.date, day);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      progress.errors++;
+      if (result.errors.length < MAX_STORED_ERRORS) result.errors.push(`Row ${rowNumber}: ${message}`);
+      hooks.onRowError?.(rowNumber, message);
+    }
+    progress.processed = rowNumber;
+    if (rowNumber % PROGRESS_EVERY === 0) hooks.onProgress?.({ ...progress });
+  }
+
+  const dates = Array.from(days.keys()).sort();
+  const existing = new Map((await getAccountDays(accountId, dates)).map(day => [day.tradeDate, day]));
+  const importedAt = new Date().toISOString();
+
+  for (const { date, ...values } of dates.map(date => days.get(date)!)) {
+    const statement: DailyStatement = { ...values, batchId: batch.id, importedAt };
+    const day = existing.get(date);
+    if (day) {
+      await db
+        .update(dailyMetrics)
+        .set({ stats: { ...parseStats(day.stats), statement } })
+        .where(eq(dailyMetrics.id, day.id));
+      progress.updated++;
+    } else {
+      // A day without trades; P&L stays trade-derived, the statement carries the broker's numbers
+      await db.insert(dailyMetrics).values({
+        userId,
+        tradingAccountId: accountId,
+        tradeDate: date,
+        grossPnl: '0',
+        netPnl: '0',
+        stats: { tradeCount: 0, statement },
+      });
+      progress.inserted++;
+    }
+  }
+  hooks.onProgress?.({ ...progress });
+
+  if (dates.length > 0) {
+    const latest = days.get(dates[dates.length - 1])!;
+    await storage.updateTradingAccount(accountId, { balance: latest.endBalance.toString() });
+  }
+
+  result.inserted = progress.inserted;
+  result.updated = progress.updated;
+  result.daysTouched = dates;
+  await db.update(importBatches).set({
+    rowCount: rowNumber,
+    inserted: result.inserted,
+    updated: result.updated,
+    errorCount: progress.errors,
+    errors: result.errors,
+    daysTouched: result.daysTouched,
+  }).where(eq(importBatches.id, batch.id));
+
+  await updateEvaluationStatus(accountId, 'csv');
+  return result;
+}
+
+// Drops the statement figures this batch wrote; days a later statement import overwrote are skipped
+export async function rollbackStatementBatch(batch: ImportBatch): Promise<RollbackResult> {
+  const dates = (batch.daysTouched as string[] | null) || [];
+  const result: RollbackResult = { deleted: 0, restored: 0, skipped: 0, daysTouched: [] };
+
+  for (const day of await getAccountDays(batch.tradingAccountId, dates)) {
+    const { statement, ...stats } = parseStats(day.stats);
+    if (statement?.batchId !== batch.id) {
+      result.skipped++;
+      continue;
+    }
+    await db.update(dailyMetrics).set({ stats }).where(eq(dailyMetrics.id, day.id));
+    result.deleted++;
+    result.daysTouched.push(day.tradeDate);
+  }
+
+  // The import set the account balance from this file; take it from what is left instead
+  const account = result.deleted > 0 ? await storage.getTradingAccount(batch.tradingAccountId) : undefined;
+  if (account) {
+    const history = await getBalanceHistory(account);
+    const balance = history.length > 0 ? history[history.length - 1].endBalance : parseFloat(account.accountSize || '50000');
+    await storage.updateTradingAccount(account.id, { balance: balance.toString() });
+  }
+
+  await db.update(importBatches).set({ rolledBackAt: new Date() }).where(eq(importBatches.id, batch.id));
+  return result;
+}
+
+// Day-by-day balance: the statement's figures where there is one, otherwise the previous
+// balance plus the day's net P&L. A statement resets the running balance to what the broker says.
+export async function getBalanceHistory(account: TradingAccount): Promise<BalancePoint[]> {
+  const accountDays = await db
+    .select()
+    .from(dailyMetrics)
+    .where(eq(dailyMetrics.tradingAccountId, account.id))
+    .orderBy(dailyMetrics.tradeDate);
+
+  let balance = parseFloat(account.accountSize || '50000');
+  return accountDays.map(day => {
+    const stats = parseStats(day.stats);
+    const statement = stats.statement as DailyStatement | undefined;
+    const threshold = statement?.threshold ?? stats.drawdown?.threshold ?? null;
+
+    if (statement) {
+      const point: BalancePoint = {
+        date: day.tradeDate,
+        startBalance: statement.startBalance ?? balance,
+        endBalance: statement.endBalance,
+        threshold,
+        source: 'statement',
+      };
+      balance = statement.endBalance;
+      return point;
+    }
+
+    const startBalance = balance;
+    balance = Math.round((balance + parseFloat(day.netPnl)) * 100) / 100;
+    return { date: day.tradeDate, startBalance, endBalance: balance, threshold, source: 'trades' };
+  });
+}
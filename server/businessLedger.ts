@@ -0,0 +1,136 @@
+import type { TradingAccount, Payout, Expense } from "@shared/schema";
+import { getPropFirm } from "@shared/propFirmRegistry";
+
+export interface LedgerLine {
+  key: string;
+  label: string;
+  expenses: number;
+  payouts: number;
+  net: number;
+  // Net return on money spent; null while nothing has been spent
+  roiPct: number | null;
+}
+
+export interface AccountLedgerLine extends LedgerLine {
+  propFirm: string;
+  accountType: string;
+  status: string;
+  pendingPayouts: number;
+}
+
+export interface BusinessLedger {
+  totals: LedgerLine & { pendingPayouts: number };
+  expensesByType: Record<Expense['type'], number>;
+  byFirm: LedgerLine[];
+  byAccount: AccountLedgerLine[];
+  byMonth: LedgerLine[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyLine(key: string, label: string): LedgerLine {
+  return { key, label, expenses: 0, payouts: 0, net: 0, roiPct: null };
+}
+
+function finalizeLine<T extends LedgerLine>(line: T): T {
+  const net = line.payouts - line.expenses;
+  return {
+    ...line,
+    expenses: round2(line.expenses),
+    payouts: round2(line.payouts),
+    net: round2(net),
+    roiPct: line.expenses > 0 ? round2((net / line.expenses) * 100) : null,
+  };
+}
+
+// Only paid payouts count as income; they land in the month they were paid out
+function payoutMonth(payout: Payout): string {
+  return (payout.paidAt || payout.requestedAt).slice(0, 7);
+}
+
+export function computeBusinessLedger(
+  accounts: TradingAccount[],
+  accountExpenses: Expense[],
+  accountPayouts: Payout[]
+): BusinessLedger {
+  const accountsById = new Map(accounts.map(account => [account.id, account]));
+  const byFirm = new Map<string, LedgerLine>();
+  const byAccount = new Map<string, AccountLedgerLine>();
+  const byMonth = new Map<string, LedgerLine>();
+  const expensesByType: BusinessLedger['expensesByType'] = {
+    eval_purchase: 0,
+    reset: 0,
+    activation_fee: 0,
+    data_fee: 0,
+  };
+  let pendingPayouts = 0;
+
+  const accountLine = (accountId: string): AccountLedgerLine => {
+    if (!byAccount.has(accountId)) {
+      const account = accountsById.get(accountId);
+      byAccount.set(accountId, {
+        ...emptyLine(accountId, account?.nickname || `Account ${account?.extAccountId || accountId}`),
+        propFirm: account?.propFirm || 'unknown',
+        accountType: account?.accountType || 'eval',
+        status: account?.status || 'active',
+        pendingPayouts: 0,
+      });
+    }
+    return byAccount.get(accountId)!;
+  };
+
+  // Every ledger entry rolls up into its account, the account's firm and its month
+  const linesFor = (accountId: string, month: string): LedgerLine[] => {
+    const line = accountLine(accountId);
+    if (!byFirm.has(line.propFirm)) {
+      byFirm.set(line.propFirm, emptyLine(line.propFirm, getPropFirm(line.propFirm)?.name || line.propFirm));
+    }
+    if (!byMonth.has(month)) {
+      byMonth.set(month, emptyLine(month, month));
+    }
+    return [line, byFirm.get(line.propFirm)!, byMonth.get(month)!];
+  };
+
+  for (const expense of accountExpenses) {
+    const amount = parseFloat(expense.amount);
+    expensesByType[expense.type] += amount;
+    for (const line of linesFor(expense.tradingAccountId, expense.incurredAt.slice(0, 7))) {
+      line.expenses += amount;
+    }
+  }
+
+  for (const payout of accountPayouts) {
+    const amount = parseFloat(payout.amount);
+    if (payout.status === 'requested') {
+      pendingPayouts += amount;
+      accountLine(payout.tradingAccountId).pendingPayouts += amount;
+    } else if (payout.status === 'paid') {
+      for (const line of linesFor(payout.tradingAccountId, payoutMonth(payout))) {
+        line.payouts += amount;
+      }
+    }
+  }
+
+  const totals = finalizeLine({
+    ...emptyLine('total', 'Total'),
+    expenses: Array.from(byFirm.values()).reduce((sum, line) => sum + line.expenses, 0),
+    payouts: Array.from(byFirm.values()).reduce((sum, line) => sum + line.payouts, 0),
+  });
+
+  return {
+    totals: { ...totals, pendingPayouts: round2(pendingPayouts) },
+    expensesByType: {
+      eval_purchase: round2(expensesByType.eval_purchase),
+      reset: round2(expensesByType.reset),
+      activation_fee: round2(expensesByType.activation_fee),
+      data_fee: round2(expensesByType.data_fee),
+    },
+    byFirm: Array.from(byFirm.values()).map(finalizeLine).sort((a, b) => b.net - a.net),
+    byAccount: Array.from(byAccount.values())
+      .map(line => finalizeLine({ ...line, pendingPayouts: round2(line.pendingPayouts) }))
+      .sort((a, b) => b.net - a.net),
+    byMonth: Array.from(byMonth.values()).map(finalizeLine).sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
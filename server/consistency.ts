@@ -0,0 +1,61 @@
+import type { DailyMetrics } from "@shared/schema";
+
+// Threshold used when the account's firm has no consistency rule of its own
+export const DEFAULT_CONSISTENCY_PCT = 40;
+
+export interface ConsistencyReport {
+  thresholdPct: number;
+  totalProfit: number;
+  largestDay: { date: string; pnl: number } | null;
+  largestDayPct: number;
+  withinRule: boolean;
+  // Extra profit needed, without a new record day, to bring the largest day back under the threshold
+  profitNeeded: number;
+  today: string;
+  todayPnl: number;
+  // Most today's total can reach without becoming an over-threshold largest day
+  maxAllowedToday: number;
+  remainingToday: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function computeConsistency(
+  accountDays: DailyMetrics[],
+  thresholdPct: number,
+  today: string = new Date().toISOString().split('T')[0]
+): ConsistencyReport {
+  const threshold = thresholdPct / 100;
+  const days = accountDays.map(day => ({ date: day.tradeDate, pnl: parseFloat(day.netPnl) }));
+
+  const totalProfit = days.reduce((sum, day) => sum + day.pnl, 0);
+  const largestDay = days.reduce<{ date: string; pnl: number } | null>((best, day) =>
+    day.pnl > 0 && (!best || day.pnl > best.pnl) ? day : best, null);
+  const largestDayPct = largestDay && totalProfit > 0 ? (largestDay.pnl / totalProfit) * 100 : 0;
+  const withinRule = !largestDay || (totalProfit > 0 && largestDayPct <= thresholdPct);
+  const profitNeeded = largestDay ? Math.max(0, largestDay.pnl / threshold - totalProfit) : 0;
+
+  // Projection for today: prior days are fixed, today's total is the free variable x.
+  // If x becomes the largest day the rule needs x <= threshold * (prior + x),
+  // i.e. x <= threshold * prior / (1 - threshold). Up to the prior best day is always safe.
+  const todayPnl = days.filter(day => day.date === today).reduce((sum, day) => sum + day.pnl, 0);
+  const priorDays = days.filter(day => day.date !== today);
+  const priorProfit = priorDays.reduce((sum, day) => sum + day.pnl, 0);
+  const priorBest = priorDays.reduce((best, day) => Math.max(best, day.pnl), 0);
+  const maxAllowedToday = Math.max(priorBest, (threshold * priorProfit) / (1 - threshold), 0);
+
+  return {
+    thresholdPct,
+    totalProfit: round2(totalProfit),
+    largestDay: largestDay ? { date: largestDay.date, pnl: round2(largestDay.pnl) } : null,
+    largestDayPct: round2(largestDayPct),
+    withinRule,
+    profitNeeded: round2(profitNeeded),
+    today,
+    todayPnl: round2(todayPnl),
+    maxAllowedToday: round2(maxAllowedToday),
+    remainingToday: round2(Math.max(0, maxAllowedToday - todayPnl)),
+  };
+}
@@ -1,10 +1,23 @@
 import { z } from "zod";
 import csv from "csv-parser";
-import { Readable } from "stream";
+import { createReadStream } from "node:fs";
 import { createHash } from "node:crypto";
 import { db } from "./db";
-import { trades, dailyMetrics, csvMappingProfiles } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { trades, csvMappingProfiles, importBatches, importRows, journalEntries, tradeSetups, tradeRevisions, type ImportBatch, type Trade, type InsertTrade, type Execution, type TradeRevision } from "@shared/schema";
+import { eq, and, gt, gte, asc, desc, inArray, sql } from "drizzle-orm";
+import { recalculateDailyMetrics } from "./dailyMetrics";
+import { updateEvaluationStatus } from "./evaluationTracker";
+import { reconcileDays, type ReconciledFrom } from "./reconciliation";
+import { contractRoot } from "@shared/contractRegistry";
+import { assetClassOf } from "@shared/instrumentRegistry";
+import { computeTradePnl } from "@shared/tradePnl";
+import { loadFeeScheduler, withScheduledFees, type FeeScheduler } from "./feeSchedules";
+import { tradeDate } from "./tradeEdits";
+import { buildRoundTrips, type RoundTrip } from "./roundTrips";
+import { getCsvParser, type CsvParser, type TradeCsvParser, type ParsedFill } from "./csvParsers";
+import { normalizeSymbol } from "./csvParsers/values";
+
+export { detectCsvFormat, type FormatCandidate, type FormatDetection } from "./csvParsers/detect";
 
 // CSV parsing interfaces
 export interface CsvRow {
@@ -13,15 +26,25 @@ export interface CsvRow {
 
 export interface ParsedTrade {
   symbol: string;
+  // The symbol as the file wrote it, uppercased. Row hashes use it, so files imported
+  // before symbols were normalized (MNQ 12-24 -> MNQZ4) still match their old rows.
+  rawSymbol?: string;
   side: 'long' | 'short';
   qty: number;
   entryPrice: number;
   exitPrice?: number;
   entryTime: Date;
   exitTime?: Date;
-  fees: number;
+  fees?: number;
   pnl?: number;
+  stopPrice?: number;
+  targetPrice?: number;
+  plannedRisk?: number;
   brokerExecutionId?: string;
+  // USD per unit of the quote currency, for forex crosses and coins not quoted in dollars
+  quoteToUsd?: number;
+  // Whether the fill added or took liquidity; fee schedules charge the taker rate without it
+  liquidity?: 'maker' | 'taker';
 }
 
 export interface MappingSpec {
@@ -34,92 +57,64 @@ export interface MappingSpec {
   exitTime?: string;
   fees?: string;
   pnl?: string;
+  stopPrice?: string;
+  targetPrice?: string;
+  plannedRisk?: string;
   brokerExecutionId?: string;
+  quoteToUsd?: string;
+  liquidity?: string;
 }
 
 export interface ImportResult {
+  batchId: string;
   inserted: number;
   updated: number;
   daysTouched: string[];
   errors: string[];
 }
 
-// Auto-detection patterns for different prop firms
-const APEX_PATTERNS = {
-  headers: ['Entry Time', 'Exit Time', 'Contract', 'P/L', 'Commissions', 'Side'],
-  mappings: {
-    symbol: 'Contract',
-    side: 'Side',
-    qty: 'Qty',
-    entryPrice: 'Entry Price',
-    exitPrice: 'Exit Price',
-    entryTime: 'Entry Time',
-    exitTime: 'Exit Time',
-    fees: 'Commissions',
-    pnl: 'P/L'
-  }
-};
+// Where the rows came from, recorded on the import batch
+export interface ImportFile {
+  filename?: string | null;
+  fileHash?: string | null;
+  reimportOf?: string | null;
+  // Instrument for exports without a symbol column (TradingView strategy reports)
+  symbol?: string | null;
+}
 
-const TOPSTEP_PATTERNS = {
-  headers: ['Instrument', 'Quantity', 'Buy/Sell', 'PnL', 'Fees'],
-  mappings: {
-    symbol: 'Instrument',
-    side: 'Buy/Sell',
-    qty: 'Quantity',
-    entryPrice: 'Entry Price',
-    exitPrice: 'Exit Price',
-    entryTime: 'Time',
-    exitTime: 'Exit Time',
-    fees: 'Fees',
-    pnl: 'PnL'
-  }
-};
+export interface ImportProgress {
+  processed: number;
+  inserted: number;
+  updated: number;
+  errors: number;
+}
 
-const TPT_PATTERNS = {
-  headers: ['Symbol', 'Side', 'Filled Qty', 'Avg Price', 'Realized PnL'],
-  mappings: {
-    symbol: 'Symbol',
-    side: 'Side',
-    qty: 'Filled Qty',
-    entryPrice: 'Avg Price',
-    exitPrice: 'Exit Price',
-    entryTime: 'Time',
-    exitTime: 'Exit Time',
-    fees: 'Fees',
-    pnl: 'Realized PnL'
-  }
-};
+// Called after every chunk and for every row that could not be imported
+export interface ImportHooks {
+  onProgress?: (progress: ImportProgress) => void;
+  onRowError?: (rowNumber: number, message: string) => void;
+}
 
-export function detectCsvFormat(headers: string[]): { source: string; mapping: MappingSpec } | null {
-  const headerSet = new Set(headers.map(h => h.toLowerCase()));
-  
-  // Check for Apex patterns
-  const apexMatches = APEX_PATTERNS.headers.filter(h => 
-    headerSet.has(h.toLowerCase())
-  ).length;
-  if (apexMatches >= 4) {
-    return { source: 'apex', mapping: APEX_PATTERNS.mappings as MappingSpec };
-  }
-  
-  // Check for TopStep patterns
-  const topstepMatches = TOPSTEP_PATTERNS.headers.filter(h => 
-    headerSet.has(h.toLowerCase())
-  ).length;
-  if (topstepMatches >= 4) {
-    return { source: 'topstep', mapping: TOPSTEP_PATTERNS.mappings as MappingSpec };
-  }
-  
-  // Check for TPT patterns
-  const tptMatches = TPT_PATTERNS.headers.filter(h => 
-    headerSet.has(h.toLowerCase())
-  ).length;
-  if (tptMatches >= 4) {
-    return { source: 'tpt', mapping: TPT_PATTERNS.mappings as MappingSpec };
-  }
-  
-  return null;
+export interface CsvPreview {
+  headers: string[];
+  previewRows: CsvRow[];
+  totalRows: number;
 }
 
+export interface RollbackResult {
+  deleted: number;
+  restored: number;
+  // Rows a later import has overwritten since; undoing this batch would clobber them
+  skipped: number;
+  daysTouched: string[];
+}
+
+// Rows per upsert statement
+const IMPORT_CHUNK_SIZE = 500;
+const PREVIEW_ROWS = 100;
+// The batch keeps the first errors; a broken mapping would otherwise store one per row
+const MAX_STORED_ERRORS = 1000;
+
 export function normalizeValue(value: string, type: 'number' | 'date' | 'side' | 'symbol'): any {
   if (!value || value.trim() === '') return null;
   
@@ -145,14 +140,21 @@ export function normalizeValue(value: string, type: 'number' | 'date' | 'side' |
       return lower === 'long' || lower === 'short' ? lower : 'long';
       
     case 'symbol':
-      // Keep raw symbol for now, could normalize futures contracts later
-      return value.toUpperCase();
+      return normalizeSymbol(value);
       
     default:
       return value;
   }
 }
 
+// Maker/Taker, or M/T as some exchanges abbreviate it
+function parseLiquidity(value: string | undefined): 'maker' | 'taker' | undefined {
+  const lower = (value ?? '').trim().toLowerCase();
+  if (lower.startsWith('m')) return 'maker';
+  if (lower.startsWith('t')) return 'taker';
+  return undefined;
+}
+
 export function parseCsvRow(row: CsvRow, mapping: MappingSpec): ParsedTrade | null {
   try {
     const symbol = normalizeValue(row[mapping.symbol], 'symbol');
@@ -167,12 +169,18 @@ export function parseCsvRow(row: CsvRow, mapping: MappingSpec): ParsedTrade | nu
     
     const exitPrice = mapping.exitPrice ? normalizeValue(row[mapping.exitPrice], 'number') : null;
     const exitTime = mapping.exitTime ? normalizeValue(row[mapping.exitTime], 'date') : null;
-    const fees = mapping.fees ? normalizeValue(row[mapping.fees], 'number') : 0;
+    const fees = mapping.fees ? normalizeValue(row[mapping.fees], 'number') : null;
     const pnl = mapping.pnl ? normalizeValue(row[mapping.pnl], 'number') : null;
+    const stopPrice = mapping.stopPrice ? normalizeValue(row[mapping.stopPrice], 'number') : null;
+    const targetPrice = mapping.targetPrice ? normalizeValue(row[mapping.targetPrice], 'number') : null;
+    const plannedRisk = mapping.plannedRisk ? normalizeValue(row[mapping.plannedRisk], 'number') : null;
     const brokerExecutionId = mapping.brokerExecutionId ? row[mapping.brokerExecutionId] : null;
+    const quoteToUsd = mapping.quoteToUsd ? normalizeValue(row[mapping.quoteToUsd], 'number') : null;
+    const liquidity = mapping.liquidity ? parseLiquidity(row[mapping.liquidity]) : undefined;
     
     return {
       symbol,
+      rawSymbol: row[mapping.symbol].trim().toUpperCase(),
       side,
       qty,
       entryPrice,
@@ -181,7 +189,12 @@ export function parseCsvRow(row: CsvRow, mapping: MappingSpec): ParsedTrade | nu
       exitTime,
       fees,
       pnl,
-      brokerExecutionId
+      stopPrice,
+      targetPrice,
+      plannedRisk,
+      brokerExecutionId,
+      quoteToUsd,
+      liquidity
     };
   } catch (error) {
     console.error('Error parsing CSV row:', error);
@@ -190,174 +203,357 @@ export function parseCsvRow(row: CsvRow, mapping: MappingSpec): ParsedTrade | nu
 }
 
 export function generateRowHash(trade: ParsedTrade, accountId: string): string {
-  const hashString = `${accountId}-${trade.symbol}-${trade.side}-${trade.qty}-${trade.entryTime?.getTime()}-${trade.exitTime?.getTime()}-${trade.entryPrice}-${trade.exitPrice}`;
+  const hashString = `${accountId}-${trade.rawSymbol ?? trade.symbol}-${trade.side}-${trade.qty}-${trade.entryTime?.getTime()}-${trade.exitTime?.getTime()}-${trade.entryPrice}-${trade.exitPrice}`;
   return createHash('sha256').update(hashString).digest('hex');
 }
 
-export async function parseCsvFile(fileBuffer: Buffer): Promise<CsvRow[]> {
-  return new Promise((resolve, reject) => {
-    const results: CsvRow[] = [];
-    const stream = Readable.from(fileBuffer);
-    
-    stream
-      .pipe(csv())
-      .on('data', (data: CsvRow) => results.push(data))
-      .on('end', () => resolve(results))
-      .on('error', reject);
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(path)) hash.update(chunk);
+  return hash.digest('hex');
+}
+
+// How much of the file to look at for its layout
+const LAYOUT_SAMPLE_BYTES = 64 * 1024;
+
+// Separator and the title lines above the header, read from the start of the file.
+// Sierra Chart logs are tab separated; R|Trader puts a report title above the header.
+async function sniffCsvLayout(path: string): Promise<{ separator: string; skipLines: number }> {
+  let head = '';
+  for await (const chunk of createReadStream(path, { start: 0, end: LAYOUT_SAMPLE_BYTES - 1, encoding: 'utf8' })) {
+    head += chunk;
+  }
+  const lines = head.split(/\r?\n/).slice(0, 20);
+  const count = (pattern: RegExp) => lines.reduce((sum, line) => sum + (line.match(pattern)?.length ?? 0), 0);
+  const separator = count(/\t/g) > count(/,/g) ? '\t' : ',';
+
+  // A line without a separator above one with separators is a title, not the header
+  const firstTable = lines.findIndex(line => line.replace(/"[^"]*"/g, '').includes(separator));
+  return { separator, skipLines: Math.max(0, firstTable) };
+}
+
+// Rows one at a time, so a file with years of history never sits in memory
+export async function* streamCsvFile(path: string): AsyncGenerator<CsvRow> {
+  const { separator, skipLines } = await sniffCsvLayout(path);
+  const parser = csv({
+    separator,
+    skipLines,
+    mapHeaders: ({ header }) => header.replace(/^\uFEFF/, ''),
   });
+  for await (const row of createReadStream(path).pipe(parser)) yield row as CsvRow;
+}
+
+export async function previewCsvFile(path: string, limit = PREVIEW_ROWS): Promise<CsvPreview> {
+  const previewRows: CsvRow[] = [];
+  let totalRows = 0;
+  for await (const row of streamCsvFile(path)) {
+    if (previewRows.length < limit) previewRows.push(row);
+    totalRows++;
+  }
+  return { headers: Object.keys(previewRows[0] || {}), previewRows, totalRows };
+}
+
+export async function readCsvHeaders(path: string): Promise<string[]> {
+  for await (const row of streamCsvFile(path)) return Object.keys(row);
+  return [];
 }
 
+// Rows kept with a batch, read back in row order for a re-import
+async function* storedBatchRows(batchId: string): AsyncGenerator<CsvRow> {
+  let after = -1;
+  while (true) {
+    const page = await db
+      .select()
+      .from(importRows)
+      .where(and(eq(importRows.batchId, batchId), gt(importRows.rowNumber, after)))
+      .orderBy(asc(importRows.rowNumber))
+      .limit(IMPORT_CHUNK_SIZE);
+    for (const row of page) yield row.data as CsvRow;
+    if (page.length < IMPORT_CHUNK_SIZE) return;
+    after = page[page.length - 1].rowNumber;
+  }
+}
+
+function buildTradeData(
+  parsedTrade: ParsedTrade,
+  userId: string,
+  accountId: string,
+  source: string,
+  batchId: string,
+  feesFor: FeeScheduler
+): InsertTrade {
+  // Exports without a P&L column get it from prices; the broker's number is kept when present
+  const hasBrokerPnl = parsedTrade.pnl !== null && parsedTrade.pnl !== undefined;
+  const computedPnl = hasBrokerPnl ? null : computeTradePnl(parsedTrade);
+
+  // Exports without commissions (TPT, for one) get them from the account's fee schedule
+  return withScheduledFees({
+    userId,
+    tradingAccountId: accountId,
+    symbol: parsedTrade.symbol,
+    root: contractRoot(parsedTrade.symbol),
+    assetClass: assetClassOf(parsedTrade.symbol),
+    side: parsedTrade.side,
+    qty: parsedTrade.qty.toString(),
+    entryPrice: parsedTrade.entryPrice.toString(),
+    exitPrice: parsedTrade.exitPrice?.toString() || null,
+    stopPrice: parsedTrade.stopPrice?.toString() || null,
+    targetPrice: parsedTrade.targetPrice?.toString() || null,
+    plannedRisk: parsedTrade.plannedRisk?.toString() || null,
+    entryTime: parsedTrade.entryTime,
+    exitTime: parsedTrade.exitTime || null,
+    fees: parsedTrade.fees?.toString() ?? null,
+    pnl: hasBrokerPnl ? parsedTrade.pnl!.toString() : computedPnl?.grossPnl.toString() ?? null,
+    pnlSource: hasBrokerPnl ? 'broker' : computedPnl ? 'computed' : null,
+    brokerExecutionId: parsedTrade.brokerExecutionId || null,
+    quoteToUsd: parsedTrade.quoteToUsd?.toString() ?? null,
+    stats: parsedTrade.liquidity ? { liquidity: parsedTrade.liquidity } : {},
+    rowHash: generateRowHash(parsedTrade, accountId),
+    source: 'csv',
+    importSource: source,
+    importBatchId: batchId,
+  }, feesFor);
+}
+
+// Columns a re-imported row overwrites; excursions, tags and journal links stay
+const UPSERT_COLUMNS = [
+  'symbol', 'root', 'assetClass', 'side', 'qty', 'entryPrice', 'exitPrice', 'stopPrice',
+  'targetPrice', 'plannedRisk', 'entryTime', 'exitTime', 'fees', 'pnl', 'pnlSource',
+  'brokerExecutionId', 'quoteToUsd', 'source', 'importSource', 'importBatchId',
+] as const;
+
+const upsertSet = {
+  ...Object.fromEntries(UPSERT_COLUMNS.map(column => [column, sql.raw(`excluded.${trades[column].name}`)])),
+  // A fee breakdown from an earlier import is dropped; the new row brings its own if a schedule applied
+  stats: sql`(${trades.stats} - 'feeBreakdown') || excluded.stats`,
+};
+
+// One SELECT for the rows about to be overwritten (kept for rollback), then one upsert
+async function writeChunk(
+  userId: string,
+  accountId: string,
+  batchId: string,
+  chunk: InsertTrade[]
+): Promise<{ inserted: number; updated: number }> {
+  // The same trade twice in one statement would make ON CONFLICT fail; the later row wins
+  const byHash = new Map(chunk.map(trade => [trade.rowHash!, trade]));
+  const hashes = Array.from(byHash.keys());
+  const duplicates = chunk.length - byHash.size;
+
+  const existing = await db
+    .select()
+    .from(trades)
+    .where(and(
+      eq(trades.userId, userId),
+      eq(trades.tradingAccountId, accountId),
+      inArray(trades.rowHash, hashes)
+    ));
+  const written = await db
+    .insert(trades)
+    .values(Array.from(byHash.values()))
+    .onConflictDoUpdate({ target: [trades.userId, trades.tradingAccountId, trades.rowHash], set: upsertSet })
+    .returning();
+
+  if (existing.length > 0) {
+    const writtenByHash = new Map(written.map(trade => [trade.rowHash, trade]));
+    await db.insert(tradeRevisions).values(existing.map(before => ({
+      userId,
+      tradingAccountId: accountId,
+      tradeId: before.id,
+      action: 'update' as const,
+      before,
+      after: writtenByHash.get(before.rowHash) ?? null,
+      source: 'csv',
+      importBatchId: batchId,
+    })));
+  }
+  return { inserted: written.length - existing.length, updated: existing.length + duplicates };
+}
+
+// A column mapping as a parser, for firm exports and files mapped by hand
+function mappingParser(mapping: MappingSpec, source: string): TradeCsvParser {
+  return {
+    source,
+    name: 'Column mapping',
+    kind: 'trades',
+    fingerprint: [],
+    transform(row) {
+      const parsedTrade = parseCsvRow(row, mapping);
+      if (!parsedTrade) throw new Error('missing symbol, side, quantity, entry price or entry time');
+      return parsedTrade;
+    },
+  };
+}
+
+// Fill rows as executions for round-trip matching; the id is the row number, padded so
+// fills with the same timestamp keep their file order
+function fillToExecution(fill: ParsedFill, rowNumber: number, userId: string, accountId: string): Execution {
+  return {
+    id: String(rowNumber).padStart(10, '0'),
+    userId,
+    tradingAccountId: accountId,
+    symbol: fill.symbol,
+    side: fill.side,
+    qty: fill.qty.toString(),
+    price: fill.price.toString(),
+    fees: (fill.fees ?? 0).toString(),
+    executedAt: fill.executedAt,
+    externalId: fill.fillId ?? null,
+    orderId: null,
+    source: 'csv',
+    createdAt: null,
+  };
+}
+
+// P&L is left to buildTradeData so it is computed the same way as for trade rows
+function roundTripToParsedTrade(trip: RoundTrip, fills: Map<string, ParsedFill>): ParsedTrade {
+  const reportedFees = trip.links.some(link => fills.get(link.executionId)?.fees !== undefined);
+  return {
+    symbol: trip.symbol,
+    side: trip.side,
+    qty: trip.qty,
+    entryPrice: trip.entryPrice,
+    exitPrice: trip.exitPrice ?? undefined,
+    entryTime: trip.entryTime,
+    exitTime: trip.exitTime ?? undefined,
+    fees: reportedFees ? trip.fees : undefined,
+    brokerExecutionId: fills.get(trip.key)?.fillId,
+  };
+}
+
+// Imports with the given column mapping, or with the source's platform parser when mapping is null
 export async function importCsvTrades(
   userId: string,
   accountId: string,
-  rows: CsvRow[],
-  mapping: MappingSpec,
-  source: string
+  rows: AsyncIterable<CsvRow> | Iterable<CsvRow>,
+  mapping: MappingSpec | null,
+  source: string,
+  file: ImportFile = {},
+  hooks: ImportHooks = {}
 ): Promise<ImportResult> {
+  const parser: CsvParser | undefined = mapping ? mappingParser(mapping, source) : getCsvParser(source);
+  if (!parser) throw new Error(`No parser for "${source}" exports; map the columns instead`);
+
+  const [batch] = await db.insert(importBatches).values({
+    userId,
+    tradingAccountId: accountId,
+    source,
+    filename: file.filename ?? null,
+    fileHash: file.fileHash ?? null,
+    mapping: mapping ?? {},
+    symbol: file.symbol ?? null,
+    reimportOf: file.reimportOf ?? null,
+  }).returning();
+
   const result: ImportResult = {
+    batchId: batch.id,
     inserted: 0,
     updated: 0,
     daysTouched: [],
     errors: []
   };
+  const progress: ImportProgress = { processed: 0, inserted: 0, updated: 0, errors: 0 };
   
   const daysTouchedSet = new Set<string>();
-  
-  for (const row of rows) {
-    try {
-      const parsedTrade = parseCsvRow(row, mapping);
-      if (!parsedTrade) {
-        result.errors.push(`Failed to parse row: ${JSON.stringify(row)}`);
-        continue;
+  const feesFor = await loadFeeScheduler(accountId);
+  const context = { symbol: file.symbol };
+
+  const rowError = (rowNumber: number, message: string) => {
+    progress.errors++;
+    if (result.errors.length < MAX_STORED_ERRORS) result.errors.push(`Row ${rowNumber}: ${message}`);
+    hooks.onRowError?.(rowNumber, message);
+  };
+
+  const saveTrades = async (chunk: InsertTrade[]) => {
+    const counts = await writeChunk(userId, accountId, batch.id, chunk);
+    progress.inserted += counts.inserted;
+    progress.updated += counts.updated;
+    for (const trade of chunk) daysTouchedSet.add(tradeDate(trade));
+  };
+
+  let rawChunk: { batchId: string; rowNumber: number; data: CsvRow }[] = [];
+  let tradeChunk: InsertTrade[] = [];
+  let firstRow = 1;
+  // Fill exports become trades only once the whole file is read: a position can span any number of rows
+  const executions: Execution[] = [];
+  const fills = new Map<string, ParsedFill>();
+
+  const flush = async () => {
+    if (rawChunk.length > 0) await db.insert(importRows).values(rawChunk);
+    if (tradeChunk.length > 0) {
+      try {
+        await saveTrades(tradeChunk);
+      } catch (error) {
+        const lastRow = firstRow + rawChunk.length - 1;
+        rowError(firstRow, `rows ${firstRow}-${lastRow} not saved: ${error instanceof Error ? error.message : String(error)}`);
       }
-      
-      const rowHash = generateRowHash(parsedTrade, accountId);
-      
-      // Check if trade already exists
-      const existingTrade = await db
-        .select()
-        .from(trades)
-        .where(eq(trades.rowHash, rowHash))
-        .limit(1);
-      
-      const tradeData = {
-        userId,
-        tradingAccountId: accountId,
-        symbol: parsedTrade.symbol,
-        side: parsedTrade.side,
-        qty: parsedTrade.qty.toString(),
-        entryPrice: parsedTrade.entryPrice.toString(),
-        exitPrice: parsedTrade.exitPrice?.toString() || undefined,
-        entryTime: parsedTrade.entryTime,
-        exitTime: parsedTrade.exitTime,
-        fees: parsedTrade.fees.toString(),
-        pnl: parsedTrade.pnl?.toString(),
-        brokerExecutionId: parsedTrade.brokerExecutionId,
-        rowHash,
-        importSource: source
-      };
-      
-      if (existingTrade.length > 0) {
-        // Update existing trade
-        await db
-          .update(trades)
-          .set(tradeData)
-          .where(eq(trades.id, existingTrade[0].id));
-        result.updated++;
+    }
+    progress.processed += rawChunk.length;
+    firstRow += rawChunk.length;
+    rawChunk = [];
+    tradeChunk = [];
+    hooks.onProgress?.({ ...progress });
+  };
+
+  let rowNumber = 0;
+  for await (const row of rows) {
+    rowNumber++;
+    rawChunk.push({ batchId: batch.id, rowNumber, data: row });
+    try {
+      if (parser.kind === 'fills') {
+        const fill = parser.transform(row, context);
+        if (fill) {
+          const execution = fillToExecution(fill, rowNumber, userId, accountId);
+          executions.push(execution);
+          fills.set(execution.id, fill);
+        }
       } else {
-        // Insert new trade
-        await db.insert(trades).values(tradeData);
-        result.inserted++;
+        const parsedTrade = parser.transform(row, context);
+        if (parsedTrade) tradeChunk.push(buildTradeData(parsedTrade, userId, accountId, source, batch.id, feesFor));
       }
-      
-      // Track days that need metrics recalculation
-      const tradeDate = parsedTrade.entryTime.toISOString().split('T')[0];
-      daysTouchedSet.add(tradeDate);
-      
     } catch (error) {
-      result.errors.push(`Error processing row: ${error instanceof Error ? error.message : String(error)}`);
+      rowError(rowNumber, error instanceof Error ? error.message : String(error));
     }
+    if (rawChunk.length >= IMPORT_CHUNK_SIZE) await flush();
+  }
+  await flush();
+
+  const trips = buildRoundTrips(executions);
+  for (let start = 0; start < trips.length; start += IMPORT_CHUNK_SIZE) {
+    const chunk = trips.slice(start, start + IMPORT_CHUNK_SIZE);
+    try {
+      await saveTrades(chunk.map(trip =>
+        buildTradeData(roundTripToParsedTrade(trip, fills), userId, accountId, source, batch.id, feesFor)
+      ));
+    } catch (error) {
+      // A trip's key is the row of the fill that opened it
+      rowError(Number(chunk[0].key), `${chunk.length} trades not saved: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    hooks.onProgress?.({ ...progress });
   }
   
-  result.daysTouched = Array.from(daysTouchedSet);
+  result.inserted = progress.inserted;
+  result.updated = progress.updated;
+  result.daysTouched = Array.from(daysTouchedSet).sort();
+
+  await db.update(importBatches).set({
+    rowCount: rowNumber,
+    inserted: result.inserted,
+    updated: result.updated,
+    errorCount: progress.errors,
+    errors: result.errors,
+    daysTouched: result.daysTouched,
+  }).where(eq(importBatches.id, batch.id));
   
   // Recalculate daily metrics for affected days
   await recalculateDailyMetrics(userId, accountId, result.daysTouched);
+  // Statement rows absorb alerts already on those days
+  await reconcileDays(userId, accountId, result.daysTouched);
+  await updateEvaluationStatus(accountId, 'csv');
   
   return result;
 }
 
-async function recalculateDailyMetrics(userId: string, accountId: string, dates: string[]) {
-  for (const date of dates) {
-    try {
-      // Get all trades for this date
-      const dayTrades = await db
-        .select()
-        .from(trades)
-        .where(
-          and(
-            eq(trades.userId, userId),
-            eq(trades.tradingAccountId, accountId)
-          )
-        );
-      
-      if (dayTrades.length === 0) continue;
-      
-      // Calculate metrics
-      let grossPnl = 0;
-      let netPnl = 0;
-      let winCount = 0;
-      let lossCount = 0;
-      
-      for (const trade of dayTrades) {
-        const tradePnl = parseFloat(trade.pnl || '0');
-        const tradeFees = parseFloat(trade.fees || '0');
-        
-        grossPnl += tradePnl;
-        netPnl += tradePnl - tradeFees;
-        
-        if (tradePnl > 0) winCount++;
-        else if (tradePnl < 0) lossCount++;
-      }
-      
-      // Upsert daily metrics
-      const existingMetrics = await db
-        .select()
-        .from(dailyMetrics)
-        .where(
-          and(
-            eq(dailyMetrics.userId, userId),
-            eq(dailyMetrics.tradingAccountId, accountId),
-            eq(dailyMetrics.tradeDate, date)
-          )
-        )
-        .limit(1);
-      
-      const metricsData = {
-        userId,
-        tradingAccountId: accountId,
-        tradeDate: date,
-        grossPnl: grossPnl.toString(),
-        netPnl: netPnl.toString(),
-        winCount,
-        lossCount,
-        stats: JSON.stringify({ tradeCount: dayTrades.length })
-      };
-      
-      if (existingMetrics.length > 0) {
-        await db
-          .update(dailyMetrics)
-          .set(metricsData)
-          .where(eq(dailyMetrics.id, existingMetrics[0].id));
-      } else {
-        await db.insert(dailyMetrics).values(metricsData);
-      }
-    } catch (error) {
-      console.error(`Error recalculating metrics for ${date}:`, error);
-    }
-  }
-}
-
 export async function saveMappingProfile(
   userId: string,
   name: string,
@@ -382,4 +578,178 @@ export async function getMappingProfiles(userId: string): Promise<any[]> {
     ...p,
     mapping: JSON.parse(p.mapping as string)
   }));
-}
\ No newline at end of file
+}
+
+export async function getImportBatches(userId: string, accountId?: string): Promise<ImportBatch[]> {
+  const conditions = [eq(importBatches.userId, userId)];
+  if (accountId) conditions.push(eq(importBatches.tradingAccountId, accountId));
+  return db
+    .select()
+    .from(importBatches)
+    .where(and(...conditions))
+    .orderBy(desc(importBatches.createdAt));
+}
+
+export async function getImportBatch(id: string): Promise<ImportBatch | undefined> {
+  const [batch] = await db.select().from(importBatches).where(eq(importBatches.id, id));
+  return batch;
+}
+
+// Column headers of the file behind a batch, for editing its mapping
+export async function getImportBatchHeaders(batchId: string): Promise<string[]> {
+  const [first] = await db
+    .select()
+    .from(importRows)
+    .where(eq(importRows.batchId, batchId))
+    .orderBy(asc(importRows.rowNumber))
+    .limit(1);
+  return Object.keys((first?.data as CsvRow | undefined) || {});
+}
+
+// Revisions hold rows as JSON, so timestamps come back as strings
+function fromSnapshot(snapshot: unknown): InsertTrade {
+  const { id, createdAt, ...values } = snapshot as Trade;
+  return {
+    ...values,
+    entryTime: new Date(values.entryTime),
+    exitTime: values.exitTime ? new Date(values.exitTime) : null,
+  } as InsertTrade;
+}
+
+// Recreates an alert or statement copy that reconciliation merged into one of the batch's rows,
+// with the journal entries and setups it brought along. Merges recorded before links were
+// tracked hand back everything when the row they went into is about to be deleted.
+async function restoreAbsorbedTrade(merge: TradeRevision, primaryDeleted: boolean): Promise<string | null> {
+  const [, secondary] = merge.before as [Trade, Trade];
+  const [row] = await db
+    .insert(trades)
+    .values({ ...fromSnapshot(secondary), id: secondary.id })
+    .onConflictDoNothing()
+    .returning();
+  if (!row) return null;
+
+  const reconciledFrom = ((merge.after as Trade | null)?.stats as { reconciledFrom?: ReconciledFrom[] } | null)?.reconciledFrom;
+  const links = reconciledFrom?.find(entry => entry.tradeId === secondary.id);
+  const journalEntryIds = links?.journalEntryIds;
+  if (journalEntryIds ? journalEntryIds.length > 0 : primaryDeleted) {
+    await db
+      .update(journalEntries)
+      .set({ tradeId: row.id })
+      .where(and(
+        eq(journalEntries.tradeId, merge.tradeId),
+        journalEntryIds ? inArray(journalEntries.id, journalEntryIds) : undefined
+      ));
+  }
+  const setupIds = links?.setupIds ?? (primaryDeleted
+    ? (await db.select().from(tradeSetups).where(eq(tradeSetups.tradeId, merge.tradeId))).map(link => link.setupId)
+    : []);
+  if (setupIds.length > 0) {
+    await db.insert(tradeSetups).values(setupIds.map(setupId => ({ tradeId: row.id, setupId }))).onConflictDoNothing();
+  }
+
+  await db.insert(tradeRevisions).values({
+    userId: row.userId,
+    tradingAccountId: row.tradingAccountId,
+    tradeId: row.id,
+    action: 'update',
+    before: null,
+    after: row,
+    relatedTradeIds: [merge.tradeId],
+    source: 'rollback',
+  });
+  return tradeDate(row);
+}
+
+// Rows the batch created are deleted; rows it overwrote go back to what they were before.
+// Copies merged into the batch's rows since it was imported are brought back.
+export async function rollbackImportBatch(batch: ImportBatch): Promise<RollbackResult> {
+  const [batchTrades, overwrites] = await Promise.all([
+    db.select().from(trades).where(eq(trades.importBatchId, batch.id)),
+    db.select().from(tradeRevisions).where(eq(tradeRevisions.importBatchId, batch.id)),
+  ]);
+  // A file listing the same trade twice overwrites it twice; the first revision has the pre-batch row
+  const previous = new Map<string, unknown>();
+  for (const revision of overwrites.sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())) {
+    if (!previous.has(revision.tradeId)) previous.set(revision.tradeId, revision.before);
+  }
+
+  const result: RollbackResult = { deleted: 0, restored: 0, skipped: 0, daysTouched: [] };
+  const dates = new Set<string>();
+
+  // Before the rows go: deleting them would drop the setups the copies brought along
+  const merges = batchTrades.length > 0
+    ? await db.select().from(tradeRevisions).where(and(
+        inArray(tradeRevisions.tradeId, batchTrades.map(trade => trade.id)),
+        eq(tradeRevisions.action, 'merge'),
+        eq(tradeRevisions.source, 'reconcile'),
+        gte(tradeRevisions.createdAt, batch.createdAt ?? new Date(0))
+      ))
+    : [];
+  for (const merge of merges) {
+    const date = await restoreAbsorbedTrade(merge, !previous.has(merge.tradeId));
+    if (date) dates.add(date);
+  }
+
+  for (const trade of batchTrades) {
+    dates.add(tradeDate(trade));
+    const before = previous.get(trade.id);
+    previous.delete(trade.id);
+
+    if (before) {
+      const restored = fromSnapshot(before);
+      const [row] = await db.update(trades).set(restored).where(eq(trades.id, trade.id)).returning();
+      await db.insert(tradeRevisions).values({
+        userId: trade.userId,
+        tradingAccountId: trade.tradingAccountId,
+        tradeId: trade.id,
+        action: 'update',
+        before: trade,
+        after: row,
+        source: 'rollback',
+      });
+      dates.add(tradeDate(restored));
+      result.restored++;
+    } else {
+      await db.update(journalEntries).set({ tradeId: null }).where(eq(journalEntries.tradeId, trade.id));
+      await db.delete(trades).where(eq(trades.id, trade.id));
+      await db.insert(tradeRevisions).values({
+        userId: trade.userId,
+        tradingAccountId: trade.tradingAccountId,
+        tradeId: trade.id,
+        action: 'delete',
+        before: trade,
+        after: null,
+        source: 'rollback',
+      });
+      result.deleted++;
+    }
+  }
+  // Whatever is left was overwritten by this batch and then again by a later one
+  result.skipped = previous.size;
+
+  await db.update(importBatches).set({ rolledBackAt: new Date() }).where(eq(importBatches.id, batch.id));
+
+  result.daysTouched = Array.from(dates).sort();
+  await recalculateDailyMetrics(batch.userId, batch.tradingAccountId, result.daysTouched);
+  await reconcileDays(batch.userId, batch.tradingAccountId, result.daysTouched);
+  await updateEvaluationStatus(batch.tradingAccountId, 'csv');
+  return result;
+}
+
+// Undoes the batch if it is still live, then runs its stored rows through the new mapping
+// A null mapping reads the rows with the batch's platform parser again
+export async function reimportBatch(batch: ImportBatch, mapping: MappingSpec | null, hooks: ImportHooks = {}): Promise<ImportResult> {
+  if (!batch.rolledBackAt) await rollbackImportBatch(batch);
+  return importCsvTrades(batch.userId, batch.tradingAccountId, storedBatchRows(batch.id), mapping, batch.source, {
+    filename: batch.filename,
+    fileHash: batch.fileHash,
+    reimportOf: batch.id,
+    symbol: batch.symbol,
+  }, hooks);
+}
+
+// The platform parser that read the batch; null for batches imported with a column mapping
+export function batchParser(batch: ImportBatch): CsvParser | null {
+  const mapping = (batch.mapping as Record<string, unknown> | null) || {};
+  return Object.keys(mapping).length === 0 ? getCsvParser(batch.source) ?? null : null;
+}
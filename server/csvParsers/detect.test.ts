@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectCsvFormat } from "./detect";
+
+test('Tradovate Orders wins over Fills on the headers they share', () => {
+  const detection = detectCsvFormat(['Order ID', 'Account', 'B/S', 'Contract', 'Product', 'Product Description', 'Status', 'Type', 'Limit Price', 'Stop Price', 'Filled Qty', 'Avg Fill Price', 'Fill Time', 'Timestamp', 'Date', 'Quantity', 'Price']);
+  assert.equal(detection?.source, 'tradovate-orders');
+  assert.equal(detection?.confidence, 1);
+  assert.equal(detection?.mapping, null);
+  const fills = detection?.runnersUp.find(candidate => candidate.source === 'tradovate-fills');
+  assert.ok(fills && fills.confidence >= 0.3 && fills.confidence < 1);
+});
+
+test('Tradovate Fills is picked when the order-only columns are missing', () => {
+  const detection = detectCsvFormat(['_id', 'Fill ID', 'Order ID', 'Timestamp', 'Date', 'B/S', 'Quantity', 'Price', 'Contract', 'Product', 'commission']);
+  assert.equal(detection?.source, 'tradovate-fills');
+  assert.equal(detection?.kind, 'fills');
+});
+
+test('Runners-up are ranked by confidence and capped', () => {
+  const detection = detectCsvFormat(['Instrument', 'Action', 'Quantity', 'Price', 'Time', 'ID', 'E/X', 'Position', 'Order ID', 'Commission', 'Account']);
+  assert.equal(detection?.source, 'ninjatrader-executions');
+  assert.ok(detection!.runnersUp.length > 0 && detection!.runnersUp.length <= 3);
+  const confidences = detection!.runnersUp.map(candidate => candidate.confidence);
+  assert.deepEqual(confidences, [...confidences].sort((a, b) => b - a));
+  assert.ok(confidences.every(confidence => confidence >= 0.3 && confidence <= detection!.confidence));
+});
+
+test('Firm exports come with their column mapping', () => {
+  const detection = detectCsvFormat(['Entry Time', 'Exit Time', 'Contract', 'P/L', 'Commissions', 'Side', 'Qty']);
+  assert.equal(detection?.source, 'apex');
+  assert.equal(detection?.kind, 'trades');
+  assert.ok(detection?.mapping);
+});
+
+test('TradingView exports are flagged as needing a symbol', () => {
+  const detection = detectCsvFormat(['Trade #', 'Type', 'Signal', 'Date/Time', 'Price USD', 'Contracts', 'Profit USD', 'Run-up USD', 'Drawdown USD']);
+  assert.equal(detection?.source, 'tradingview-strategy');
+  assert.equal(detection?.needsSymbol, true);
+});
+
+test('Too few matching headers detect nothing', () => {
+  assert.equal(detectCsvFormat(['Date', 'Description', 'Amount']), null);
+  // Three headers are below the minimum even when they all belong to one format
+  assert.equal(detectCsvFormat(['Order ID', 'B/S', 'Contract']), null);
+});
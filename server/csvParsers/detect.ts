@@ -0,0 +1,69 @@
+import type { MappingSpec } from "../csvImport";
+import { listPropFirms } from "@shared/propFirmRegistry";
+import { listCsvParsers, headerConfidence } from "./index";
+
+// Minimum number of a format's signature headers that must be present to claim a file
+const MIN_HEADER_MATCHES = 4;
+// Share of the signature headers the best format needs; runners-up are listed from RUNNER_UP_CONFIDENCE
+const MIN_CONFIDENCE = 0.6;
+const RUNNER_UP_CONFIDENCE = 0.3;
+const MAX_RUNNERS_UP = 3;
+
+export interface FormatCandidate {
+  source: string;
+  name: string;
+  // Share of the format's signature headers found in the file, 0-1
+  confidence: number;
+  kind: 'trades' | 'fills';
+  // Firm exports come with a column mapping the user can adjust; platform parsers read rows themselves
+  mapping: MappingSpec | null;
+  needsSymbol: boolean;
+}
+
+export interface FormatDetection extends FormatCandidate {
+  runnersUp: FormatCandidate[];
+}
+
+// Scores every firm format (from the prop firm registry) and platform parser against the headers
+export function detectCsvFormat(headers: string[]): FormatDetection | null {
+  const formats = [
+    ...listPropFirms().flatMap(firm => firm.csvFormats.map(format => ({
+      source: format.source,
+      name: `${firm.name} export`,
+      kind: 'trades' as const,
+      fingerprint: format.headers,
+      mapping: format.mappings as unknown as MappingSpec,
+      needsSymbol: false,
+    }))),
+    ...listCsvParsers().map(parser => ({
+      source: parser.source,
+      name: parser.name,
+      kind: parser.kind,
+      fingerprint: parser.fingerprint,
+      mapping: null,
+      needsSymbol: parser.needsSymbol ?? false,
+    })),
+  ];
+
+  // More matched headers break a tie, so the more specific of two overlapping layouts wins
+  const scored = formats
+    .map(({ fingerprint, ...format }) => ({
+      ...format,
+      ...headerConfidence(fingerprint, headers),
+      required: Math.min(MIN_HEADER_MATCHES, fingerprint.length),
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.matched - a.matched);
+
+  const [best, ...rest] = scored;
+  if (!best || best.confidence < MIN_CONFIDENCE || best.matched < best.required) return null;
+
+  const toCandidate = ({ matched, required, confidence, ...format }: typeof best): FormatCandidate =>
+    ({ ...format, confidence: Math.round(confidence * 100) / 100 });
+  return {
+    ...toCandidate(best),
+    runnersUp: rest
+      .filter(candidate => candidate.confidence >= RUNNER_UP_CONFIDENCE)
+      .slice(0, MAX_RUNNERS_UP)
+      .map(toCandidate),
+  };
+}
@@ -0,0 +1,39 @@
+import type { CsvParser } from "./types";
+import { tradovatePerformance, tradovateFills, tradovateOrders } from "./tradovate";
+import { ninjaTraderTrades, ninjaTraderExecutions } from "./ninjaTrader";
+import { rithmicOrderHistory } from "./rithmic";
+import { sierraChartTradeActivity } from "./sierraChart";
+import { quantowerTrades } from "./quantower";
+import { tradingViewListOfTrades } from "./tradingView";
+
+export type { CsvParser, TradeCsvParser, FillCsvParser, ParsedFill, ParseContext } from "./types";
+
+// Platform exports with a fixed layout. Each parser reads its own rows, so these need no
+// column mapping; firm exports (propFirms.json csvFormats) still go through a mapping.
+// A new platform is one module exporting a CsvParser, added to this list.
+const PARSERS: CsvParser[] = [
+  tradovatePerformance,
+  tradovateFills,
+  tradovateOrders,
+  ninjaTraderTrades,
+  ninjaTraderExecutions,
+  rithmicOrderHistory,
+  sierraChartTradeActivity,
+  quantowerTrades,
+  tradingViewListOfTrades,
+];
+
+export function listCsvParsers(): CsvParser[] {
+  return PARSERS;
+}
+
+export function getCsvParser(source: string): CsvParser | undefined {
+  return PARSERS.find(parser => parser.source === source);
+}
+
+// Share of the fingerprint headers present in the file, ignoring case and padding
+export function headerConfidence(fingerprint: string[], headers: string[]): { matched: number; confidence: number } {
+  const headerSet = new Set(headers.map(h => h.trim().toLowerCase()));
+  const matched = fingerprint.filter(h => headerSet.has(h.toLowerCase())).length;
+  return { matched, confidence: fingerprint.length > 0 ? matched / fingerprint.length : 0 };
+}
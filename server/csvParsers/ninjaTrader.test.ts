@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ninjaTraderTrades, ninjaTraderExecutions } from "./ninjaTrader";
+import { headerConfidence } from "./index";
+
+const TRADES_HEADERS = ['Trade number', 'Instrument', 'Account', 'Strategy', 'Market pos.', 'Qty', 'Entry price', 'Exit price', 'Entry time', 'Exit time', 'Entry name', 'Exit name', 'Profit', 'Cum. net profit', 'Commission', 'MAE', 'MFE', 'ETD', 'Bars'];
+const EXECUTIONS_HEADERS = ['Instrument', 'Action', 'Quantity', 'Price', 'Time', 'ID', 'E/X', 'Position', 'Order ID', 'Name', 'Commission', 'Rate', 'Account', 'Connection'];
+
+function row(headers: string[], values: Record<string, string>) {
+  return Object.fromEntries(headers.map(header => [header, values[header] ?? '']));
+}
+
+test('NinjaTrader fingerprints match their own exports', () => {
+  assert.equal(headerConfidence(ninjaTraderTrades.fingerprint, TRADES_HEADERS).confidence, 1);
+  assert.equal(headerConfidence(ninjaTraderExecutions.fingerprint, EXECUTIONS_HEADERS).confidence, 1);
+});
+
+test('Trades rows keep the commission as fees and key on account and trade number', () => {
+  const trade = ninjaTraderTrades.transform(row(TRADES_HEADERS, {
+    'Trade number': '7', Instrument: 'MNQ 12-24', Account: 'Sim101', 'Market pos.': 'Short', Qty: '2',
+    'Entry price': '20,110.50', 'Exit price': '20,100.00', 'Entry time': '11/4/2024 9:31:02 AM',
+    'Exit time': '11/4/2024 9:45:10 AM', Profit: '$40.76', Commission: '$1.24',
+  }), {});
+  assert.deepEqual(trade, {
+    symbol: 'MNQZ4', side: 'short', qty: 2, entryPrice: 20110.5, exitPrice: 20100,
+    entryTime: new Date('11/4/2024 9:31:02 AM'), exitTime: new Date('11/4/2024 9:45:10 AM'),
+    fees: 1.24, brokerExecutionId: 'Sim101:7',
+  });
+});
+
+test('Trades rows with a flat or unknown position are errors', () => {
+  assert.throws(() => ninjaTraderTrades.transform(row(TRADES_HEADERS, {
+    'Trade number': '8', Instrument: 'MNQ 12-24', 'Market pos.': 'Flat', Qty: '1', 'Entry price': '20100', 'Entry time': '11/4/2024 9:31:02 AM',
+  }), {}), /unknown market position "Flat"/);
+  assert.throws(() => ninjaTraderTrades.transform(row(TRADES_HEADERS, {
+    'Trade number': '9', Instrument: 'MNQ 12-24', 'Market pos.': 'Long', Qty: 'two', 'Entry price': '20100', 'Entry time': '11/4/2024 9:31:02 AM',
+  }), {}), /unreadable number "two"/);
+});
+
+test('Executions rows map sell short and buy to cover onto sides', () => {
+  const base = { Instrument: 'ES 12-24', Quantity: '1', Price: '5800.25', Time: '11/4/2024 9:31:02 AM', Commission: '$2.09', Account: 'Sim101' };
+  const short = ninjaTraderExecutions.transform(row(EXECUTIONS_HEADERS, { ...base, Action: 'Sell short', ID: 'a1' }), {});
+  const cover = ninjaTraderExecutions.transform(row(EXECUTIONS_HEADERS, { ...base, Action: 'Buy to cover', ID: 'a2' }), {});
+  assert.equal(short?.side, 'sell');
+  assert.equal(short?.symbol, 'ESZ4');
+  assert.equal(short?.fees, 2.09);
+  assert.equal(short?.fillId, 'a1');
+  assert.equal(cover?.side, 'buy');
+
+  assert.throws(() => ninjaTraderExecutions.transform(row(EXECUTIONS_HEADERS, { ...base, Action: 'Exercise' }), {}), /unknown action "Exercise"/);
+});
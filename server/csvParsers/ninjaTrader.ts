@@ -0,0 +1,49 @@
+import type { TradeCsvParser, FillCsvParser } from "./types";
+import { cell, parseAmount, requireAmount, requireTime, requireSymbol } from "./values";
+
+// Trade Performance > Trades grid. Its Profit column includes commission or not depending
+// on a display setting, so P&L is worked out from the prices and the commission kept as fees.
+export const ninjaTraderTrades: TradeCsvParser = {
+  source: 'ninjatrader-trades',
+  name: 'NinjaTrader Trades',
+  kind: 'trades',
+  fingerprint: ['Trade number', 'Instrument', 'Account', 'Market pos.', 'Qty', 'Entry price', 'Exit price', 'Entry time', 'Exit time', 'Profit', 'Commission'],
+  transform(row) {
+    const position = cell(row, 'Market pos.').toLowerCase();
+    if (position !== 'long' && position !== 'short') throw new Error(`unknown market position "${cell(row, 'Market pos.')}"`);
+
+    return {
+      symbol: requireSymbol(row, 'Instrument'),
+      side: position,
+      qty: requireAmount(row, 'Qty'),
+      entryPrice: requireAmount(row, 'Entry price'),
+      exitPrice: parseAmount(cell(row, 'Exit price')),
+      entryTime: requireTime(row, 'Entry time'),
+      exitTime: cell(row, 'Exit time') ? requireTime(row, 'Exit time') : undefined,
+      fees: parseAmount(cell(row, 'Commission')),
+      brokerExecutionId: cell(row, 'Trade number') ? `${cell(row, 'Account')}:${cell(row, 'Trade number')}` : undefined,
+    };
+  },
+};
+
+// Executions grid (Control Center or Trade Performance); Action is Buy, Sell, Sell short or Buy to cover
+export const ninjaTraderExecutions: FillCsvParser = {
+  source: 'ninjatrader-executions',
+  name: 'NinjaTrader Executions',
+  kind: 'fills',
+  fingerprint: ['Instrument', 'Action', 'Quantity', 'Price', 'Time', 'ID', 'E/X', 'Position', 'Order ID', 'Commission', 'Account'],
+  transform(row) {
+    const action = cell(row, 'Action').toLowerCase();
+    if (!action.startsWith('buy') && !action.startsWith('sell')) throw new Error(`unknown action "${cell(row, 'Action')}"`);
+
+    return {
+      symbol: requireSymbol(row, 'Instrument'),
+      side: action.startsWith('buy') ? 'buy' : 'sell',
+      qty: requireAmount(row, 'Quantity'),
+      price: requireAmount(row, 'Price'),
+      executedAt: requireTime(row, 'Time'),
+      fees: parseAmount(cell(row, 'Commission')),
+      fillId: cell(row, 'ID') || undefined,
+    };
+  },
+};
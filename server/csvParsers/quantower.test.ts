@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { quantowerTrades } from "./quantower";
+import { headerConfidence } from "./index";
+
+const HEADERS = ['Account', 'Date/Time', 'Symbol', 'Description', 'Side', 'Order type', 'Quantity', 'Price', 'Gross P/L', 'Fee', 'Net P/L', 'Trade value', 'Trade ID', 'Order ID', 'Position ID', 'Connection name'];
+
+function row(values: Record<string, string>) {
+  return Object.fromEntries(HEADERS.map(header => [header, values[header] ?? '']));
+}
+
+const TRADE = {
+  Account: 'TPT-99', 'Date/Time': '2024-11-04 14:31:00', Symbol: 'MNQ 12-24', Side: 'Sell', Quantity: '-2', Price: '20100.25',
+  'Gross P/L': '0', Fee: '-1.24', 'Net P/L': '-1.24', 'Trade ID': 'T-1', 'Order ID': 'O-1', 'Position ID': 'P-1',
+};
+
+test('Quantower fingerprint matches the trades panel export', () => {
+  assert.equal(headerConfidence(quantowerTrades.fingerprint, HEADERS).confidence, 1);
+});
+
+test('Trades rows report quantity and fees as positive amounts', () => {
+  assert.deepEqual(quantowerTrades.transform(row(TRADE), {}), {
+    symbol: 'MNQZ4', side: 'sell', qty: 2, price: 20100.25,
+    executedAt: new Date('2024-11-04 14:31:00'), fees: 1.24, fillId: 'T-1',
+  });
+  assert.equal(quantowerTrades.transform(row({ ...TRADE, Fee: '' }), {})?.fees, undefined);
+});
+
+test('Trades rows without a side or time are errors', () => {
+  assert.throws(() => quantowerTrades.transform(row({ ...TRADE, Side: '' }), {}), /unknown side/);
+  assert.throws(() => quantowerTrades.transform(row({ ...TRADE, 'Date/Time': 'yesterday' }), {}), /unreadable time "yesterday"/);
+});
@@ -0,0 +1,23 @@
+import type { FillCsvParser } from "./types";
+import { cell, parseAmount, requireAmount, requireTime, requireSymbol, parseFillSide } from "./values";
+
+// Trades panel export: Quantower calls each execution a trade
+export const quantowerTrades: FillCsvParser = {
+  source: 'quantower',
+  name: 'Quantower Trades',
+  kind: 'fills',
+  fingerprint: ['Account', 'Date/Time', 'Symbol', 'Side', 'Quantity', 'Price', 'Gross P/L', 'Fee', 'Net P/L', 'Trade ID', 'Order ID', 'Position ID'],
+  transform(row) {
+    const fee = parseAmount(cell(row, 'Fee'));
+    return {
+      symbol: requireSymbol(row, 'Symbol'),
+      side: parseFillSide(cell(row, 'Side')),
+      qty: Math.abs(requireAmount(row, 'Quantity')),
+      price: requireAmount(row, 'Price'),
+      executedAt: requireTime(row, 'Date/Time'),
+      // Fees are reported as negative amounts
+      fees: fee !== undefined ? Math.abs(fee) : undefined,
+      fillId: cell(row, 'Trade ID') || undefined,
+    };
+  },
+};
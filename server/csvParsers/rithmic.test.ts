@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rithmicOrderHistory } from "./rithmic";
+import { headerConfidence } from "./index";
+
+const HEADERS = ['Account', 'Status', 'Buy/Sell', 'Qty To Fill', 'Qty Filled', 'Symbol', 'Exchange', 'Price', 'Avg Fill Price', 'Order Type', 'Create Time', 'Update Time', 'Order Number', 'Commission Fill Rate', 'Text'];
+
+function row(values: Record<string, string>) {
+  return Object.fromEntries(HEADERS.map(header => [header, values[header] ?? '']));
+}
+
+const FILLED = {
+  Account: 'APEX-1234', Status: 'Filled', 'Buy/Sell': 'B', 'Qty To Fill': '0', 'Qty Filled': '3', Symbol: 'MESZ4',
+  Exchange: 'CME', 'Avg Fill Price': '5800.50', 'Order Type': 'Market', 'Create Time': '2024-11-04 14:30:59',
+  'Update Time': '2024-11-04 14:31:00', 'Order Number': '55501', 'Commission Fill Rate': '-0.62',
+};
+
+test('Rithmic fingerprint matches the order history export', () => {
+  assert.equal(headerConfidence(rithmicOrderHistory.fingerprint, HEADERS).confidence, 1);
+});
+
+test('Filled orders become fills with the per-contract rate as fees', () => {
+  const fill = rithmicOrderHistory.transform(row(FILLED), {});
+  assert.equal(fill?.side, 'buy');
+  assert.equal(fill?.qty, 3);
+  assert.equal(fill?.price, 5800.5);
+  assert.ok(Math.abs(fill!.fees! - 1.86) < 1e-9);
+  assert.equal(fill?.fillId, '55501');
+  assert.deepEqual(fill?.executedAt, new Date('2024-11-04 14:31:00'));
+});
+
+test('Working and cancelled orders are skipped', () => {
+  assert.equal(rithmicOrderHistory.transform(row({ ...FILLED, Status: 'Cancelled', 'Qty Filled': '0' }), {}), null);
+  assert.equal(rithmicOrderHistory.transform(row({ ...FILLED, Status: 'Open', 'Qty Filled': '' }), {}), null);
+});
+
+test('Filled orders without a price or side are errors', () => {
+  assert.throws(() => rithmicOrderHistory.transform(row({ ...FILLED, 'Avg Fill Price': '' }), {}), /missing Avg Fill Price/);
+  assert.throws(() => rithmicOrderHistory.transform(row({ ...FILLED, 'Buy/Sell': 'X' }), {}), /unknown side "X"/);
+});
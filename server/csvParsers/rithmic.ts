@@ -0,0 +1,27 @@
+import type { FillCsvParser } from "./types";
+import { cell, parseAmount, requireAmount, requireTime, requireSymbol, parseFillSide } from "./values";
+
+// R|Trader Pro order history. The export starts with a report title line above the
+// header, which the CSV reader skips. Working and cancelled orders have nothing filled.
+export const rithmicOrderHistory: FillCsvParser = {
+  source: 'rithmic-orders',
+  name: 'Rithmic R|Trader Order History',
+  kind: 'fills',
+  fingerprint: ['Account', 'Status', 'Buy/Sell', 'Qty Filled', 'Symbol', 'Exchange', 'Avg Fill Price', 'Order Type', 'Create Time', 'Update Time', 'Order Number'],
+  transform(row) {
+    const filledQty = parseAmount(cell(row, 'Qty Filled'));
+    if (!filledQty || !cell(row, 'Status').toLowerCase().startsWith('fill')) return null;
+
+    // Commission Fill Rate is per contract
+    const rate = parseAmount(cell(row, 'Commission Fill Rate'));
+    return {
+      symbol: requireSymbol(row, 'Symbol'),
+      side: parseFillSide(cell(row, 'Buy/Sell')),
+      qty: filledQty,
+      price: requireAmount(row, 'Avg Fill Price'),
+      executedAt: requireTime(row, 'Update Time'),
+      fees: rate !== undefined ? Math.abs(rate) * filledQty : undefined,
+      fillId: cell(row, 'Order Number') || undefined,
+    };
+  },
+};
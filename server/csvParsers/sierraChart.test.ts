@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { sierraChartTradeActivity } from "./sierraChart";
+import { headerConfidence } from "./index";
+
+const HEADERS = ['ActivityType', 'DateTime', 'TransDateTime', 'Symbol', 'OrderActionSource', 'InternalOrderID', 'ServiceOrderID', 'OrderType', 'Quantity', 'BuySell', 'Price', 'Price2', 'OrderStatus', 'FillPrice', 'FilledQuantity', 'TradeAccount', 'OpenClose', 'ParentInternalOrderID', 'PositionQuantity', 'FillExecutionServiceID'];
+
+function row(values: Record<string, string>) {
+  return Object.fromEntries(HEADERS.map(header => [header, values[header] ?? '']));
+}
+
+const FILL = {
+  ActivityType: 'Fills', DateTime: '2024-11-04 14:31:00', Symbol: 'MNQZ24_FUT_CME', InternalOrderID: '812', Quantity: '2',
+  BuySell: 'Sell', FillPrice: '20100.25', FilledQuantity: '2', TradeAccount: 'Sim1', OpenClose: 'Open', PositionQuantity: '-2',
+  FillExecutionServiceID: 'X77',
+};
+
+test('Sierra Chart fingerprint matches the trade activity log', () => {
+  assert.equal(headerConfidence(sierraChartTradeActivity.fingerprint, HEADERS).confidence, 1);
+});
+
+test('Fills rows strip the data feed suffix or prefix from the symbol', () => {
+  const fill = sierraChartTradeActivity.transform(row(FILL), {});
+  assert.deepEqual(fill, {
+    symbol: 'MNQZ4', side: 'sell', qty: 2, price: 20100.25,
+    executedAt: new Date('2024-11-04 14:31:00'), fillId: 'X77',
+  });
+  assert.equal(sierraChartTradeActivity.transform(row({ ...FILL, Symbol: 'F.US.MNQZ24' }), {})?.symbol, 'MNQZ4');
+  assert.equal(sierraChartTradeActivity.transform(row({ ...FILL, Symbol: 'MNQZ24-CME', FillExecutionServiceID: '' }), {})?.fillId, '812');
+});
+
+test('Order and position rows are skipped', () => {
+  assert.equal(sierraChartTradeActivity.transform(row({ ...FILL, ActivityType: 'Orders' }), {}), null);
+  assert.equal(sierraChartTradeActivity.transform(row({ ...FILL, ActivityType: 'Position' }), {}), null);
+});
+
+test('Fills rows without a symbol or price are errors', () => {
+  assert.throws(() => sierraChartTradeActivity.transform(row({ ...FILL, Symbol: '' }), {}), /missing Symbol/);
+  assert.throws(() => sierraChartTradeActivity.transform(row({ ...FILL, FillPrice: '' }), {}), /missing FillPrice/);
+});
@@ -0,0 +1,30 @@
+import type { FillCsvParser } from "./types";
+import { cell, parseAmount, requireAmount, requireTime, normalizeSymbol, parseFillSide } from "./values";
+
+// Sierra Chart symbols carry the data feed's suffix or prefix: MNQZ24_FUT_CME, F.US.MNQZ24, MNQZ24-CME
+function sierraSymbol(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) throw new Error('missing Symbol');
+  return normalizeSymbol(trimmed.replace(/^F\.US\./i, '').replace(/[_-].*$/, ''));
+}
+
+// Trade Activity Log saved from Trade > Trade Activity Log (tab separated). Only Fills
+// rows are executions; order placements and position updates are skipped.
+export const sierraChartTradeActivity: FillCsvParser = {
+  source: 'sierra-chart',
+  name: 'Sierra Chart Trade Activity Log',
+  kind: 'fills',
+  fingerprint: ['ActivityType', 'DateTime', 'Symbol', 'InternalOrderID', 'Quantity', 'BuySell', 'FillPrice', 'FilledQuantity', 'TradeAccount', 'OpenClose', 'PositionQuantity'],
+  transform(row) {
+    if (cell(row, 'ActivityType').toLowerCase() !== 'fills') return null;
+
+    return {
+      symbol: sierraSymbol(cell(row, 'Symbol')),
+      side: parseFillSide(cell(row, 'BuySell')),
+      qty: parseAmount(cell(row, 'FilledQuantity')) || requireAmount(row, 'Quantity'),
+      price: requireAmount(row, 'FillPrice'),
+      executedAt: requireTime(row, 'DateTime'),
+      fillId: cell(row, 'FillExecutionServiceID') || cell(row, 'InternalOrderID') || undefined,
+    };
+  },
+};
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { tradingViewListOfTrades } from "./tradingView";
+import { headerConfidence } from "./index";
+
+const HEADERS = ['Trade #', 'Type', 'Signal', 'Date/Time', 'Price USD', 'Contracts', 'Profit USD', 'Profit %', 'Cum. Profit USD', 'Cum. Profit %', 'Run-up USD', 'Run-up %', 'Drawdown USD', 'Drawdown %'];
+
+function row(values: Record<string, string>) {
+  return Object.fromEntries(HEADERS.map(header => [header, values[header] ?? '']));
+}
+
+const CONTEXT = { symbol: 'MNQ 12-24' };
+
+test('TradingView fingerprint matches the list of trades export', () => {
+  assert.equal(headerConfidence(tradingViewListOfTrades.fingerprint, HEADERS).confidence, 1);
+});
+
+test('Entry and exit rows become fills on the picked instrument', () => {
+  const entry = tradingViewListOfTrades.transform(row({
+    'Trade #': '3', Type: 'Entry Short', Signal: 'Short', 'Date/Time': '2024-11-04 09:31', 'Price USD': '20110.5', Contracts: '1',
+  }), CONTEXT);
+  const exit = tradingViewListOfTrades.transform(row({
+    'Trade #': '3', Type: 'Exit Short', Signal: 'TP', 'Date/Time': '2024-11-04 09:45', 'Price USD': '20100', Contracts: '1', 'Profit USD': '21',
+  }), CONTEXT);
+  assert.deepEqual(entry, {
+    symbol: 'MNQZ4', side: 'sell', qty: 1, price: 20110.5, executedAt: new Date('2024-11-04 09:31'), fillId: '3:entry',
+  });
+  assert.equal(exit?.side, 'buy');
+  assert.equal(exit?.fillId, '3:exit');
+});
+
+test('Newer exports with renamed columns still read', () => {
+  const headers = ['Trade #', 'Type', 'Signal', 'Date and time', 'Price USD', 'Position size (qty)', 'Net P&L USD'];
+  const fill = tradingViewListOfTrades.transform(Object.fromEntries(headers.map((header, i) =>
+    [header, ['4', 'Entry long', 'Long', '2024-11-05 10:00', '20200', '2', ''][i]])), CONTEXT);
+  assert.equal(fill?.side, 'buy');
+  assert.equal(fill?.qty, 2);
+  assert.deepEqual(fill?.executedAt, new Date('2024-11-05 10:00'));
+});
+
+test('The exit row of a trade still open is skipped', () => {
+  assert.equal(tradingViewListOfTrades.transform(row({
+    'Trade #': '5', Type: 'Exit Long', Signal: 'Open', 'Date/Time': '2024-11-06 15:59', 'Price USD': '20300', Contracts: '1',
+  }), CONTEXT), null);
+});
+
+test('Rows without a picked instrument or with an unknown type are errors', () => {
+  const entry = row({ 'Trade #': '6', Type: 'Entry Long', Signal: 'Long', 'Date/Time': '2024-11-06 10:00', 'Price USD': '20300', Contracts: '1' });
+  assert.throws(() => tradingViewListOfTrades.transform(entry, {}), /no symbol column/);
+  assert.throws(() => tradingViewListOfTrades.transform({ ...entry, Type: 'Reversal' }, CONTEXT), /unknown trade type "Reversal"/);
+});
@@ -0,0 +1,37 @@
+import type { CsvRow } from "../csvImport";
+import type { FillCsvParser } from "./types";
+import { cell, requireAmount, requireTime, normalizeSymbol } from "./values";
+
+// The first of several column names TradingView has used for the same thing
+function firstColumn(row: CsvRow, columns: string[]): string {
+  return columns.find(column => cell(row, column) !== '') ?? columns[0];
+}
+
+// Strategy Tester "List of trades": an entry row and an exit row per trade, and no symbol
+// column, so the instrument is picked at import time. Newer exports renamed a few columns.
+export const tradingViewListOfTrades: FillCsvParser = {
+  source: 'tradingview-strategy',
+  name: 'TradingView Strategy Tester',
+  kind: 'fills',
+  needsSymbol: true,
+  fingerprint: ['Trade #', 'Type', 'Signal', 'Date/Time', 'Price USD', 'Contracts', 'Profit USD', 'Run-up USD', 'Drawdown USD'],
+  transform(row, context) {
+    if (!context.symbol) throw new Error('TradingView strategy exports have no symbol column; pick the instrument to import them as');
+
+    const type = cell(row, 'Type').toLowerCase();
+    const isEntry = type.startsWith('entry');
+    if (!isEntry && !type.startsWith('exit')) throw new Error(`unknown trade type "${cell(row, 'Type')}"`);
+    // The exit row of a trade still open at the end of the test is marked with an Open signal
+    if (!isEntry && cell(row, 'Signal').toLowerCase() === 'open') return null;
+
+    const long = type.endsWith('long');
+    return {
+      symbol: normalizeSymbol(context.symbol),
+      side: isEntry === long ? 'buy' : 'sell',
+      qty: requireAmount(row, firstColumn(row, ['Contracts', 'Position size (qty)', 'Quantity'])),
+      price: requireAmount(row, 'Price USD'),
+      executedAt: requireTime(row, firstColumn(row, ['Date/Time', 'Date and time'])),
+      fillId: `${cell(row, 'Trade #')}:${isEntry ? 'entry' : 'exit'}`,
+    };
+  },
+};
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { tradovatePerformance, tradovateFills, tradovateOrders } from "./tradovate";
+import { headerConfidence } from "./index";
+
+const PERFORMANCE_HEADERS = ['symbol', '_priceFormat', '_priceFormatType', '_tickSize', 'buyFillId', 'sellFillId', 'qty', 'buyPrice', 'sellPrice', 'pnl', 'boughtTimestamp', 'soldTimestamp', 'duration'];
+const FILLS_HEADERS = ['_id', 'Fill ID', 'Order ID', 'Timestamp', 'Date', 'B/S', 'Quantity', 'Price', '_priceFormat', 'Contract', 'Product', 'Product Description', 'commission'];
+const ORDERS_HEADERS = ['orderId', 'Account', 'Order ID', 'B/S', 'Contract', 'Product', 'Product Description', 'avgPrice', 'filledQty', 'Fill Time', 'lastCommandId', 'Status', '_priceFormat', 'Type', 'Limit Price', 'Stop Price', 'Filled Qty', 'Avg Fill Price', 'Timestamp'];
+
+function row(headers: string[], values: Record<string, string>) {
+  return Object.fromEntries(headers.map(header => [header, values[header] ?? '']));
+}
+
+test('Tradovate fingerprints match their own exports', () => {
+  assert.equal(headerConfidence(tradovatePerformance.fingerprint, PERFORMANCE_HEADERS).confidence, 1);
+  assert.equal(headerConfidence(tradovateFills.fingerprint, FILLS_HEADERS).confidence, 1);
+  assert.equal(headerConfidence(tradovateOrders.fingerprint, ORDERS_HEADERS).confidence, 1);
+});
+
+test('Performance rows take the earlier leg as the entry', () => {
+  const long = tradovatePerformance.transform(row(PERFORMANCE_HEADERS, {
+    symbol: 'MNQZ4', buyFillId: '101', sellFillId: '102', qty: '2', buyPrice: '20100.25', sellPrice: '20110.75',
+    pnl: '$42.00', boughtTimestamp: '11/04/2024 09:31:02', soldTimestamp: '11/04/2024 09:40:15',
+  }), {});
+  assert.equal(long?.side, 'long');
+  assert.equal(long?.entryPrice, 20100.25);
+  assert.equal(long?.exitPrice, 20110.75);
+  assert.equal(long?.pnl, 42);
+  assert.equal(long?.brokerExecutionId, '101');
+
+  const short = tradovatePerformance.transform(row(PERFORMANCE_HEADERS, {
+    symbol: 'MNQZ4', buyFillId: '201', sellFillId: '202', qty: '1', buyPrice: '20090', sellPrice: '20100',
+    pnl: '$(20.00)', boughtTimestamp: '11/04/2024 10:05:00', soldTimestamp: '11/04/2024 10:01:00',
+  }), {});
+  assert.equal(short?.side, 'short');
+  assert.equal(short?.entryPrice, 20100);
+  assert.equal(short?.pnl, -20);
+  assert.equal(short?.brokerExecutionId, '202');
+});
+
+test('Performance rows without a timestamp are errors', () => {
+  assert.throws(() => tradovatePerformance.transform(row(PERFORMANCE_HEADERS, {
+    symbol: 'MNQZ4', qty: '1', buyPrice: '20090', sellPrice: '20100', soldTimestamp: '11/04/2024 10:01:00',
+  }), {}), /missing boughtTimestamp/);
+});
+
+test('Fills rows become buy and sell executions', () => {
+  const fill = tradovateFills.transform(row(FILLS_HEADERS, {
+    'Fill ID': '9001', 'Order ID': '8001', Timestamp: '2024-11-04T14:31:02Z', 'B/S': ' Sell', Quantity: '3',
+    Price: '5801.50', Contract: 'ESZ4', Product: 'ES', commission: '3.87',
+  }), {});
+  assert.deepEqual(fill, {
+    symbol: 'ESZ4', side: 'sell', qty: 3, price: 5801.5,
+    executedAt: new Date('2024-11-04T14:31:02Z'), fees: 3.87, fillId: '9001',
+  });
+  assert.throws(() => tradovateFills.transform(row(FILLS_HEADERS, {
+    Timestamp: '2024-11-04T14:31:02Z', 'B/S': 'Hold', Quantity: '3', Price: '5801.50', Contract: 'ESZ4',
+  }), {}), /unknown side/);
+});
+
+test('Orders rows count only what was filled', () => {
+  const filled = tradovateOrders.transform(row(ORDERS_HEADERS, {
+    'Order ID': '8001', 'B/S': 'Buy', Contract: 'MESZ4', Status: 'Filled', 'Filled Qty': '2',
+    'Avg Fill Price': '5800.25', 'Fill Time': '2024-11-04T14:30:00Z',
+  }), {});
+  assert.equal(filled?.side, 'buy');
+  assert.equal(filled?.qty, 2);
+  assert.equal(filled?.fillId, '8001');
+
+  const cancelled = tradovateOrders.transform(row(ORDERS_HEADERS, {
+    'Order ID': '8002', 'B/S': 'Sell', Contract: 'MESZ4', Status: 'Canceled', 'Filled Qty': '0', 'Limit Price': '5810',
+  }), {});
+  assert.equal(cancelled, null);
+
+  assert.throws(() => tradovateOrders.transform(row(ORDERS_HEADERS, {
+    'Order ID': '8003', 'B/S': 'Sell', Contract: 'MESZ4', Status: 'Filled', 'Filled Qty': '1', 'Fill Time': '2024-11-04T14:30:00Z',
+  }), {}), /missing Avg Fill Price/);
+});
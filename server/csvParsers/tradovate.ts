@@ -0,0 +1,70 @@
+import type { TradeCsvParser, FillCsvParser } from "./types";
+import { cell, parseAmount, requireAmount, requireTime, requireSymbol, parseFillSide } from "./values";
+
+// Performance tab export: one row per closed position, both legs on the same row.
+// Whichever leg came first is the entry. P&L is before commissions, which are not in the file.
+export const tradovatePerformance: TradeCsvParser = {
+  source: 'tradovate-performance',
+  name: 'Tradovate Performance',
+  kind: 'trades',
+  fingerprint: ['symbol', 'qty', 'buyPrice', 'sellPrice', 'pnl', 'boughtTimestamp', 'soldTimestamp', 'buyFillId', 'sellFillId'],
+  transform(row) {
+    const bought = requireTime(row, 'boughtTimestamp');
+    const sold = requireTime(row, 'soldTimestamp');
+    const long = bought.getTime() <= sold.getTime();
+    const buyPrice = requireAmount(row, 'buyPrice');
+    const sellPrice = requireAmount(row, 'sellPrice');
+
+    return {
+      symbol: requireSymbol(row, 'symbol'),
+      side: long ? 'long' : 'short',
+      qty: requireAmount(row, 'qty'),
+      entryPrice: long ? buyPrice : sellPrice,
+      exitPrice: long ? sellPrice : buyPrice,
+      entryTime: long ? bought : sold,
+      exitTime: long ? sold : bought,
+      pnl: parseAmount(cell(row, 'pnl')),
+      brokerExecutionId: cell(row, long ? 'buyFillId' : 'sellFillId') || undefined,
+    };
+  },
+};
+
+// Fills export from the Orders module
+export const tradovateFills: FillCsvParser = {
+  source: 'tradovate-fills',
+  name: 'Tradovate Fills',
+  kind: 'fills',
+  fingerprint: ['Fill ID', 'Order ID', 'Timestamp', 'B/S', 'Quantity', 'Price', 'Contract', 'Product'],
+  transform(row) {
+    return {
+      symbol: requireSymbol(row, 'Contract'),
+      side: parseFillSide(cell(row, 'B/S')),
+      qty: requireAmount(row, 'Quantity'),
+      price: requireAmount(row, 'Price'),
+      executedAt: requireTime(row, 'Timestamp'),
+      fees: parseAmount(cell(row, 'commission')),
+      fillId: cell(row, 'Fill ID') || undefined,
+    };
+  },
+};
+
+// Orders export: every order ever placed, so only the filled part of each counts
+export const tradovateOrders: FillCsvParser = {
+  source: 'tradovate-orders',
+  name: 'Tradovate Orders',
+  kind: 'fills',
+  fingerprint: ['Order ID', 'B/S', 'Contract', 'Product', 'Status', 'Type', 'Limit Price', 'Stop Price', 'Filled Qty', 'Avg Fill Price', 'Fill Time'],
+  transform(row) {
+    const filledQty = parseAmount(cell(row, 'Filled Qty'));
+    if (!filledQty) return null;
+
+    return {
+      symbol: requireSymbol(row, 'Contract'),
+      side: parseFillSide(cell(row, 'B/S')),
+      qty: filledQty,
+      price: requireAmount(row, 'Avg Fill Price'),
+      executedAt: requireTime(row, 'Fill Time'),
+      fillId: cell(row, 'Order ID') || undefined,
+    };
+  },
+};
@@ -0,0 +1,44 @@
+import type { CsvRow, ParsedTrade } from "../csvImport";
+
+// One execution from a fill-level export; the importer pairs fills into round trips
+export interface ParsedFill {
+  symbol: string;
+  side: 'buy' | 'sell';
+  qty: number;
+  price: number;
+  executedAt: Date;
+  // Left out when the export has no commission column, so the fee schedule applies
+  fees?: number;
+  // The broker's fill or order id; the opening fill's id becomes the trade's execution id
+  fillId?: string;
+}
+
+export interface ParseContext {
+  // Instrument picked at import time, for exports that do not name one
+  symbol?: string | null;
+}
+
+interface CsvParserBase {
+  // Stored as the import batch's source and on mapping profiles
+  source: string;
+  name: string;
+  // Headers the export always has. Detection confidence is the share of them in the file.
+  fingerprint: string[];
+  // The export has no symbol column; the instrument comes from the import request
+  needsSymbol?: boolean;
+}
+
+// Every row is a finished trade
+export interface TradeCsvParser extends CsvParserBase {
+  kind: 'trades';
+  // null skips a row that is not a trade (a total, a cancelled order); throw for a row that cannot be read
+  transform(row: CsvRow, context: ParseContext): ParsedTrade | null;
+}
+
+// Every row is a fill or a filled order
+export interface FillCsvParser extends CsvParserBase {
+  kind: 'fills';
+  transform(row: CsvRow, context: ParseContext): ParsedFill | null;
+}
+
+export type CsvParser = TradeCsvParser | FillCsvParser;
@@ -0,0 +1,61 @@
+import type { CsvRow } from "../csvImport";
+import { parseContractSymbol, formatContractSymbol } from "@shared/contractRegistry";
+
+// Cell readers shared by the platform parsers. They throw on a value that is present but
+// unreadable, so the importer reports the row instead of importing a zero.
+
+export function cell(row: CsvRow, column: string): string {
+  return (row[column] ?? '').trim();
+}
+
+// $1,234.50, (12.50), $(12.50), -12.5 and 1 234,5 are all amounts; empty cells are undefined
+export function parseAmount(value: string): number | undefined {
+  let cleaned = value.trim().replace(/[$€£\s]/g, '');
+  if (cleaned === '' || cleaned === '-') return undefined;
+
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith('-');
+  cleaned = cleaned.replace(/[()\-+]/g, '');
+  // A lone comma followed by one or two digits is a decimal comma
+  cleaned = /^\d+,\d{1,2}$/.test(cleaned) ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '');
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) throw new Error(`unreadable number "${value}"`);
+  return negative ? -amount : amount;
+}
+
+export function requireAmount(row: CsvRow, column: string): number {
+  const amount = parseAmount(cell(row, column));
+  if (amount === undefined) throw new Error(`missing ${column}`);
+  return amount;
+}
+
+export function parseTime(value: string): Date {
+  const time = new Date(value.trim());
+  if (isNaN(time.getTime())) throw new Error(`unreadable time "${value}"`);
+  return time;
+}
+
+export function requireTime(row: CsvRow, column: string): Date {
+  const value = cell(row, column);
+  if (!value) throw new Error(`missing ${column}`);
+  return parseTime(value);
+}
+
+// Known futures become exchange-style symbols (MNQ 12-24 -> MNQZ4); anything else is just uppercased
+export function normalizeSymbol(value: string): string {
+  const parsed = parseContractSymbol(value);
+  return parsed.spec ? formatContractSymbol(parsed) : value.trim().toUpperCase();
+}
+
+export function requireSymbol(row: CsvRow, column: string): string {
+  const value = cell(row, column);
+  if (!value) throw new Error(`missing ${column}`);
+  return normalizeSymbol(value);
+}
+
+export function parseFillSide(value: string): 'buy' | 'sell' {
+  const lower = value.trim().toLowerCase();
+  if (lower.startsWith('b') || lower.includes('long')) return 'buy';
+  if (lower.startsWith('s') || lower.includes('short')) return 'sell';
+  throw new Error(`unknown side "${value}"`);
+}
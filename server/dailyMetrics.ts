@@ -0,0 +1,297 @@
+import { db } from "./db";
+import { trades, dailyMetrics, tradingAccounts, journalEntries, economicEvents, newsViolations, executions, tradeExecutions, type TradingAccount, type Trade, type NewsViolation } from "@shared/schema";
+import { eq, and, gte, lt, lte, inArray } from "drizzle-orm";
+import { getDrawdownRule, computeDrawdownSeries, type DrawdownPoint } from "./propFirmRules";
+import { findNewsViolations } from "./newsBlackout";
+import { buildRoundTrips, roundTripToTrade, type MatchingMethod } from "./roundTrips";
+import { updateAccountExcursions } from "./marketData";
+import { loadFeeScheduler, withScheduledFees } from "./feeSchedules";
+
+// daily_metrics.stats has been written both as a JSON string and as an object
+export function parseStats(stats: unknown): Record<string, any> {
+  if (typeof stats === 'string') {
+    try {
+      return JSON.parse(stats);
+    } catch {
+      return {};
+    }
+  }
+  return (stats as Record<string, any>) || {};
+}
+
+function nextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+}
+
+export async function recalculateDailyMetrics(userId: string, accountId: string, dates: string[]) {
+  for (const date of dates) {
+    try {
+      // Get all trades for this date
+      const dayTrades = await db
+        .select()
+        .from(trades)
+        .where(
+          and(
+            eq(trades.userId, userId),
+            eq(trades.tradingAccountId, accountId),
+            gte(trades.entryTime, new Date(`${date}T00:00:00Z`)),
+            lt(trades.entryTime, new Date(`${nextDate(date)}T00:00:00Z`))
+          )
+        );
+
+      // Calculate metrics
+      let grossPnl = 0;
+      let netPnl = 0;
+      let winCount = 0;
+      let lossCount = 0;
+
+      for (const trade of dayTrades) {
+        const tradePnl = parseFloat(trade.pnl || '0');
+        const tradeFees = parseFloat(trade.fees || '0');
+
+        grossPnl += tradePnl;
+        netPnl += tradePnl - tradeFees;
+
+        if (tradePnl > 0) winCount++;
+        else if (tradePnl < 0) lossCount++;
+      }
+
+      // Upsert daily metrics
+      const existingMetrics = await db
+        .select()
+        .from(dailyMetrics)
+        .where(
+          and(
+            eq(dailyMetrics.userId, userId),
+            eq(dailyMetrics.tradingAccountId, accountId),
+            eq(dailyMetrics.tradeDate, date)
+          )
+        )
+        .limit(1);
+
+      // Nothing traded and nothing stored. A day emptied by a delete or merge is zeroed below and,
+      // with tradeCount 0, no longer counts as a trading day (isTradingDay)
+      if (dayTrades.length === 0 && existingMetrics.length === 0) continue;
+
+      const metricsData = {
+        userId,
+        tradingAccountId: accountId,
+        tradeDate: date,
+        grossPnl: grossPnl.toString(),
+        netPnl: netPnl.toString(),
+        winCount,
+        lossCount,
+        stats: {
+          ...parseStats(existingMetrics[0]?.stats),
+          tradeCount: dayTrades.length,
+        },
+      };
+
+      if (existingMetrics.length > 0) {
+        await db
+          .update(dailyMetrics)
+          .set(metricsData)
+          .where(eq(dailyMetrics.id, existingMetrics[0].id));
+      } else {
+        await db.insert(dailyMetrics).values(metricsData);
+      }
+    } catch (error) {
+      console.error(`Error recalculating metrics for ${date}:`, error);
+    }
+  }
+
+  // A changed day moves the drawdown threshold for every day after it
+  await updateDrawdownHistory(accountId);
+  await updateNewsViolations(accountId);
+  await updateAccountExcursions(userId, accountId, dates);
+}
+
+// Recompute the trailing drawdown threshold for every day and store it in daily_metrics.stats
+export async function updateDrawdownHistory(accountId: string): Promise<DrawdownPoint[]> {
+  try {
+    const [account] = await db
+      .select()
+      .from(tradingAccounts)
+      .where(eq(tradingAccounts.id, accountId));
+    if (!account) return [];
+
+    const rule = getDrawdownRule(account);
+    if (!rule) return [];
+
+    const [accountTrades, accountDays] = await Promise.all([
+      db.select().from(trades).where(eq(trades.tradingAccountId, accountId)),
+      db.select().from(dailyMetrics).where(eq(dailyMetrics.tradingAccountId, accountId)).orderBy(dailyMetrics.tradeDate),
+    ]);
+
+    const series = computeDrawdownSeries(rule, parseFloat(account.accountSize || '50000'), accountTrades, accountDays);
+    const daysByDate = new Map(accountDays.map(day => [day.tradeDate, day]));
+
+    for (const point of series) {
+      const day = daysByDate.get(point.date);
+      if (!day) continue;
+      const { date, ...drawdown } = point;
+      await db
+        .update(dailyMetrics)
+        .set({ stats: { ...parseStats(day.stats), drawdown } })
+        .where(eq(dailyMetrics.id, day.id));
+    }
+
+    return series;
+  } catch (error) {
+    console.error(`Error updating drawdown history for ${accountId}:`, error);
+    return [];
+  }
+}
+
+// Read the stored threshold series, backfilling days that were written before it existed
+export async function getDrawdownHistory(account: TradingAccount): Promise<DrawdownPoint[]> {
+  const accountDays = await db
+    .select()
+    .from(dailyMetrics)
+    .where(eq(dailyMetrics.tradingAccountId, account.id))
+    .orderBy(dailyMetrics.tradeDate);
+
+  const stored = accountDays.map(day => {
+    const drawdown = parseStats(day.stats).drawdown;
+    return drawdown ? { date: day.tradeDate, ...drawdown } as DrawdownPoint : null;
+  });
+
+  if (stored.every(point => point !== null)) {
+    return stored as DrawdownPoint[];
+  }
+  return updateDrawdownHistory(account.id);
+}
+
+// Re-check every trade of the account against high-impact events and store violations
+// per trade (news_violations) and per day (daily_metrics.stats.news)
+export async function updateNewsViolations(accountId: string): Promise<NewsViolation[]> {
+  try {
+    const [account] = await db
+      .select()
+      .from(tradingAccounts)
+      .where(eq(tradingAccounts.id, accountId));
+    if (!account) return [];
+
+    const [accountTrades, accountDays] = await Promise.all([
+      db.select().from(trades).where(eq(trades.tradingAccountId, accountId)),
+      db.select().from(dailyMetrics).where(eq(dailyMetrics.tradingAccountId, accountId)),
+    ]);
+    if (accountTrades.length === 0) return [];
+
+    // Events are stored in exchange local time, so pad the range by a day on each side
+    const tradeDates = accountTrades.map(t => new Date(t.entryTime).toISOString().split('T')[0]).sort();
+    const firstDate = new Date(`${tradeDates[0]}T00:00:00Z`);
+    firstDate.setUTCDate(firstDate.getUTCDate() - 1);
+    const events = await db
+      .select()
+      .from(economicEvents)
+      .where(
+        and(
+          eq(economicEvents.importance, 'high'),
+          gte(economicEvents.date, firstDate.toISOString().split('T')[0]),
+          lte(economicEvents.date, nextDate(tradeDates[tradeDates.length - 1]))
+        )
+      );
+
+    const violations = findNewsViolations(account, accountTrades, events);
+
+    await db.delete(newsViolations).where(eq(newsViolations.tradingAccountId, accountId));
+    const stored = violations.length > 0
+      ? await db.insert(newsViolations).values(violations).returning()
+      : [];
+
+    for (const day of accountDays) {
+      const dayViolations = stored.filter(v => v.tradeDate === day.tradeDate);
+      await db
+        .update(dailyMetrics)
+        .set({
+          stats: {
+            ...parseStats(day.stats),
+            news: {
+              violations: dayViolations.length,
+              enforced: dayViolations.filter(v => v.enforced).length,
+              tradeIds: Array.from(new Set(dayViolations.map(v => v.tradeId))),
+            },
+          },
+        })
+        .where(eq(dailyMetrics.id, day.id));
+    }
+
+    return stored;
+  } catch (error) {
+    console.error(`Error updating news violations for ${accountId}:`, error);
+    return [];
+  }
+}
+
+// Events are global, so a new one re-checks every account with a trade near its date, whoever owns it
+export async function updateNewsViolationsForDate(date: string): Promise<void> {
+  // Same one-day padding as updateNewsViolations, for events in exchange local time
+  const from = new Date(`${date}T00:00:00Z`);
+  from.setUTCDate(from.getUTCDate() - 1);
+  const to = new Date(`${nextDate(nextDate(date))}T00:00:00Z`);
+
+  const accounts = await db
+    .selectDistinct({ tradingAccountId: trades.tradingAccountId })
+    .from(trades)
+    .where(and(gte(trades.entryTime, from), lt(trades.entryTime, to)));
+  for (const { tradingAccountId } of accounts) {
+    await updateNewsViolations(tradingAccountId);
+  }
+}
+
+// Rebuild the account's fill-based trades from its executions. Trades keep their ids across
+// rebuilds (keyed by the opening fill) so journal entries stay attached.
+export async function rebuildTradesFromFills(userId: string, accountId: string): Promise<Trade[]> {
+  const [account] = await db
+    .select()
+    .from(tradingAccounts)
+    .where(eq(tradingAccounts.id, accountId));
+  if (!account) return [];
+
+  const [fills, existing] = await Promise.all([
+    db.select().from(executions).where(eq(executions.tradingAccountId, accountId)),
+    db.select().from(trades).where(and(eq(trades.tradingAccountId, accountId), eq(trades.source, 'fills'))),
+  ]);
+
+  const method = (account.tradeMatching === 'average' ? 'average' : 'fifo') as MatchingMethod;
+  const trips = buildRoundTrips(fills, method);
+  const feesFor = await loadFeeScheduler(accountId);
+  const existingByKey = new Map(existing.map(trade => [trade.externalId, trade]));
+  const dates = new Set(existing.map(trade => new Date(trade.entryTime).toISOString().split('T')[0]));
+
+  const rebuilt: Trade[] = [];
+  for (const trip of trips) {
+    // Fills synced without fee data are charged from the fee schedule instead
+    const values = trip.fees > 0
+      ? roundTripToTrade(userId, accountId, trip)
+      : withScheduledFees({ ...roundTripToTrade(userId, accountId, trip), fees: null }, feesFor);
+    const externalId = `fills:${trip.key}`;
+    const current = existingByKey.get(externalId);
+    const [saved] = current
+      ? await db.update(trades).set(values).where(eq(trades.id, current.id)).returning()
+      : await db.insert(trades).values(values).returning();
+    existingByKey.delete(externalId);
+    rebuilt.push(saved);
+    dates.add(trip.entryTime.toISOString().split('T')[0]);
+
+    await db.delete(tradeExecutions).where(eq(tradeExecutions.tradeId, saved.id));
+    await db.insert(tradeExecutions).values(trip.links.map(link => ({
+      tradeId: saved.id,
+      executionId: link.executionId,
+      role: link.role,
+      qty: link.qty.toString(),
+    })));
+  }
+
+  const stale = Array.from(existingByKey.values()).map(trade => trade.id);
+  if (stale.length > 0) {
+    await db.update(journalEntries).set({ tradeId: null }).where(inArray(journalEntries.tradeId, stale));
+    await db.delete(trades).where(inArray(trades.id, stale));
+  }
+
+  await recalculateDailyMetrics(userId, accountId, Array.from(dates).sort());
+  return rebuilt;
+}
@@ -5,6 +5,7 @@ import { db } from './db';
 import { users, userIngestTokens, trades, journalEntries, dailyMetrics } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
+import { listPropFirms } from '@shared/propFirmRegistry';
 // Note: Would integrate with existing CSV import system
 
 // Multer setup for handling email attachments
@@ -35,23 +36,16 @@ async function resolveUserFromEmail(toAddress: string): Promise<string | null> {
 
 // Helper to extract account tag from email subject
 function extractAccountTag(subject: string): string {
-  // Look for patterns like "Apex PA", "TopStep Eval", "TPT Live"
-  const patterns = [
-    /apex.*pa/i,
-    /apex.*eval/i,
-    /topstep.*pa/i,
-    /topstep.*eval/i,
-    /tpt.*live/i,
-    /take.*profit.*live/i
-  ];
-  
-  for (const pattern of patterns) {
-    if (pattern.test(subject)) {
-      if (/apex.*pa/i.test(subject)) return 'apex-pa';
-      if (/apex.*eval/i.test(subject)) return 'apex-eval';
-      if (/topstep.*pa/i.test(subject)) return 'topstep-pa';
-      if (/topstep.*eval/i.test(subject)) return 'topstep-eval';
-      if (/(tpt|take.*profit).*live/i.test(subject)) return 'tpt-live';
+  // Look for patterns like "Apex PA", "TopStep Eval", "TPT Live" using the registry aliases
+  const lowerSubject = subject.toLowerCase();
+
+  for (const firm of listPropFirms()) {
+    for (const alias of firm.aliases) {
+      const aliasIndex = lowerSubject.indexOf(alias);
+      if (aliasIndex === -1) continue;
+
+      const accountType = lowerSubject.slice(aliasIndex + alias.length).match(/\b(pa|eval|live)\b/);
+      if (accountType) return `${firm.aliases[0]}-${accountType[1]}`;
     }
   }
   
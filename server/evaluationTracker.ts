@@ -0,0 +1,140 @@
+import type { TradingAccount, Trade, DailyMetrics } from "@shared/schema";
+import { storage } from "./storage";
+import { getRuleParams, getDrawdownRule, computeDrawdownSeries, isTradingDay } from "./propFirmRules";
+
+export interface EvaluationTrigger {
+  date: string;
+  tradeId: string | null;
+  reason: string;
+}
+
+export interface EvaluationProgress {
+  accountId: string;
+  status: string;
+  profitTarget: number | null;
+  netProfit: number;
+  progressPct: number;
+  daysTraded: number;
+  minTradingDays: number;
+  daysRemaining: number;
+  drawdownBuffer: number | null;
+  outcome: 'passed' | 'failed' | null;
+  trigger: EvaluationTrigger | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function lastTradeOfDay(accountTrades: Trade[], date: string): Trade | undefined {
+  return accountTrades
+    .filter(t => new Date(t.entryTime).toISOString().split('T')[0] === date)
+    .sort((a, b) => new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime())
+    .pop();
+}
+
+// Replay the evaluation day by day to find the first day it was passed or failed
+export function computeEvaluationProgress(
+  account: TradingAccount,
+  accountTrades: Trade[],
+  accountDays: DailyMetrics[]
+): EvaluationProgress {
+  const accountSize = parseFloat(account.accountSize || '50000');
+  const params = getRuleParams(account.propFirm, account.accountType, accountSize);
+  const profitTarget = params?.profitTarget ?? null;
+  const minTradingDays = params?.minTradingDays ?? 0;
+
+  const days = [...accountDays].sort((a, b) => a.tradeDate.localeCompare(b.tradeDate));
+  const drawdownRule = getDrawdownRule(account);
+  const series = drawdownRule ? computeDrawdownSeries(drawdownRule, accountSize, accountTrades, days) : [];
+  const seriesByDate = new Map(series.map(point => [point.date, point]));
+
+  let outcome: EvaluationProgress['outcome'] = null;
+  let trigger: EvaluationTrigger | null = null;
+  let cumulative = 0;
+  let traded = 0;
+
+  for (const day of days) {
+    cumulative += parseFloat(day.netPnl);
+    if (isTradingDay(day)) traded++;
+
+    const point = seriesByDate.get(day.tradeDate);
+    if (point?.breached) {
+      outcome = 'failed';
+      trigger = {
+        date: day.tradeDate,
+        tradeId: point.breachTradeId ?? lastTradeOfDay(accountTrades, day.tradeDate)?.id ?? null,
+        reason: `Balance $${point.endBalance.toLocaleString()} fell through the $${point.threshold.toLocaleString()} drawdown threshold`,
+      };
+      break;
+    }
+
+    if (profitTarget !== null && cumulative >= profitTarget && traded >= minTradingDays) {
+      outcome = 'passed';
+      trigger = {
+        date: day.tradeDate,
+        tradeId: lastTradeOfDay(accountTrades, day.tradeDate)?.id ?? null,
+        reason: `Profit target of $${profitTarget.toLocaleString()} reached after ${traded} trading days`,
+      };
+      break;
+    }
+  }
+
+  const netProfit = days.reduce((sum, day) => sum + parseFloat(day.netPnl), 0);
+  const daysTraded = days.filter(isTradingDay).length;
+  const latest = series[series.length - 1];
+
+  return {
+    accountId: account.id,
+    status: account.status || 'active',
+    profitTarget,
+    netProfit: round2(netProfit),
+    progressPct: profitTarget ? round2(Math.min(100, Math.max(0, (netProfit / profitTarget) * 100))) : 0,
+    daysTraded,
+    minTradingDays,
+    daysRemaining: Math.max(0, minTradingDays - daysTraded),
+    drawdownBuffer: latest ? latest.buffer : null,
+    outcome,
+    trigger,
+  };
+}
+
+// Move an active eval account to passed/failed and record why. Called whenever trades land.
+export async function updateEvaluationStatus(accountId: string, source: string): Promise<EvaluationProgress | null> {
+  try {
+    const account = await storage.getTradingAccount(accountId);
+    if (!account || account.accountType !== 'eval') return null;
+
+    const [accountTrades, accountDays] = await Promise.all([
+      storage.getTradesForAccount(accountId),
+      storage.getDailyMetrics(account.userId, accountId),
+    ]);
+    const progress = computeEvaluationProgress(account, accountTrades, accountDays);
+
+    const currentStatus = account.status || 'active';
+    if (currentStatus === 'active' && progress.outcome && progress.trigger) {
+      await storage.updateTradingAccount(accountId, { status: progress.outcome });
+      await storage.createAccountStatusChange({
+        userId: account.userId,
+        tradingAccountId: accountId,
+        fromStatus: currentStatus,
+        toStatus: progress.outcome,
+        reason: progress.trigger.reason,
+        triggerTradeId: progress.trigger.tradeId,
+        triggerDate: progress.trigger.date,
+        source,
+        details: {
+          netProfit: progress.netProfit,
+          progressPct: progress.progressPct,
+          daysTraded: progress.daysTraded,
+        },
+      });
+      progress.status = progress.outcome;
+    }
+
+    return progress;
+  } catch (error) {
+    console.error(`Error updating evaluation status for ${accountId}:`, error);
+    return null;
+  }
+}
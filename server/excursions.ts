@@ -0,0 +1,61 @@
+import type { Trade, OhlcBar } from "@shared/schema";
+import { dollarsPerPoint } from "@shared/tradePnl";
+
+export interface TradeExcursion {
+  // Most the position was up and down while open, in dollars
+  mfe: number;
+  mae: number;
+  // Best price reachable before the actual exit
+  bestExitPrice: number;
+  timeToMfeSec: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Bars are 1-minute and sorted by time. The entry bar counts in full, so an excursion can
+// include a few seconds before the fill; bars opening at or after the exit are ignored.
+export function computeExcursion(trade: Trade, bars: OhlcBar[]): TradeExcursion | null {
+  if (!trade.exitTime) return null;
+  const pointValue = dollarsPerPoint(trade.symbol, parseFloat(trade.exitPrice || trade.entryPrice), trade.assetClass, trade.quoteToUsd);
+  if (pointValue === null) return null;
+
+  const entryTime = new Date(trade.entryTime).getTime();
+  const exitTime = new Date(trade.exitTime).getTime();
+  const entryMinute = Math.floor(entryTime / 60000) * 60000;
+  const held = bars.filter(bar => {
+    const time = new Date(bar.barTime).getTime();
+    return time >= entryMinute && (time < exitTime || time === entryMinute);
+  });
+  if (held.length === 0) return null;
+
+  const entry = parseFloat(trade.entryPrice);
+  const size = parseFloat(trade.qty) * pointValue;
+  const isLong = trade.side === 'long';
+
+  let bestPrice = isLong ? -Infinity : Infinity;
+  let worstPrice = isLong ? Infinity : -Infinity;
+  let bestTime = entryTime;
+  for (const bar of held) {
+    const high = parseFloat(bar.high);
+    const low = parseFloat(bar.low);
+    const favorable = isLong ? high : low;
+    const adverse = isLong ? low : high;
+    if (isLong ? favorable > bestPrice : favorable < bestPrice) {
+      bestPrice = favorable;
+      bestTime = new Date(bar.barTime).getTime();
+    }
+    if (isLong ? adverse < worstPrice : adverse > worstPrice) {
+      worstPrice = adverse;
+    }
+  }
+
+  const direction = isLong ? 1 : -1;
+  return {
+    mfe: round2(Math.max(0, (bestPrice - entry) * direction) * size),
+    mae: round2(Math.max(0, (entry - worstPrice) * direction) * size),
+    bestExitPrice: bestPrice,
+    timeToMfeSec: Math.max(0, Math.round((bestTime - entryTime) / 1000)),
+  };
+}
@@ -0,0 +1,155 @@
+import { db } from "./db";
+import { feeSchedules, tradingAccounts, type FeeSchedule, type TradingAccount, type Trade } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { contractRoot } from "@shared/contractRegistry";
+import { assetClassOf, type AssetClass } from "@shared/instrumentRegistry";
+
+// Fees a schedule charges for one round trip, kept in trades.stats.feeBreakdown
+export interface FeeBreakdown {
+  scheduleId: string;
+  commission: number;
+  exchange: number;
+  nfa: number;
+  platform: number;
+  total: number;
+}
+
+export interface FeeDrag {
+  // Gross P&L of winning trades, before fees
+  grossProfit: number;
+  fees: number;
+  // Fees as a percentage of gross profit; null without winners
+  dragPct: number | null;
+  // Only trades whose fees came from a schedule can be broken down
+  byComponent: { commission: number; exchange: number; nfa: number; platform: number };
+}
+
+// The parts of a trade a schedule needs; crypto fees are priced off the notional
+export interface ScheduledTrade {
+  symbol: string;
+  qty: string;
+  entryPrice?: string | null;
+  exitPrice?: string | null;
+  assetClass?: AssetClass | null;
+  fees?: string | null;
+  // stats.liquidity === 'maker' charges the maker rate; anything else pays taker
+  stats?: unknown;
+}
+
+export type FeeScheduler = (trade: ScheduledTrade) => FeeBreakdown | null;
+
+// Entry and exit
+const SIDES_PER_TRADE = 2;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function hasFees(fees: string | number | null | undefined): boolean {
+  return fees !== null && fees !== undefined && fees !== '';
+}
+
+// An account-specific schedule beats a firm-wide one, and a contract-specific one beats
+// "all contracts" at the same level. Schedules naming another account, firm or root never apply.
+export function resolveFeeSchedule(schedules: FeeSchedule[], account: TradingAccount, root: string): FeeSchedule | null {
+  let best: FeeSchedule | null = null;
+  let bestScore = -1;
+  for (const schedule of schedules) {
+    if (schedule.tradingAccountId && schedule.tradingAccountId !== account.id) continue;
+    if (schedule.propFirm && schedule.propFirm !== account.propFirm) continue;
+    if (schedule.root && schedule.root !== root) continue;
+
+    const score = (schedule.tradingAccountId ? 4 : 0) + (schedule.propFirm ? 2 : 0) + (schedule.root ? 1 : 0);
+    if (score > bestScore) {
+      best = schedule;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function computeScheduledFees(schedule: FeeSchedule, trade: ScheduledTrade): FeeBreakdown {
+  const qty = parseFloat(trade.qty);
+  const contractSides = qty * SIDES_PER_TRADE;
+  let commission = parseFloat(schedule.commissionPerSide) * contractSides;
+
+  if ((trade.assetClass ?? assetClassOf(trade.symbol)) === 'crypto' && trade.entryPrice) {
+    const entryPrice = parseFloat(trade.entryPrice);
+    const exitPrice = trade.exitPrice ? parseFloat(trade.exitPrice) : entryPrice;
+    const isMaker = (trade.stats as { liquidity?: string } | null)?.liquidity === 'maker';
+    const ratePct = parseFloat(isMaker ? schedule.makerFeePct : schedule.takerFeePct);
+    commission += qty * (entryPrice + exitPrice) * ratePct / 100;
+  }
+  commission = round2(commission);
+  const exchange = round2(parseFloat(schedule.exchangeFeePerSide) * contractSides);
+  const nfa = round2(parseFloat(schedule.nfaFeePerSide) * contractSides);
+  const platform = round2(parseFloat(schedule.platformFeePerSide) * contractSides);
+  return {
+    scheduleId: schedule.id,
+    commission,
+    exchange,
+    nfa,
+    platform,
+    total: round2(commission + exchange + nfa + platform),
+  };
+}
+
+// Loads the account's schedules once so bulk imports do not query per row
+export async function loadFeeScheduler(accountId: string): Promise<FeeScheduler> {
+  const [account] = await db.select().from(tradingAccounts).where(eq(tradingAccounts.id, accountId));
+  if (!account) return () => null;
+
+  const schedules = await db.select().from(feeSchedules).where(eq(feeSchedules.userId, account.userId));
+  return (trade) => {
+    const schedule = resolveFeeSchedule(schedules, account, contractRoot(trade.symbol));
+    return schedule ? computeScheduledFees(schedule, trade) : null;
+  };
+}
+
+// Fills in fees for a trade whose source had none. Fees the source did report are kept.
+export function withScheduledFees<T extends ScheduledTrade>(
+  trade: T,
+  feesFor: FeeScheduler
+): T {
+  if (hasFees(trade.fees)) return trade;
+
+  const feeBreakdown = feesFor(trade);
+  if (!feeBreakdown) return { ...trade, fees: '0' };
+  return {
+    ...trade,
+    fees: feeBreakdown.total.toString(),
+    stats: { ...((trade.stats as Record<string, unknown>) || {}), feeBreakdown },
+  };
+}
+
+export function computeFeeDrag(trades: Trade[]): FeeDrag {
+  const byComponent = { commission: 0, exchange: 0, nfa: 0, platform: 0 };
+  let grossProfit = 0;
+  let fees = 0;
+
+  for (const trade of trades) {
+    const pnl = parseFloat(trade.pnl || '0');
+    if (pnl > 0) grossProfit += pnl;
+    fees += parseFloat(trade.fees || '0');
+
+    const breakdown = (trade.stats as { feeBreakdown?: FeeBreakdown } | null)?.feeBreakdown;
+    if (breakdown) {
+      byComponent.commission += breakdown.commission;
+      byComponent.exchange += breakdown.exchange;
+      byComponent.nfa += breakdown.nfa;
+      byComponent.platform += breakdown.platform;
+    }
+  }
+
+  return {
+    grossProfit: round2(grossProfit),
+    fees: round2(fees),
+    dragPct: grossProfit > 0 ? round2((fees / grossProfit) * 100) : null,
+    byComponent: {
+      commission: round2(byComponent.commission),
+      exchange: round2(byComponent.exchange),
+      nfa: round2(byComponent.nfa),
+      platform: round2(byComponent.platform),
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { EventEmitter } from "node:events";
+import { nanoid } from "nanoid";
+import type { ImportHooks, ImportProgress, ImportResult } from "./csvImport";
+
+// CSV imports run in the background so a large file does not hold the request open.
+// Progress is pushed to subscribers (the SSE route) and kept in memory for a while
+// after the job ends, so a client that connects late still gets the outcome.
+
+export type ImportJobEvent =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'row-error'; row: number; message: string }
+  | { type: 'done'; result: ImportResult }
+  | { type: 'failed'; message: string };
+
+export interface ImportJob {
+  id: string;
+  userId: string;
+  status: 'running' | 'done' | 'failed';
+  progress: ImportProgress;
+  rowErrors: { row: number; message: string }[];
+  result: ImportResult | null;
+  error: string | null;
+  events: EventEmitter;
+}
+
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+// Replayed to late subscribers; the batch keeps its own copy of the first errors
+const MAX_REPLAYED_ERRORS = 1000;
+
+const jobs = new Map<string, ImportJob>();
+
+export function startImportJob(
+  userId: string,
+  run: (hooks: ImportHooks) => Promise<ImportResult>,
+  cleanup?: () => Promise<void>
+): ImportJob {
+  const job: ImportJob = {
+    id: nanoid(),
+    userId,
+    status: 'running',
+    progress: { processed: 0, inserted: 0, updated: 0, errors: 0 },
+    rowErrors: [],
+    result: null,
+    error: null,
+    events: new EventEmitter(),
+  };
+  jobs.set(job.id, job);
+
+  const emit = (event: ImportJobEvent) => job.events.emit('event', event);
+
+  run({
+    onProgress: (progress) => {
+      job.progress = progress;
+      emit({ type: 'progress', progress });
+    },
+    onRowError: (row, message) => {
+      if (job.rowErrors.length < MAX_REPLAYED_ERRORS) job.rowErrors.push({ row, message });
+      emit({ type: 'row-error', row, message });
+    },
+  })
+    .then((result) => {
+      job.status = 'done';
+      job.result = result;
+      emit({ type: 'done', result });
+    })
+    .catch((error) => {
+      console.error('Import job failed:', error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      emit({ type: 'failed', message: job.error });
+    })
+    .finally(() => {
+      cleanup?.().catch((error) => console.error('Import job cleanup failed:', error));
+      setTimeout(() => jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+    });
+
+  return job;
+}
+
+export function getImportJob(id: string): ImportJob | undefined {
+  return jobs.get(id);
+}
+
+// Replays where the job stands, then forwards new events. Returns the unsubscribe function.
+export function subscribeToImportJob(job: ImportJob, listener: (event: ImportJobEvent) => void): () => void {
+  listener({ type: 'progress', progress: job.progress });
+  for (const { row, message } of job.rowErrors) listener({ type: 'row-error', row, message });
+  if (job.status === 'done') listener({ type: 'done', result: job.result! });
+  if (job.status === 'failed') listener({ type: 'failed', message: job.error! });
+
+  job.events.on('event', listener);
+  return () => {
+    job.events.off('event', listener);
+  };
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { backfillTradeRoots } from "./tradeRoots";
 
 const app = express();
 app.use(express.json());
@@ -39,6 +40,13 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  try {
+    const backfilled = await backfillTradeRoots();
+    if (backfilled > 0) log(`backfilled contract root on ${backfilled} trades`);
+  } catch (error) {
+    console.error("Error backfilling trade roots:", error);
+  }
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,274 @@
+import { db } from "./db";
+import { ohlcBars, trades, type InsertOhlcBar } from "@shared/schema";
+import { eq, and, gte, lte, isNotNull, sql } from "drizzle-orm";
+import { contractRoot } from "@shared/contractRegistry";
+import { zonedTimeToUtc } from "./newsBlackout";
+import { computeExcursion } from "./excursions";
+
+export interface ParsedBar {
+  barTime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+export interface ParsedBarFile {
+  source: 'tradingview' | 'sierra' | 'ninjatrader' | 'custom';
+  // Bar length in minutes, inferred from the spacing of the bars
+  minutes: number;
+  bars: ParsedBar[];
+  errors: string[];
+}
+
+export interface BarImportResult {
+  root: string;
+  timeframe: string;
+  source: string;
+  bars: number;
+  from: string | null;
+  to: string | null;
+  tradesUpdated: number;
+  errors: string[];
+}
+
+const INSERT_CHUNK_SIZE = 1000;
+
+// "2024/11/1" or "2024-11-01" plus "14:30" or "14:30:00.000", read as wall-clock in timeZone
+function wallClockToUtc(dateText: string, timeText: string, timeZone: string): Date | null {
+  const dateMatch = dateText.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  const timeMatch = timeText.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!dateMatch || !timeMatch) return null;
+
+  const pad = (value: string) => value.padStart(2, '0');
+  const wallClock = new Date(
+    `${dateMatch[1]}-${pad(dateMatch[2])}-${pad(dateMatch[3])}T${pad(timeMatch[1])}:${timeMatch[2]}:${timeMatch[3] || '00'}Z`
+  );
+  if (isNaN(wallClock.getTime())) return null;
+  return timeZone === 'UTC' ? wallClock : zonedTimeToUtc(wallClock, timeZone);
+}
+
+function inferMinutes(bars: ParsedBar[]): number {
+  let smallest = Infinity;
+  for (let i = 1; i < bars.length; i++) {
+    const delta = bars[i].barTime.getTime() - bars[i - 1].barTime.getTime();
+    if (delta > 0) smallest = Math.min(smallest, delta);
+  }
+  return isFinite(smallest) ? Math.max(1, Math.round(smallest / 60000)) : 1;
+}
+
+function toBar(time: Date | null, values: string[]): ParsedBar | null {
+  const [open, high, low, close, volume] = values.map(value => parseFloat(value));
+  if (!time || [open, high, low, close].some(isNaN)) return null;
+  return { barTime: time, open, high, low, close, volume: isNaN(volume) ? null : volume };
+}
+
+// Bar exports from TradingView (time,open,high,low,close,Volume; unix seconds or ISO),
+// Sierra Chart (Date, Time, Open, High, Low, Last, Volume, ...) and NinjaTrader
+// (headerless "yyyyMMdd HHmmss;open;high;low;close;volume", stamped at bar close).
+// Times without an offset are read in timeZone.
+export function parseBarFile(text: string, timeZone = 'UTC'): ParsedBarFile {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const bars: ParsedBar[] = [];
+  const errors: string[] = [];
+
+  if (lines.length > 0 && /^\d{8} \d{6};/.test(lines[0])) {
+    for (const line of lines) {
+      const [stamp, ...values] = line.split(';');
+      const [day, clock] = stamp.split(' ');
+      const bar = toBar(wallClockToUtc(
+        `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6, 8)}`,
+        `${clock.slice(0, 2)}:${clock.slice(2, 4)}:${clock.slice(4, 6)}`,
+        timeZone
+      ), values);
+      if (bar) bars.push(bar); else errors.push(`Could not parse bar: ${line}`);
+    }
+    bars.sort((a, b) => a.barTime.getTime() - b.barTime.getTime());
+    const minutes = inferMinutes(bars);
+    // Re-stamp at bar open to match the other sources
+    for (const bar of bars) bar.barTime = new Date(bar.barTime.getTime() - minutes * 60000);
+    return { source: 'ninjatrader', minutes, bars, errors };
+  }
+
+  const headers = (lines[0] || '').split(',').map(header => header.trim().toLowerCase());
+  const column = (...names: string[]) => headers.findIndex(header => names.includes(header));
+  const dateCol = column('date');
+  const timeCol = column('time', 'datetime', 'timestamp');
+  const openCol = column('open');
+  const highCol = column('high');
+  const lowCol = column('low');
+  const closeCol = column('close', 'last');
+  const volumeCol = column('volume');
+  if (timeCol < 0 || openCol < 0 || highCol < 0 || lowCol < 0 || closeCol < 0) {
+    return { source: 'custom', minutes: 1, bars: [], errors: ['Unrecognized bar file: expected time, open, high, low and close columns'] };
+  }
+
+  const source: ParsedBarFile['source'] = dateCol >= 0
+    ? 'sierra'
+    : headers[timeCol] === 'time' ? 'tradingview' : 'custom';
+
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map(cell => cell.trim());
+    let time: Date | null;
+    if (dateCol >= 0) {
+      time = wallClockToUtc(cells[dateCol], cells[timeCol], timeZone);
+    } else if (/^\d+$/.test(cells[timeCol])) {
+      time = new Date(Number(cells[timeCol]) * 1000);
+    } else if (/(Z|[+-]\d{2}:?\d{2})$/.test(cells[timeCol])) {
+      time = new Date(cells[timeCol]);
+    } else {
+      const [day, clock = '00:00'] = cells[timeCol].split(/[T ]/);
+      time = wallClockToUtc(day, clock, timeZone);
+    }
+    if (time && isNaN(time.getTime())) time = null;
+
+    const bar = toBar(time, [cells[openCol], cells[highCol], cells[lowCol], cells[closeCol], volumeCol >= 0 ? cells[volumeCol] : '']);
+    if (bar) bars.push(bar); else errors.push(`Could not parse bar: ${line}`);
+  }
+
+  bars.sort((a, b) => a.barTime.getTime() - b.barTime.getTime());
+  return { source, minutes: inferMinutes(bars), bars, errors };
+}
+
+// Recompute MFE/MAE for the user's closed trades in the product that overlap the given range
+export async function updateExcursions(userId: string, root: string, from: Date, to: Date, accountId?: string): Promise<number> {
+  const conditions = [
+    eq(trades.userId, userId),
+    eq(trades.root, root),
+    isNotNull(trades.exitTime),
+    lte(trades.entryTime, to),
+    gte(trades.exitTime, from),
+  ];
+  if (accountId) {
+    conditions.push(eq(trades.tradingAccountId, accountId));
+  }
+
+  const [rootTrades, bars] = await Promise.all([
+    db.select()
+      .from(trades)
+      .where(and(...conditions)),
+    db.select()
+      .from(ohlcBars)
+      .where(and(
+        eq(ohlcBars.userId, userId),
+        eq(ohlcBars.root, root),
+        eq(ohlcBars.timeframe, '1m'),
+        gte(ohlcBars.barTime, new Date(from.getTime() - 24 * 60 * 60 * 1000)),
+        lte(ohlcBars.barTime, new Date(to.getTime() + 24 * 60 * 60 * 1000))
+      ))
+      .orderBy(ohlcBars.barTime),
+  ]);
+
+  let updated = 0;
+  for (const trade of rootTrades) {
+    const excursion = computeExcursion(trade, bars);
+    if (!excursion) continue;
+
+    await db.update(trades)
+      .set({
+        mfe: excursion.mfe.toString(),
+        mae: excursion.mae.toString(),
+        bestExitPrice: excursion.bestExitPrice.toString(),
+        timeToMfeSec: excursion.timeToMfeSec,
+      })
+      .where(eq(trades.id, trade.id));
+    updated++;
+  }
+  return updated;
+}
+
+// Trades that arrive after their bars were uploaded pick up excursions on recalculation
+export async function updateAccountExcursions(userId: string, accountId: string, dates: string[]): Promise<number> {
+  if (dates.length === 0) return 0;
+  const sorted = [...dates].sort();
+  const from = new Date(`${sorted[0]}T00:00:00Z`);
+  const to = new Date(new Date(`${sorted[sorted.length - 1]}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000);
+
+  try {
+    const roots = await db
+      .selectDistinct({ root: trades.root })
+      .from(trades)
+      .where(and(
+        eq(trades.tradingAccountId, accountId),
+        isNotNull(trades.root),
+        gte(trades.entryTime, from),
+        lte(trades.entryTime, to)
+      ));
+
+    let updated = 0;
+    for (const { root } of roots) {
+      if (root) updated += await updateExcursions(userId, root, from, to, accountId);
+    }
+    return updated;
+  } catch (error) {
+    console.error(`Error updating excursions for ${accountId}:`, error);
+    return 0;
+  }
+}
+
+export async function importBars(userId: string, symbol: string, text: string, timeZone = 'UTC', timeframe?: string): Promise<BarImportResult> {
+  const root = contractRoot(symbol);
+  const parsed = parseBarFile(text, timeZone);
+  const frame = timeframe || `${parsed.minutes}m`;
+
+  const rows: InsertOhlcBar[] = parsed.bars.map(bar => ({
+    userId,
+    root,
+    timeframe: frame,
+    barTime: bar.barTime,
+    open: bar.open.toString(),
+    high: bar.high.toString(),
+    low: bar.low.toString(),
+    close: bar.close.toString(),
+    volume: bar.volume !== null ? bar.volume.toString() : null,
+    source: parsed.source,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await db.insert(ohlcBars)
+      .values(rows.slice(i, i + INSERT_CHUNK_SIZE))
+      .onConflictDoUpdate({
+        target: [ohlcBars.userId, ohlcBars.root, ohlcBars.timeframe, ohlcBars.barTime],
+        set: {
+          open: sql`excluded.open`,
+          high: sql`excluded.high`,
+          low: sql`excluded.low`,
+          close: sql`excluded.close`,
+          volume: sql`excluded.volume`,
+          source: sql`excluded.source`,
+        },
+      });
+  }
+
+  const first = parsed.bars[0]?.barTime ?? null;
+  const last = parsed.bars[parsed.bars.length - 1]?.barTime ?? null;
+  const tradesUpdated = first && last && frame === '1m'
+    ? await updateExcursions(userId, root, first, new Date(last.getTime() + 60000))
+    : 0;
+
+  return {
+    root,
+    timeframe: frame,
+    source: parsed.source,
+    bars: rows.length,
+    from: first?.toISOString() ?? null,
+    to: last?.toISOString() ?? null,
+    tradesUpdated,
+    errors: parsed.errors.slice(0, 20),
+  };
+}
+
+export async function getBarCoverage(userId: string): Promise<{ root: string; timeframe: string; bars: number; from: Date; to: Date }[]> {
+  return await db
+    .select({
+      root: ohlcBars.root,
+      timeframe: ohlcBars.timeframe,
+      bars: sql<number>`count(*)::int`,
+      from: sql<Date>`min(${ohlcBars.barTime})`,
+      to: sql<Date>`max(${ohlcBars.barTime})`,
+    })
+    .from(ohlcBars)
+    .where(eq(ohlcBars.userId, userId))
+    .groupBy(ohlcBars.root, ohlcBars.timeframe);
+}
@@ -0,0 +1,91 @@
+import type { TradingAccount, Trade, EconomicEvent, InsertNewsViolation } from "@shared/schema";
+import type { NewsBlackoutRule } from "@shared/propFirmRegistry";
+import { getNewsBlackoutRule } from "@shared/propFirmRegistry";
+
+// Coaching window (stay flat 3 minutes before to 5 minutes after CPI, FOMC, NFP) used
+// when the account's firm has no news rule of its own. Violations of it are advisory.
+export const DEFAULT_NEWS_WINDOW: NewsBlackoutRule = { minutesBefore: 3, minutesAfter: 5 };
+
+export interface NewsWindow {
+  rule: NewsBlackoutRule;
+  enforced: boolean;
+}
+
+export function resolveNewsWindow(account: TradingAccount): NewsWindow {
+  const rule = getNewsBlackoutRule(account.propFirm, account.accountType);
+  return rule ? { rule, enforced: true } : { rule: DEFAULT_NEWS_WINDOW, enforced: false };
+}
+
+// Offset of a time zone from UTC at a given instant, in milliseconds
+function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - instant.getTime();
+}
+
+// Convert a wall-clock time (given as if it were UTC) in a time zone to the real UTC instant
+export function zonedTimeToUtc(wallClock: Date, timeZone: string): Date {
+  try {
+    const offset = timeZoneOffsetMs(wallClock, timeZone);
+    // Re-check the offset at the corrected instant so DST transitions land on the right side
+    return new Date(wallClock.getTime() - timeZoneOffsetMs(new Date(wallClock.getTime() - offset), timeZone));
+  } catch {
+    return wallClock;
+  }
+}
+
+// Event date/time are stored as wall-clock values in the event's time zone
+export function eventTimeUtc(event: EconomicEvent): Date | null {
+  if (!event.time) return null;
+  const wallClock = new Date(`${event.date}T${event.time.length === 5 ? `${event.time}:00` : event.time}Z`);
+  if (isNaN(wallClock.getTime())) return null;
+
+  return zonedTimeToUtc(wallClock, event.timezone || 'America/New_York');
+}
+
+// A trade violates the window when any part of its holding period overlaps it
+export function findNewsViolations(
+  account: TradingAccount,
+  accountTrades: Trade[],
+  events: EconomicEvent[]
+): InsertNewsViolation[] {
+  const { rule, enforced } = resolveNewsWindow(account);
+  const windows = events
+    .filter(event => event.importance === 'high')
+    .map(event => ({ event, time: eventTimeUtc(event) }))
+    .filter((w): w is { event: EconomicEvent; time: Date } => w.time !== null)
+    .map(w => ({
+      ...w,
+      start: w.time.getTime() - rule.minutesBefore * 60000,
+      end: w.time.getTime() + rule.minutesAfter * 60000,
+    }));
+
+  const violations: InsertNewsViolation[] = [];
+  for (const trade of accountTrades) {
+    const opened = new Date(trade.entryTime).getTime();
+    const closed = new Date(trade.exitTime || trade.entryTime).getTime();
+
+    for (const window of windows) {
+      if (opened > window.end || closed < window.start) continue;
+      violations.push({
+        userId: account.userId,
+        tradingAccountId: account.id,
+        tradeId: trade.id,
+        eventId: window.event.id,
+        tradeDate: new Date(trade.entryTime).toISOString().split('T')[0],
+        eventTime: window.time,
+        minutesBefore: rule.minutesBefore,
+        minutesAfter: rule.minutesAfter,
+        enforced,
+      });
+    }
+  }
+
+  return violations;
+}
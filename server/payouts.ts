@@ -0,0 +1,149 @@
+import type { TradingAccount, DailyMetrics, Payout } from "@shared/schema";
+import { getRuleParams } from "./propFirmRules";
+
+export interface PayoutCheck {
+  check: 'winningDays' | 'safetyNet' | 'minPayout' | 'daysSinceLastPayout';
+  ok: boolean;
+  message: string;
+}
+
+export interface PayoutEligibility {
+  accountId: string;
+  eligible: boolean;
+  balance: number;
+  withdrawn: number;
+  availableAmount: number;
+  winningDays: number;
+  requiredWinningDays: number;
+  lastPayoutDate: string | null;
+  daysSinceLastPayout: number | null;
+  // Earliest date a payout could be requested if every remaining session is a winning day
+  nextEligibleDate: string | null;
+  checks: PayoutCheck[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.floor((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+// Count forward over weekdays only, since winning days can only happen in sessions
+function addTradingDays(date: string, sessions: number): string {
+  let result = date;
+  let remaining = sessions;
+  while (remaining > 0) {
+    result = addDays(result, 1);
+    const day = new Date(`${result}T00:00:00Z`).getUTCDay();
+    if (day !== 0 && day !== 6) remaining--;
+  }
+  return result;
+}
+
+export function computePayoutEligibility(
+  account: TradingAccount,
+  accountDays: DailyMetrics[],
+  accountPayouts: Payout[],
+  today: string = new Date().toISOString().split('T')[0]
+): PayoutEligibility {
+  const accountSize = parseFloat(account.accountSize || '50000');
+  const rule = getRuleParams(account.propFirm, account.accountType, accountSize)?.payout;
+
+  // Requested payouts are already committed, so only denied ones are given back
+  const activePayouts = accountPayouts.filter(p => p.status !== 'denied');
+  const withdrawn = activePayouts.reduce((sum, p) => sum + parseFloat(p.amount), 0);
+  const netProfit = accountDays.reduce((sum, day) => sum + parseFloat(day.netPnl), 0);
+  const balance = accountSize + netProfit - withdrawn;
+
+  const lastPayoutDate = activePayouts
+    .map(p => p.requestedAt)
+    .sort()
+    .pop() || null;
+  const daysSinceLastPayout = lastPayoutDate ? daysBetween(lastPayoutDate, today) : null;
+
+  if (!rule) {
+    return {
+      accountId: account.id,
+      eligible: false,
+      balance: round2(balance),
+      withdrawn: round2(withdrawn),
+      availableAmount: 0,
+      winningDays: 0,
+      requiredWinningDays: 0,
+      lastPayoutDate,
+      daysSinceLastPayout,
+      nextEligibleDate: null,
+      checks: [],
+    };
+  }
+
+  const winningDays = accountDays.filter(day =>
+    (!lastPayoutDate || day.tradeDate > lastPayoutDate) && parseFloat(day.netPnl) >= rule.winningDayMin
+  ).length;
+
+  let availableAmount = Math.max(0, balance - (accountSize + rule.safetyNet));
+  if (rule.maxPayoutPct !== undefined) {
+    availableAmount = Math.min(availableAmount, Math.max(0, balance - accountSize) * rule.maxPayoutPct / 100);
+  }
+  if (rule.maxPayout !== undefined) {
+    availableAmount = Math.min(availableAmount, rule.maxPayout);
+  }
+
+  const checks: PayoutCheck[] = [
+    {
+      check: 'winningDays',
+      ok: winningDays >= rule.minWinningDays,
+      message: `${winningDays} of ${rule.minWinningDays} winning days ($${rule.winningDayMin}+) since last payout`,
+    },
+    {
+      check: 'safetyNet',
+      ok: balance > accountSize + rule.safetyNet,
+      message: `Balance must stay above $${(accountSize + rule.safetyNet).toLocaleString()}`,
+    },
+    {
+      check: 'minPayout',
+      ok: availableAmount >= rule.minPayout,
+      message: `$${round2(availableAmount).toLocaleString()} available (minimum $${rule.minPayout.toLocaleString()})`,
+    },
+    {
+      check: 'daysSinceLastPayout',
+      ok: daysSinceLastPayout === null || daysSinceLastPayout >= rule.minDaysBetween,
+      message: daysSinceLastPayout === null
+        ? 'No previous payout'
+        : `${daysSinceLastPayout} of ${rule.minDaysBetween} days since last payout`,
+    },
+  ];
+  const eligible = checks.every(c => c.ok);
+
+  // Only the calendar and winning-day checks resolve by themselves over time
+  let nextEligibleDate: string | null = null;
+  if (eligible) {
+    nextEligibleDate = today;
+  } else if (checks.filter(c => !c.ok).every(c => c.check === 'winningDays' || c.check === 'daysSinceLastPayout')) {
+    const byWinningDays = addTradingDays(today, Math.max(0, rule.minWinningDays - winningDays));
+    const byCalendar = lastPayoutDate ? addDays(lastPayoutDate, rule.minDaysBetween) : today;
+    nextEligibleDate = byWinningDays > byCalendar ? byWinningDays : byCalendar;
+  }
+
+  return {
+    accountId: account.id,
+    eligible,
+    balance: round2(balance),
+    withdrawn: round2(withdrawn),
+    availableAmount: round2(availableAmount),
+    winningDays,
+    requiredWinningDays: rule.minWinningDays,
+    lastPayoutDate,
+    daysSinceLastPayout,
+    nextEligibleDate,
+    checks,
+  };
+}
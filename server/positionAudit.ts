@@ -0,0 +1,134 @@
+import type { TradingAccount, Trade, DailyMetrics } from "@shared/schema";
+import type { RuleParams, ScalingTier } from "@shared/propFirmRegistry";
+import { getPropFirm } from "@shared/propFirmRegistry";
+import { getContract, contractRoot, isMicroContract } from "@shared/contractRegistry";
+
+const DEFAULT_MICROS_PER_MINI = 10;
+
+export interface PositionSizeViolation {
+  time: string;
+  date: string;
+  tradeId: string;
+  symbol: string;
+  // Open size across all symbols, in mini-equivalent contracts
+  openContracts: number;
+  allowed: number;
+  profitAtSessionStart: number;
+  tier: ScalingTier | null;
+}
+
+export interface PositionAudit {
+  accountId: string;
+  microsPerMini: number;
+  maxContracts: number | null;
+  scalingPlan: ScalingTier[] | null;
+  peakOpenContracts: number;
+  peakTime: string | null;
+  // Highest share of the allowed size used at any entry, in percent
+  maxUsagePct: number;
+  // Limit for the next session, based on the current balance
+  currentAllowed: number | null;
+  violations: PositionSizeViolation[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function contractWeight(symbol: string, microsPerMini: number): number {
+  const spec = getContract(contractRoot(symbol));
+  return spec && isMicroContract(spec) ? 1 / microsPerMini : 1;
+}
+
+function tierFor(scalingPlan: ScalingTier[], profit: number): ScalingTier {
+  const tiers = [...scalingPlan].sort((a, b) => a.minProfit - b.minProfit);
+  return tiers.reduce((current, tier) => (profit >= tier.minProfit ? tier : current), tiers[0]);
+}
+
+function allowedContracts(params: RuleParams | null, profit: number): { allowed: number | null; tier: ScalingTier | null } {
+  if (params?.scalingPlan && params.scalingPlan.length > 0) {
+    const tier = tierFor(params.scalingPlan, profit);
+    return { allowed: tier.maxContracts, tier };
+  }
+  return { allowed: params?.maxContracts ?? null, tier: null };
+}
+
+function dateOf(time: Date): string {
+  return time.toISOString().split('T')[0];
+}
+
+// Replay entries and exits in time order, rebuilding the open position and checking it
+// against the tier unlocked by the balance at the start of that session.
+export function auditPositionSizes(
+  account: TradingAccount,
+  params: RuleParams | null,
+  accountTrades: Trade[],
+  accountDays: DailyMetrics[]
+): PositionAudit {
+  const microsPerMini = getPropFirm(account.propFirm)?.microsPerMini ?? DEFAULT_MICROS_PER_MINI;
+
+  const days = [...accountDays].sort((a, b) => a.tradeDate.localeCompare(b.tradeDate));
+  const profitBefore = (date: string) => days
+    .filter(day => day.tradeDate < date)
+    .reduce((sum, day) => sum + parseFloat(day.netPnl), 0);
+
+  // Prop firm contract limits only count futures
+  const events = accountTrades.filter(trade => trade.assetClass === 'futures').flatMap(trade => {
+    const size = parseFloat(trade.qty) * contractWeight(trade.symbol, microsPerMini);
+    const entry = { time: new Date(trade.entryTime), delta: size, trade, isEntry: true };
+    return trade.exitTime
+      ? [entry, { time: new Date(trade.exitTime), delta: -size, trade, isEntry: false }]
+      : [entry];
+  });
+  // Exits before entries at the same instant, so a flip does not count both legs
+  events.sort((a, b) => a.time.getTime() - b.time.getTime() || Number(a.isEntry) - Number(b.isEntry));
+
+  let open = 0;
+  let peakOpenContracts = 0;
+  let peakTime: string | null = null;
+  let maxUsagePct = 0;
+  const violations: PositionSizeViolation[] = [];
+
+  for (const event of events) {
+    open = Math.max(0, open + event.delta);
+    if (!event.isEntry) continue;
+
+    if (open > peakOpenContracts) {
+      peakOpenContracts = open;
+      peakTime = event.time.toISOString();
+    }
+
+    const date = dateOf(event.time);
+    const profit = profitBefore(date);
+    const { allowed, tier } = allowedContracts(params, profit);
+    if (allowed === null) continue;
+
+    maxUsagePct = Math.max(maxUsagePct, (open / allowed) * 100);
+    if (open > allowed + 1e-9) {
+      violations.push({
+        time: event.time.toISOString(),
+        date,
+        tradeId: event.trade.id,
+        symbol: event.trade.symbol,
+        openContracts: round2(open),
+        allowed,
+        profitAtSessionStart: round2(profit),
+        tier,
+      });
+    }
+  }
+
+  const totalProfit = days.reduce((sum, day) => sum + parseFloat(day.netPnl), 0);
+
+  return {
+    accountId: account.id,
+    microsPerMini,
+    maxContracts: params?.maxContracts ?? null,
+    scalingPlan: params?.scalingPlan ?? null,
+    peakOpenContracts: round2(peakOpenContracts),
+    peakTime,
+    maxUsagePct: round2(maxUsagePct),
+    currentAllowed: allowedContracts(params, totalProfit).allowed,
+    violations,
+  };
+}
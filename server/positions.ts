@@ -0,0 +1,152 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import { trades, type Trade } from "@shared/schema";
+import { eq, and, isNull, asc } from "drizzle-orm";
+import { getContract, getTradingHours, contractRoot } from "@shared/contractRegistry";
+import { zonedTimeToUtc } from "./newsBlackout";
+import { applyTradeUpdate, splitTrade, tradeDate } from "./tradeEdits";
+import { recalculateDailyMetrics } from "./dailyMetrics";
+
+// Trades without an exit, grouped per account, contract and direction. TradingView
+// alerts and CSV rows can leave these; fill-built trades stay open until the exit fill
+// is synced and the round trips are rebuilt.
+export interface OpenPosition {
+  tradingAccountId: string;
+  root: string;
+  symbol: string;
+  side: 'long' | 'short';
+  qty: number;
+  averagePrice: number;
+  openedAt: Date;
+  // First session close after the position opened; null for contracts not in the registry
+  sessionClose: Date | null;
+  pastSessionClose: boolean;
+  tradeIds: string[];
+}
+
+export interface PositionExit {
+  symbol: string;
+  // Direction of the position being closed
+  side: 'long' | 'short';
+  qty: number;
+  price: number;
+  time: Date;
+}
+
+export interface PositionCloseResult {
+  closedTradeIds: string[];
+  // Exit size left over once every matching open trade is flat
+  remainingQty: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function wallClockDate(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+}
+
+export function sessionCloseAfter(symbol: string, openedAt: Date): Date | null {
+  const spec = getContract(contractRoot(symbol));
+  const hours = spec && getTradingHours(spec);
+  if (!hours) return null;
+
+  let date = wallClockDate(openedAt, hours.timezone);
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const close = zonedTimeToUtc(new Date(`${date}T${hours.close}:00Z`), hours.timezone);
+    if (close > openedAt) return close;
+    date = new Date(new Date(`${date}T00:00:00Z`).getTime() + DAY_MS).toISOString().split('T')[0];
+  }
+  return null;
+}
+
+export function computeOpenPositions(openTrades: Trade[], now = new Date()): OpenPosition[] {
+  const groups = new Map<string, Trade[]>();
+  for (const trade of openTrades) {
+    if (trade.exitTime !== null) continue;
+    const key = `${trade.tradingAccountId}|${trade.root || trade.symbol}|${trade.side}`;
+    groups.set(key, [...(groups.get(key) || []), trade]);
+  }
+
+  return Array.from(groups.values()).map((group): OpenPosition => {
+    const ordered = [...group].sort((a, b) => new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime());
+    const qty = ordered.reduce((sum, trade) => sum + parseFloat(trade.qty), 0);
+    const cost = ordered.reduce((sum, trade) => sum + parseFloat(trade.qty) * parseFloat(trade.entryPrice), 0);
+    const openedAt = new Date(ordered[0].entryTime);
+    const sessionClose = sessionCloseAfter(ordered[0].symbol, openedAt);
+
+    return {
+      tradingAccountId: ordered[0].tradingAccountId,
+      root: ordered[0].root || ordered[0].symbol,
+      symbol: ordered[ordered.length - 1].symbol,
+      side: ordered[0].side,
+      qty,
+      averagePrice: Math.round((cost / qty) * 10000) / 10000,
+      openedAt,
+      sessionClose,
+      pastSessionClose: sessionClose !== null && now > sessionClose,
+      tradeIds: ordered.map(trade => trade.id),
+    };
+  }).sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime());
+}
+
+// Closes open trades in the exit's product oldest first. A trade larger than what is
+// left of the exit is split so the rest stays open.
+export async function closeOpenPositions(accountId: string, exit: PositionExit): Promise<PositionCloseResult> {
+  const openTrades = await db
+    .select()
+    .from(trades)
+    .where(and(
+      eq(trades.tradingAccountId, accountId),
+      eq(trades.root, contractRoot(exit.symbol)),
+      eq(trades.side, exit.side),
+      isNull(trades.exitTime)
+    ))
+    .orderBy(asc(trades.entryTime));
+
+  const closedTradeIds: string[] = [];
+  const dates = new Set<string>();
+  let remainingQty = exit.qty;
+
+  for (const trade of openTrades) {
+    if (remainingQty <= 0) break;
+    // Rebuilt from fills on every sync; closing them here would be overwritten
+    if (trade.source === 'fills') continue;
+
+    const tradeQty = parseFloat(trade.qty);
+    const exitValues = { exitPrice: exit.price.toString(), exitTime: exit.time };
+    const revision = { userId: trade.userId, tradingAccountId: accountId, tradeId: trade.id, before: trade, source: 'tv' };
+    if (tradeQty <= remainingQty) {
+      const updated = await storage.updateTrade(trade.id, applyTradeUpdate(trade, exitValues));
+      await storage.createTradeRevision({ ...revision, action: 'update', after: updated });
+      remainingQty -= tradeQty;
+    } else {
+      const [closed, rest] = splitTrade(trade, [
+        { qty: remainingQty, exitPrice: exit.price, exitTime: exit.time },
+        { qty: tradeQty - remainingQty, exitPrice: null, exitTime: null },
+      ]);
+      const updated = await storage.updateTrade(trade.id, closed);
+      const remainder = await storage.createTrade(rest);
+
+      // The open remainder stays tagged like the trade it came from
+      const setupIds = (await storage.getTradeSetupLinks(trade.userId))
+        .filter(link => link.tradeId === trade.id)
+        .map(link => link.setupId);
+      if (setupIds.length > 0) await storage.setTradeSetups(remainder.id, setupIds);
+
+      await storage.createTradeRevision({
+        ...revision,
+        action: 'split',
+        after: [updated, remainder],
+        relatedTradeIds: [remainder.id],
+      });
+      remainingQty = 0;
+    }
+    closedTradeIds.push(trade.id);
+    dates.add(tradeDate(trade));
+  }
+
+  if (closedTradeIds.length > 0) {
+    await recalculateDailyMetrics(openTrades[0].userId, accountId, Array.from(dates).sort());
+  }
+  return { closedTradeIds, remainingQty };
+}
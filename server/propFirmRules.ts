@@ -0,0 +1,365 @@
+import type { TradingAccount, Trade, DailyMetrics, NewsViolation } from "@shared/schema";
+import type { DrawdownRule, RuleParams } from "@shared/propFirmRegistry";
+import { getPropFirm } from "@shared/propFirmRegistry";
+import { computeConsistency } from "./consistency";
+import { resolveNewsWindow } from "./newsBlackout";
+import { auditPositionSizes } from "./positionAudit";
+
+export type { DrawdownRule, PayoutRule, RuleParams } from "@shared/propFirmRegistry";
+
+// Rule engine interfaces
+export type RuleStatus = 'pass' | 'warn' | 'breach';
+
+export type RuleKey =
+  | 'dailyLossLimit'
+  | 'drawdown'
+  | 'profitTarget'
+  | 'minTradingDays'
+  | 'consistency'
+  | 'maxContracts'
+  | 'newsBlackout';
+
+export interface RuleSet {
+  propFirm: string;
+  accountType: string;
+  // Keyed by plan size, as in the firm registry
+  plans: Record<string, RuleParams>;
+}
+
+export interface RuleResult {
+  rule: RuleKey;
+  label: string;
+  status: RuleStatus;
+  value: number | null;
+  limit: number | null;
+  message: string;
+}
+
+export interface DrawdownPoint {
+  date: string;
+  startBalance: number;
+  endBalance: number;
+  highWaterMark: number;
+  threshold: number;
+  buffer: number;
+  locked: boolean;
+  breached: boolean;
+  // First closed trade that took the intraday balance through the threshold
+  breachTradeId: string | null;
+}
+
+export interface ComplianceReport {
+  accountId: string;
+  propFirm: string;
+  accountType: string;
+  accountSize: number;
+  balance: number;
+  status: RuleStatus;
+  rules: RuleResult[];
+  evaluatedAt: string;
+}
+
+// Share of a limit that can be used before a rule turns from pass to warn
+const WARN_RATIO = 0.8;
+
+export function getRuleSet(propFirm: string, accountType: string): RuleSet | undefined {
+  const plans = getPropFirm(propFirm)?.plans[accountType];
+  if (!plans) return undefined;
+  return { propFirm, accountType, plans };
+}
+
+// Pick the plan matching the account size, falling back to the closest plan
+export function getRuleParams(propFirm: string, accountType: string, accountSize: number): RuleParams | null {
+  const ruleSet = getRuleSet(propFirm, accountType);
+  if (!ruleSet) return null;
+
+  const sizes = Object.keys(ruleSet.plans).map(Number);
+  if (sizes.length === 0) return null;
+
+  const closest = sizes.reduce((best, size) =>
+    Math.abs(size - accountSize) < Math.abs(best - accountSize) ? size : best
+  );
+  return ruleSet.plans[closest];
+}
+
+function worstStatus(statuses: RuleStatus[]): RuleStatus {
+  if (statuses.includes('breach')) return 'breach';
+  if (statuses.includes('warn')) return 'warn';
+  return 'pass';
+}
+
+function tradeNetPnl(trade: Trade): number {
+  return parseFloat(trade.pnl || '0') - parseFloat(trade.fees || '0');
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function evaluateDailyLossLimit(limit: number, days: DailyMetrics[]): RuleResult {
+  const worstDay = days.reduce<DailyMetrics | null>((worst, day) =>
+    !worst || parseFloat(day.netPnl) < parseFloat(worst.netPnl) ? day : worst, null);
+  const worstLoss = worstDay ? Math.max(0, -parseFloat(worstDay.netPnl)) : 0;
+
+  let status: RuleStatus = 'pass';
+  if (worstLoss >= limit) status = 'breach';
+  else if (worstLoss >= limit * WARN_RATIO) status = 'warn';
+
+  return {
+    rule: 'dailyLossLimit',
+    label: 'Daily Loss Limit',
+    status,
+    value: round2(worstLoss),
+    limit,
+    message: worstDay && worstLoss > 0
+      ? `Worst day ${worstDay.tradeDate}: -$${round2(worstLoss).toLocaleString()} of $${limit.toLocaleString()}`
+      : 'No losing days',
+  };
+}
+
+// Resolve the drawdown rule for an account, falling back to the static maxDrawdown column
+export function getDrawdownRule(account: TradingAccount): DrawdownRule | null {
+  const accountSize = parseFloat(account.accountSize || '50000');
+  const params = getRuleParams(account.propFirm, account.accountType, accountSize);
+  if (params?.drawdown) return params.drawdown;
+  if (account.maxDrawdown) {
+    return { type: 'static', amount: parseFloat(account.maxDrawdown), lockOffset: 0 };
+  }
+  return null;
+}
+
+// Daily metrics bucket trades by entry date, so intraday walks do the same
+function tradeDate(trade: Trade): string {
+  return new Date(trade.entryTime).toISOString().split('T')[0];
+}
+
+// Walk the account day by day, trailing the threshold from the balance high-water mark.
+// Intraday trailing rules also ratchet on every closed trade within the day.
+export function computeDrawdownSeries(
+  rule: DrawdownRule,
+  accountSize: number,
+  accountTrades: Trade[],
+  accountDays: DailyMetrics[]
+): DrawdownPoint[] {
+  const lockLevel = accountSize + rule.lockOffset;
+  const days = [...accountDays].sort((a, b) => a.tradeDate.localeCompare(b.tradeDate));
+  const tradesByDay = new Map<string, Trade[]>();
+  if (rule.type === 'trailing') {
+    const closed = accountTrades
+      .filter(t => t.pnl !== null)
+      .sort((a, b) => new Date(a.exitTime || a.entryTime).getTime() - new Date(b.exitTime || b.entryTime).getTime());
+    for (const trade of closed) {
+      const date = tradeDate(trade);
+      if (!tradesByDay.has(date)) tradesByDay.set(date, []);
+      tradesByDay.get(date)!.push(trade);
+    }
+  }
+
+  let balance = accountSize;
+  let highWaterMark = accountSize;
+  let threshold = accountSize - rule.amount;
+
+  const trail = () => {
+    if (rule.type === 'static') return;
+    threshold = Math.min(Math.max(threshold, highWaterMark - rule.amount), Math.max(threshold, lockLevel));
+  };
+
+  const series: DrawdownPoint[] = [];
+  for (const day of days) {
+    const startBalance = balance;
+    let breached = false;
+    let breachTradeId: string | null = null;
+
+    let running = startBalance;
+    for (const trade of tradesByDay.get(day.tradeDate) || []) {
+      running += tradeNetPnl(trade);
+      if (running <= threshold && !breached) {
+        breached = true;
+        breachTradeId = trade.id;
+      }
+      highWaterMark = Math.max(highWaterMark, running);
+      trail();
+    }
+
+    balance = startBalance + parseFloat(day.netPnl);
+    if (balance <= threshold) breached = true;
+    if (rule.type !== 'static') highWaterMark = Math.max(highWaterMark, balance);
+    trail();
+
+    series.push({
+      date: day.tradeDate,
+      startBalance: round2(startBalance),
+      endBalance: round2(balance),
+      highWaterMark: round2(highWaterMark),
+      threshold: round2(threshold),
+      buffer: round2(balance - threshold),
+      locked: rule.type !== 'static' && threshold >= lockLevel,
+      breached,
+      breachTradeId,
+    });
+  }
+
+  return series;
+}
+
+function evaluateDrawdown(rule: DrawdownRule, accountSize: number, trades: Trade[], days: DailyMetrics[]): RuleResult {
+  const series = computeDrawdownSeries(rule, accountSize, trades, days);
+  const latest = series[series.length - 1];
+  const threshold = latest ? latest.threshold : accountSize - rule.amount;
+  const buffer = latest ? latest.buffer : rule.amount;
+
+  let status: RuleStatus = 'pass';
+  if (series.some(p => p.breached) || buffer <= 0) status = 'breach';
+  else if (buffer <= rule.amount * (1 - WARN_RATIO)) status = 'warn';
+
+  return {
+    rule: 'drawdown',
+    label: rule.type === 'static' ? 'Max Drawdown' : 'Trailing Drawdown',
+    status,
+    value: round2(buffer),
+    limit: round2(threshold),
+    message: `$${round2(Math.max(buffer, 0)).toLocaleString()} left above $${round2(threshold).toLocaleString()} threshold`,
+  };
+}
+
+function evaluateProfitTarget(target: number, netProfit: number): RuleResult {
+  const reached = netProfit >= target;
+  return {
+    rule: 'profitTarget',
+    label: 'Profit Target',
+    status: reached ? 'pass' : 'warn',
+    value: round2(netProfit),
+    limit: target,
+    message: reached
+      ? 'Profit target reached'
+      : `$${round2(target - netProfit).toLocaleString()} to go`,
+  };
+}
+
+// A delete or merge can leave a day with no trades, and a statement import can add one; the
+// row stays for its stats but is not a trading day. Rows written before tradeCount was kept count.
+export function isTradingDay(day: DailyMetrics): boolean {
+  const stats = (typeof day.stats === 'string' ? JSON.parse(day.stats) : day.stats) as { tradeCount?: number } | null;
+  return stats?.tradeCount === undefined || stats.tradeCount > 0;
+}
+
+function evaluateMinTradingDays(minDays: number, days: DailyMetrics[]): RuleResult {
+  const traded = days.filter(isTradingDay).length;
+  return {
+    rule: 'minTradingDays',
+    label: 'Minimum Trading Days',
+    status: traded >= minDays ? 'pass' : 'warn',
+    value: traded,
+    limit: minDays,
+    message: `${traded} of ${minDays} days traded`,
+  };
+}
+
+function evaluateConsistency(pct: number, days: DailyMetrics[]): RuleResult {
+  const report = computeConsistency(days, pct);
+
+  let status: RuleStatus = 'pass';
+  if (report.totalProfit > 0 && !report.withinRule) status = 'breach';
+  else if (report.largestDayPct > pct * WARN_RATIO) status = 'warn';
+
+  return {
+    rule: 'consistency',
+    label: 'Consistency',
+    status,
+    value: report.largestDayPct,
+    limit: pct,
+    message: report.totalProfit > 0
+      ? `Best day is ${report.largestDayPct}% of total profit (max ${pct}%)` +
+        (report.profitNeeded > 0 ? `, $${report.profitNeeded.toLocaleString()} more profit needed` : '')
+      : 'No net profit yet',
+  };
+}
+
+// Checks open size, in mini-equivalents, against the flat limit or the scaling tier
+function evaluateMaxContracts(
+  account: TradingAccount,
+  params: RuleParams,
+  trades: Trade[],
+  days: DailyMetrics[]
+): RuleResult {
+  const audit = auditPositionSizes(account, params, trades, days);
+  const worst = audit.violations.reduce<typeof audit.violations[number] | null>((max, v) =>
+    !max || v.openContracts - v.allowed > max.openContracts - max.allowed ? v : max, null);
+
+  let status: RuleStatus = 'pass';
+  if (worst) status = 'breach';
+  else if (audit.maxUsagePct >= 100) status = 'warn';
+
+  const label = params.scalingPlan ? 'Scaling Plan' : 'Max Contracts';
+  return {
+    rule: 'maxContracts',
+    label,
+    status,
+    value: audit.peakOpenContracts,
+    limit: audit.currentAllowed,
+    message: worst
+      ? `${worst.openContracts} contracts open on ${worst.date}, tier allowed ${worst.allowed}`
+      : `Peak position ${audit.peakOpenContracts} contracts; ${audit.currentAllowed ?? '-'} allowed next session`,
+  };
+}
+
+// Firm news bans breach; trading through the coaching window only warns
+function evaluateNewsBlackout(account: TradingAccount, violations: NewsViolation[]): RuleResult {
+  const { rule, enforced } = resolveNewsWindow(account);
+  const tradeCount = new Set(violations.map(v => v.tradeId)).size;
+  const enforcedCount = new Set(violations.filter(v => v.enforced).map(v => v.tradeId)).size;
+
+  let status: RuleStatus = 'pass';
+  if (enforcedCount > 0) status = 'breach';
+  else if (tradeCount > 0) status = 'warn';
+
+  const window = `${rule.minutesBefore}m before to ${rule.minutesAfter}m after high-impact news`;
+  return {
+    rule: 'newsBlackout',
+    label: enforced ? 'News Blackout' : 'News Window (coaching)',
+    status,
+    value: tradeCount,
+    limit: 0,
+    message: tradeCount > 0
+      ? `${tradeCount} trade${tradeCount === 1 ? '' : 's'} open ${window}`
+      : `No trades open ${window}`,
+  };
+}
+
+export function evaluateCompliance(
+  account: TradingAccount,
+  accountTrades: Trade[],
+  accountDays: DailyMetrics[],
+  accountNewsViolations: NewsViolation[] = []
+): ComplianceReport {
+  const accountSize = parseFloat(account.accountSize || '50000');
+  const params = getRuleParams(account.propFirm, account.accountType, accountSize);
+  const days = [...accountDays].sort((a, b) => a.tradeDate.localeCompare(b.tradeDate));
+  const netProfit = days.reduce((sum, day) => sum + parseFloat(day.netPnl), 0);
+
+  const drawdownRule = getDrawdownRule(account);
+
+  const rules: RuleResult[] = [];
+  if (params?.dailyLossLimit !== undefined) rules.push(evaluateDailyLossLimit(params.dailyLossLimit, days));
+  if (drawdownRule) rules.push(evaluateDrawdown(drawdownRule, accountSize, accountTrades, days));
+  if (params?.profitTarget !== undefined) rules.push(evaluateProfitTarget(params.profitTarget, netProfit));
+  if (params?.minTradingDays !== undefined) rules.push(evaluateMinTradingDays(params.minTradingDays, days));
+  if (params?.consistencyPct !== undefined) rules.push(evaluateConsistency(params.consistencyPct, days));
+  if (params && (params.maxContracts !== undefined || params.scalingPlan)) {
+    rules.push(evaluateMaxContracts(account, params, accountTrades, days));
+  }
+  if (resolveNewsWindow(account).enforced || accountNewsViolations.length > 0) {
+    rules.push(evaluateNewsBlackout(account, accountNewsViolations));
+  }
+
+  return {
+    accountId: account.id,
+    propFirm: account.propFirm,
+    accountType: account.accountType,
+    accountSize,
+    balance: round2(accountSize + netProfit),
+    status: worstStatus(rules.map(r => r.status)),
+    rules,
+    evaluatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,110 @@
+import type { Trade } from "@shared/schema";
+import { realizedR } from "@shared/rMultiple";
+
+export interface RStats {
+  // Trades with a P&L and a known initial risk
+  trades: number;
+  averageR: number;
+  // Win rate x average win in R minus loss rate x average loss in R
+  expectancyR: number;
+  winRate: number;
+  avgWinR: number;
+  avgLossR: number;
+  totalR: number;
+}
+
+export interface RBucket {
+  label: string;
+  from: number | null;
+  to: number | null;
+  count: number;
+}
+
+export interface RGroup extends RStats {
+  key: string;
+  distribution: RBucket[];
+}
+
+export interface RAnalytics {
+  summary: RStats;
+  distribution: RBucket[];
+  byAccount: RGroup[];
+  bySetup: RGroup[];
+  // Closed trades missing a stop or planned risk, so they can be filled in
+  tradesWithoutRisk: number;
+}
+
+// Half-R buckets between these bounds, with open-ended buckets on either side
+const DISTRIBUTION_MIN = -3;
+const DISTRIBUTION_MAX = 5;
+const BUCKET_SIZE = 0.5;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function computeRStats(rValues: number[]): RStats {
+  const wins = rValues.filter(r => r > 0);
+  const losses = rValues.filter(r => r < 0);
+  const totalR = rValues.reduce((sum, r) => sum + r, 0);
+  const avgWinR = wins.length > 0 ? wins.reduce((sum, r) => sum + r, 0) / wins.length : 0;
+  const avgLossR = losses.length > 0 ? losses.reduce((sum, r) => sum + r, 0) / losses.length : 0;
+  const winRate = rValues.length > 0 ? wins.length / rValues.length : 0;
+  const lossRate = rValues.length > 0 ? losses.length / rValues.length : 0;
+
+  return {
+    trades: rValues.length,
+    averageR: rValues.length > 0 ? round2(totalR / rValues.length) : 0,
+    expectancyR: round2(winRate * avgWinR + lossRate * avgLossR),
+    winRate: round2(winRate * 100),
+    avgWinR: round2(avgWinR),
+    avgLossR: round2(avgLossR),
+    totalR: round2(totalR),
+  };
+}
+
+function buildDistribution(rValues: number[]): RBucket[] {
+  const buckets: RBucket[] = [{ label: `< ${DISTRIBUTION_MIN}R`, from: null, to: DISTRIBUTION_MIN, count: 0 }];
+  for (let from = DISTRIBUTION_MIN; from < DISTRIBUTION_MAX; from += BUCKET_SIZE) {
+    buckets.push({ label: `${from}R`, from, to: from + BUCKET_SIZE, count: 0 });
+  }
+  buckets.push({ label: `≥ ${DISTRIBUTION_MAX}R`, from: DISTRIBUTION_MAX, to: null, count: 0 });
+
+  for (const r of rValues) {
+    const bucket = buckets.find(b => (b.from === null || r >= b.from) && (b.to === null || r < b.to));
+    if (bucket) bucket.count++;
+  }
+  return buckets;
+}
+
+function groupStats(entries: { keys: string[]; r: number }[]): RGroup[] {
+  const groups = new Map<string, number[]>();
+  for (const entry of entries) {
+    for (const key of entry.keys) {
+      groups.set(key, [...(groups.get(key) || []), entry.r]);
+    }
+  }
+  return Array.from(groups.entries())
+    .map(([key, rValues]) => ({ key, ...computeRStats(rValues), distribution: buildDistribution(rValues) }))
+    .sort((a, b) => b.expectancyR - a.expectancyR);
+}
+
+// setupNames maps trade ids to the names of their linked setups
+export function computeRAnalytics(trades: Trade[], setupNames: Map<string, string[]> = new Map()): RAnalytics {
+  const closed = trades.filter(trade => trade.exitTime && trade.pnl !== null);
+  const entries = closed
+    .map(trade => ({ trade, r: realizedR(trade) }))
+    .filter((entry): entry is { trade: Trade; r: number } => entry.r !== null);
+  const rValues = entries.map(entry => entry.r);
+
+  return {
+    summary: computeRStats(rValues),
+    distribution: buildDistribution(rValues),
+    byAccount: groupStats(entries.map(entry => ({ keys: [entry.trade.tradingAccountId], r: entry.r }))),
+    bySetup: groupStats(entries.map(entry => {
+      const names = setupNames.get(entry.trade.id) || [];
+      return { keys: names.length > 0 ? names : ['No setup'], r: entry.r };
+    })),
+    tradesWithoutRisk: closed.length - entries.length,
+  };
+}
@@ -0,0 +1,406 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import { trades, dailyMetrics, reconciliationItems, journalEntries, tradeSetups, type Trade, type ReconciliationItem } from "@shared/schema";
+import { eq, and, gte, lt, inArray } from "drizzle-orm";
+import { getContract, contractRoot } from "@shared/contractRegistry";
+import { recalculateDailyMetrics, parseStats } from "./dailyMetrics";
+import { tradeDate } from "./tradeEdits";
+
+// The same trade can arrive from several places: a TradingView alert when it is placed,
+// a forwarded statement email, a CSV export and the broker API. Matching copies are merged
+// into the most authoritative one, so price, fees and P&L always come from the broker.
+
+export type ReconcileSource = 'api' | 'csv' | 'email' | 'tv';
+
+export type DayReconcileStatus = 'pending' | 'reconciled' | 'conflicts';
+
+export interface ReconcileTolerance {
+  // Entry (and exit, when both copies have one) may differ by this much
+  timeSec: number;
+  // Futures price tolerance in ticks; other instruments use pricePct
+  ticks: number;
+  pricePct: number;
+}
+
+// What trades.stats.reconciledFrom records about each copy merged into a row
+export interface ReconciledFrom {
+  tradeId: string;
+  source: ReconcileSource | null;
+  entryPrice: string;
+  entryTime: Date | string;
+  // Links the copy brought along, handed back if the row's import is rolled back
+  journalEntryIds?: string[];
+  setupIds?: string[];
+}
+
+export interface TradeMatch {
+  // The broker's copy, which is kept
+  primary: Trade;
+  secondary: Trade;
+}
+
+export interface TradeMismatch {
+  trade: Trade;
+  candidate: Trade;
+  differences: Record<string, [unknown, unknown]>;
+}
+
+export interface ReconcilePlan {
+  matches: TradeMatch[];
+  mismatches: TradeMismatch[];
+  // No broker record for the trade although a more authoritative source covers the day
+  unmatched: Trade[];
+  // Nothing more authoritative has arrived for the day yet
+  pending: Trade[];
+}
+
+export interface DayReconciliation {
+  status: DayReconcileStatus;
+  sources: ReconcileSource[];
+  merged: number;
+  openItems: number;
+  checkedAt: string;
+}
+
+export const DEFAULT_TOLERANCE: ReconcileTolerance = { timeSec: 180, ticks: 4, pricePct: 0.1 };
+
+// Higher wins: the broker's own records beat statements, statements beat alerts
+const SOURCE_RANK: Record<ReconcileSource, number> = { api: 4, csv: 3, email: 2, tv: 1 };
+// Sources that are the broker's own record; the others wait for one of these
+const BROKER_SOURCES: ReconcileSource[] = ['api', 'csv'];
+
+export function reconcileSourceOf(trade: Trade): ReconcileSource | null {
+  switch (trade.source) {
+    case 'fills':
+    case 'api':
+      return 'api';
+    case 'csv':
+    case 'email':
+    case 'tv':
+      return trade.source;
+    default:
+      // CSV rows imported before trades carried source 'csv'
+      return trade.rowHash ? 'csv' : null;
+  }
+}
+
+// Trades a reviewer chose to keep as they are are left out of later runs
+function isAccepted(trade: Trade): boolean {
+  return (trade.stats as { reconciliation?: { accepted?: boolean } } | null)?.reconciliation?.accepted === true;
+}
+
+function priceTolerance(trade: Trade, price: number, tolerance: ReconcileTolerance): number {
+  const spec = trade.assetClass === 'futures' ? getContract(trade.root || contractRoot(trade.symbol)) : undefined;
+  return spec ? spec.tickSize * tolerance.ticks : Math.abs(price) * tolerance.pricePct / 100;
+}
+
+function secondsApart(a: Date | null, b: Date | null): number {
+  if (!a || !b) return 0;
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 1000;
+}
+
+function compareTrades(trade: Trade, candidate: Trade, tolerance: ReconcileTolerance): Record<string, [unknown, unknown]> {
+  const differences: Record<string, [unknown, unknown]> = {};
+  if (parseFloat(trade.qty) !== parseFloat(candidate.qty)) {
+    differences.qty = [trade.qty, candidate.qty];
+  }
+
+  const entry = parseFloat(candidate.entryPrice);
+  if (Math.abs(parseFloat(trade.entryPrice) - entry) > priceTolerance(candidate, entry, tolerance)) {
+    differences.entryPrice = [trade.entryPrice, candidate.entryPrice];
+  }
+
+  // An alert can still be open when the statement already has the exit; only compare both exits
+  if (trade.exitPrice && candidate.exitPrice) {
+    const exit = parseFloat(candidate.exitPrice);
+    if (Math.abs(parseFloat(trade.exitPrice) - exit) > priceTolerance(candidate, exit, tolerance)) {
+      differences.exitPrice = [trade.exitPrice, candidate.exitPrice];
+    }
+  }
+  if (trade.exitTime && candidate.exitTime && secondsApart(trade.exitTime, candidate.exitTime) > tolerance.timeSec) {
+    differences.exitTime = [trade.exitTime, candidate.exitTime];
+  }
+  return differences;
+}
+
+// Pairs each trade with the most authoritative copy of it on the same day. A broker record
+// absorbs at most one trade per source; among equals the closest entry time wins.
+export function planReconciliation(dayTrades: Trade[], tolerance = DEFAULT_TOLERANCE): ReconcilePlan {
+  const eligible = dayTrades
+    .map(trade => ({ trade, source: reconcileSourceOf(trade) }))
+    .filter((item): item is { trade: Trade; source: ReconcileSource } => item.source !== null && !isAccepted(item.trade));
+
+  const plan: ReconcilePlan = { matches: [], mismatches: [], unmatched: [], pending: [] };
+  const absorbed = new Set<string>();
+  const claimed = new Set<string>();
+
+  const byRank = [...eligible].sort((a, b) => SOURCE_RANK[a.source] - SOURCE_RANK[b.source]);
+  for (const { trade, source } of byRank) {
+    const candidates = eligible
+      .filter(other =>
+        SOURCE_RANK[other.source] > SOURCE_RANK[source] &&
+        !absorbed.has(other.trade.id) &&
+        !claimed.has(`${other.trade.id}|${source}`) &&
+        other.trade.side === trade.side &&
+        (other.trade.root || other.trade.symbol) === (trade.root || trade.symbol) &&
+        secondsApart(other.trade.entryTime, trade.entryTime) <= tolerance.timeSec
+      )
+      .sort((a, b) =>
+        SOURCE_RANK[b.source] - SOURCE_RANK[a.source] ||
+        secondsApart(a.trade.entryTime, trade.entryTime) - secondsApart(b.trade.entryTime, trade.entryTime)
+      );
+
+    const match = candidates.find(other => Object.keys(compareTrades(trade, other.trade, tolerance)).length === 0);
+    if (match) {
+      plan.matches.push({ primary: match.trade, secondary: trade });
+      absorbed.add(trade.id);
+      claimed.add(`${match.trade.id}|${source}`);
+    } else if (candidates.length > 0) {
+      plan.mismatches.push({
+        trade,
+        candidate: candidates[0].trade,
+        differences: compareTrades(trade, candidates[0].trade, tolerance),
+      });
+    } else if (eligible.some(other => SOURCE_RANK[other.source] > SOURCE_RANK[source])) {
+      plan.unmatched.push(trade);
+    } else if (!BROKER_SOURCES.includes(source)) {
+      // Nothing more authoritative has arrived for the day; broker records never wait
+      plan.pending.push(trade);
+    }
+  }
+  return plan;
+}
+
+function dayStatus(plan: ReconcilePlan, openItems: number): DayReconcileStatus {
+  if (openItems > 0) return 'conflicts';
+  if (plan.pending.length > 0) return 'pending';
+  return 'reconciled';
+}
+
+// Folds the alert or statement copy into the broker's row: the broker keeps its prices,
+// fees and P&L, and picks up the planning fields, tags, journal entries and setups.
+export async function mergeIntoPrimary(primary: Trade, secondary: Trade): Promise<Trade> {
+  const primaryStats = (primary.stats as Record<string, any>) || {};
+  const [journalLinks, setupLinks] = await Promise.all([
+    db.select({ id: journalEntries.id }).from(journalEntries).where(eq(journalEntries.tradeId, secondary.id)),
+    db.select({ setupId: tradeSetups.setupId }).from(tradeSetups).where(eq(tradeSetups.tradeId, secondary.id)),
+  ]);
+  const reconciledFrom: ReconciledFrom[] = [
+    ...(primaryStats.reconciledFrom || []),
+    {
+      tradeId: secondary.id,
+      source: reconcileSourceOf(secondary),
+      entryPrice: secondary.entryPrice,
+      entryTime: secondary.entryTime,
+      journalEntryIds: journalLinks.map(link => link.id),
+      setupIds: setupLinks.map(link => link.setupId),
+    },
+  ];
+  const tags = Array.from(new Set([
+    ...(Array.isArray(primary.tags) ? primary.tags : []),
+    ...(Array.isArray(secondary.tags) ? secondary.tags : []),
+  ]));
+
+  const merged = await storage.updateTrade(primary.id, {
+    stopPrice: primary.stopPrice ?? secondary.stopPrice,
+    targetPrice: primary.targetPrice ?? secondary.targetPrice,
+    plannedRisk: primary.plannedRisk ?? secondary.plannedRisk,
+    tags,
+    stats: { ...primaryStats, reconciledFrom },
+  });
+  await storage.moveTradeLinks(secondary.id, primary.id);
+  await storage.deleteTrade(secondary.id);
+
+  await storage.createTradeRevision({
+    userId: primary.userId,
+    tradingAccountId: primary.tradingAccountId,
+    tradeId: primary.id,
+    action: 'merge',
+    before: [primary, secondary],
+    after: merged,
+    relatedTradeIds: [secondary.id],
+    source: 'reconcile',
+  });
+  return merged!;
+}
+
+function nextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+}
+
+async function getDayTrades(accountId: string, date: string): Promise<Trade[]> {
+  return db
+    .select()
+    .from(trades)
+    .where(and(
+      eq(trades.tradingAccountId, accountId),
+      gte(trades.entryTime, new Date(`${date}T00:00:00Z`)),
+      lt(trades.entryTime, new Date(`${nextDate(date)}T00:00:00Z`))
+    ));
+}
+
+async function getDayMetrics(userId: string, accountId: string, date: string) {
+  const [day] = await db
+    .select()
+    .from(dailyMetrics)
+    .where(and(
+      eq(dailyMetrics.userId, userId),
+      eq(dailyMetrics.tradingAccountId, accountId),
+      eq(dailyMetrics.tradeDate, date)
+    ))
+    .limit(1);
+  return day;
+}
+
+// Stores the status in daily_metrics.stats.reconciliation next to drawdown and news
+async function writeDayStatus(userId: string, accountId: string, date: string, reconciliation: DayReconciliation) {
+  const day = await getDayMetrics(userId, accountId, date);
+  if (!day) return;
+  await db
+    .update(dailyMetrics)
+    .set({ stats: { ...parseStats(day.stats), reconciliation } })
+    .where(eq(dailyMetrics.id, day.id));
+}
+
+// Re-runs matching for each day: merges what matches, replaces the day's open review items
+// and records the day's status. Resolved items are left alone.
+export async function reconcileDays(
+  userId: string,
+  accountId: string,
+  dates: string[],
+  tolerance = DEFAULT_TOLERANCE
+): Promise<Record<string, DayReconciliation>> {
+  const results: Record<string, DayReconciliation> = {};
+  const changedDates: string[] = [];
+
+  for (const date of Array.from(new Set(dates)).sort()) {
+    const dayTrades = await getDayTrades(accountId, date);
+    const plan = planReconciliation(dayTrades, tolerance);
+
+    // Re-read both rows: an alert merged into a statement copy first changes that copy
+    for (const match of plan.matches) {
+      const primary = await storage.getTrade(match.primary.id);
+      const secondary = await storage.getTrade(match.secondary.id);
+      if (primary && secondary) await mergeIntoPrimary(primary, secondary);
+    }
+    // Alerts do not recalculate metrics themselves, so their day may have no row yet
+    if (plan.matches.length > 0 || !(await getDayMetrics(userId, accountId, date))) changedDates.push(date);
+
+    await db.delete(reconciliationItems).where(and(
+      eq(reconciliationItems.tradingAccountId, accountId),
+      eq(reconciliationItems.tradeDate, date),
+      eq(reconciliationItems.status, 'open')
+    ));
+    const items = [
+      ...plan.mismatches.map(({ trade, candidate, differences }) => ({
+        userId,
+        tradingAccountId: accountId,
+        tradeDate: date,
+        kind: 'mismatch' as const,
+        tradeId: trade.id,
+        candidateTradeId: candidate.id,
+        differences,
+      })),
+      ...plan.unmatched.map(trade => ({
+        userId,
+        tradingAccountId: accountId,
+        tradeDate: date,
+        kind: 'unmatched' as const,
+        tradeId: trade.id,
+      })),
+    ];
+    if (items.length > 0) await db.insert(reconciliationItems).values(items);
+
+    const sources = Array.from(new Set(dayTrades.map(reconcileSourceOf).filter((s): s is ReconcileSource => s !== null)));
+    results[date] = {
+      status: dayStatus(plan, items.length),
+      sources,
+      merged: plan.matches.length,
+      openItems: items.length,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  // Merges change the day's totals; the status goes in after so the recalculation keeps it
+  if (changedDates.length > 0) {
+    await recalculateDailyMetrics(userId, accountId, changedDates);
+  }
+  for (const [date, reconciliation] of Object.entries(results)) {
+    await writeDayStatus(userId, accountId, date, reconciliation);
+  }
+  return results;
+}
+
+// Dates with trades in [from, to), for re-running a whole range
+export async function reconcileRange(userId: string, accountId: string, from: string, to: string) {
+  const rangeTrades = await db
+    .select({ entryTime: trades.entryTime })
+    .from(trades)
+    .where(and(
+      eq(trades.tradingAccountId, accountId),
+      gte(trades.entryTime, new Date(`${from}T00:00:00Z`)),
+      lt(trades.entryTime, new Date(`${to}T00:00:00Z`))
+    ));
+  return reconcileDays(userId, accountId, rangeTrades.map(tradeDate));
+}
+
+export type ReviewAction = 'merge' | 'keep' | 'delete';
+
+// Settles one review item. 'merge' folds the trade into its candidate despite the
+// differences, 'keep' accepts it as its own trade, 'delete' drops an alert that never filled.
+export async function resolveReconciliationItem(item: ReconciliationItem, action: ReviewAction): Promise<DayReconciliation> {
+  const trade = await storage.getTrade(item.tradeId);
+  if (trade) {
+    if (action === 'merge') {
+      const candidate = item.candidateTradeId ? await storage.getTrade(item.candidateTradeId) : undefined;
+      if (!candidate) throw new Error('Nothing to merge into');
+      await mergeIntoPrimary(candidate, trade);
+    } else if (action === 'delete') {
+      await storage.deleteTrade(trade.id);
+      await storage.createTradeRevision({
+        userId: trade.userId,
+        tradingAccountId: trade.tradingAccountId,
+        tradeId: trade.id,
+        action: 'delete',
+        before: trade,
+        after: null,
+        source: 'reconcile',
+      });
+    } else {
+      const stats = (trade.stats as Record<string, any>) || {};
+      await storage.updateTrade(trade.id, {
+        stats: { ...stats, reconciliation: { ...stats.reconciliation, accepted: true } },
+      });
+    }
+  }
+
+  // A merge or delete removes the trade and cascades the item away; keep marks it resolved
+  await db
+    .update(reconciliationItems)
+    .set({ status: 'resolved', resolution: action === 'merge' ? 'merged' : action === 'keep' ? 'kept' : 'deleted', resolvedAt: new Date() })
+    .where(eq(reconciliationItems.id, item.id));
+
+  await recalculateDailyMetrics(item.userId, item.tradingAccountId, [item.tradeDate]);
+  const results = await reconcileDays(item.userId, item.tradingAccountId, [item.tradeDate]);
+  return results[item.tradeDate];
+}
+
+export async function getReconciliationQueue(userId: string, accountId?: string): Promise<ReconciliationItem[]> {
+  const conditions = [eq(reconciliationItems.userId, userId), eq(reconciliationItems.status, 'open')];
+  if (accountId) conditions.push(eq(reconciliationItems.tradingAccountId, accountId));
+  return db.select().from(reconciliationItems).where(and(...conditions)).orderBy(reconciliationItems.tradeDate);
+}
+
+export async function getReconciliationItem(id: string): Promise<ReconciliationItem | undefined> {
+  const [item] = await db.select().from(reconciliationItems).where(eq(reconciliationItems.id, id));
+  return item;
+}
+
+// The trades an item refers to, for showing both copies side by side
+export async function getItemTrades(items: ReconciliationItem[]): Promise<Trade[]> {
+  const ids = Array.from(new Set(items.flatMap(item => [item.tradeId, item.candidateTradeId].filter((id): id is string => !!id))));
+  if (ids.length === 0) return [];
+  return db.select().from(trades).where(inArray(trades.id, ids));
+}
@@ -0,0 +1,189 @@
+import type { Execution, InsertTrade } from "@shared/schema";
+import { contractRoot } from "@shared/contractRegistry";
+import { assetClassOf } from "@shared/instrumentRegistry";
+import { dollarsPerPoint } from "@shared/tradePnl";
+
+export type MatchingMethod = 'fifo' | 'average';
+
+export interface FillLink {
+  executionId: string;
+  role: 'entry' | 'exit';
+  qty: number;
+}
+
+// One position from flat back to flat. Trades still open at the last fill have no exit.
+export interface RoundTrip {
+  // Id of the fill that opened the position; stable across rebuilds
+  key: string;
+  symbol: string;
+  side: 'long' | 'short';
+  // Total contracts entered, including scale-ins
+  qty: number;
+  entryPrice: number;
+  exitPrice: number | null;
+  entryTime: Date;
+  exitTime: Date | null;
+  // Contracts still held after the last fill
+  openQty: number;
+  fees: number;
+  // Gross P&L realized so far; null when the contract's point value is unknown
+  pnl: number | null;
+  links: FillLink[];
+}
+
+interface Lot {
+  executionId: string;
+  qty: number;
+  price: number;
+}
+
+interface OpenTrip extends RoundTrip {
+  lots: Lot[];
+  // Average cost of the open contracts
+  avgCost: number;
+  realizedPoints: number;
+  entryValue: number;
+  exitValue: number;
+  exitQty: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function finish(trip: OpenTrip): RoundTrip {
+  const exitPrice = trip.exitQty > 0 ? trip.exitValue / trip.exitQty : null;
+  const value = dollarsPerPoint(trip.symbol, exitPrice ?? trip.entryValue / trip.qty);
+  return {
+    key: trip.key,
+    symbol: trip.symbol,
+    side: trip.side,
+    qty: trip.qty,
+    entryPrice: trip.entryValue / trip.qty,
+    exitPrice,
+    entryTime: trip.entryTime,
+    exitTime: trip.openQty === 0 ? trip.exitTime : null,
+    openQty: trip.openQty,
+    fees: round2(trip.fees),
+    pnl: value === null ? null : round2(trip.realizedPoints * value),
+    links: trip.links,
+  };
+}
+
+// Group fills into round trips per contract. A fill that crosses flat closes the current
+// trip and opens the next one with the remainder, so flips show up as two trades sharing a fill.
+// FIFO realizes each exit against the oldest open lots; average cost against the running mean.
+export function buildRoundTrips(fills: Execution[], method: MatchingMethod = 'fifo'): RoundTrip[] {
+  const ordered = [...fills].sort((a, b) =>
+    new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime() || a.id.localeCompare(b.id));
+
+  const open = new Map<string, OpenTrip>();
+  const result: RoundTrip[] = [];
+
+  for (const fill of ordered) {
+    const symbol = fill.symbol.toUpperCase();
+    const qty = parseFloat(fill.qty);
+    const price = parseFloat(fill.price);
+    const time = new Date(fill.executedAt);
+    const feePerContract = qty > 0 ? parseFloat(fill.fees || '0') / qty : 0;
+    const fillSide = fill.side === 'buy' ? 'long' : 'short';
+    let remaining = qty;
+
+    const trip = open.get(symbol);
+    if (trip && trip.side !== fillSide) {
+      const closing = Math.min(remaining, trip.openQty);
+      const direction = trip.side === 'long' ? 1 : -1;
+
+      let toMatch = closing;
+      while (toMatch > 1e-9 && trip.lots.length > 0) {
+        const lot = trip.lots[0];
+        const matched = Math.min(lot.qty, toMatch);
+        if (method === 'fifo') {
+          trip.realizedPoints += (price - lot.price) * matched * direction;
+        }
+        lot.qty -= matched;
+        toMatch -= matched;
+        if (lot.qty <= 1e-9) trip.lots.shift();
+      }
+      if (method === 'average') {
+        trip.realizedPoints += (price - trip.avgCost) * closing * direction;
+      }
+
+      trip.openQty -= closing;
+      trip.exitValue += price * closing;
+      trip.exitQty += closing;
+      trip.exitTime = time;
+      trip.fees += feePerContract * closing;
+      trip.links.push({ executionId: fill.id, role: 'exit', qty: closing });
+      remaining -= closing;
+
+      if (trip.openQty <= 1e-9) {
+        trip.openQty = 0;
+        result.push(finish(trip));
+        open.delete(symbol);
+      }
+    }
+
+    if (remaining <= 1e-9) continue;
+
+    let current = open.get(symbol);
+    if (!current) {
+      current = {
+        key: fill.id,
+        symbol,
+        side: fillSide,
+        qty: 0,
+        entryPrice: price,
+        exitPrice: null,
+        entryTime: time,
+        exitTime: null,
+        openQty: 0,
+        fees: 0,
+        pnl: null,
+        links: [],
+        lots: [],
+        avgCost: 0,
+        realizedPoints: 0,
+        entryValue: 0,
+        exitValue: 0,
+        exitQty: 0,
+      };
+      open.set(symbol, current);
+    }
+
+    current.avgCost = (current.avgCost * current.openQty + price * remaining) / (current.openQty + remaining);
+    current.openQty += remaining;
+    current.qty += remaining;
+    current.entryValue += price * remaining;
+    current.fees += feePerContract * remaining;
+    current.lots.push({ executionId: fill.id, qty: remaining, price });
+    current.links.push({ executionId: fill.id, role: 'entry', qty: remaining });
+  }
+
+  for (const trip of Array.from(open.values())) {
+    result.push(finish(trip));
+  }
+
+  return result.sort((a, b) => a.entryTime.getTime() - b.entryTime.getTime());
+}
+
+export function roundTripToTrade(userId: string, accountId: string, trip: RoundTrip): InsertTrade {
+  return {
+    userId,
+    tradingAccountId: accountId,
+    symbol: trip.symbol,
+    root: contractRoot(trip.symbol),
+    assetClass: assetClassOf(trip.symbol),
+    side: trip.side,
+    qty: trip.qty.toString(),
+    entryPrice: trip.entryPrice.toString(),
+    exitPrice: trip.exitPrice !== null ? trip.exitPrice.toString() : null,
+    entryTime: trip.entryTime,
+    exitTime: trip.exitTime,
+    fees: trip.fees.toString(),
+    pnl: trip.pnl !== null ? trip.pnl.toString() : null,
+    pnlSource: trip.pnl !== null ? 'computed' : null,
+    source: 'fills',
+    externalId: `fills:${trip.key}`,
+  };
+}
@@ -10,18 +10,66 @@ import {
   insertJournalEntrySchema,
   insertDailyMetricsSchema,
   insertEconomicEventSchema,
-  insertAiInsightSchema 
+  insertAiInsightSchema,
+  insertPayoutSchema,
+  insertExpenseSchema,
+  insertAccountGroupSchema,
+  insertAccountGroupMemberSchema,
+  insertExecutionSchema,
+  insertSetupSchema,
+  insertFeeScheduleSchema,
+  updateTradeSchema,
+  type Trade
 } from "@shared/schema";
 import { z } from "zod";
 import { generateTradingInsights, generateChatResponse } from './openai';
 import { tradovateAPI } from './tradovate';
+import { evaluateCompliance, getDrawdownRule, getRuleParams } from './propFirmRules';
+import { computeConsistency, DEFAULT_CONSISTENCY_PCT } from './consistency';
+import { recalculateDailyMetrics, getDrawdownHistory, updateNewsViolationsForDate, rebuildTradesFromFills, parseStats } from './dailyMetrics';
+import { computeEvaluationProgress, updateEvaluationStatus } from './evaluationTracker';
+import { computePayoutEligibility } from './payouts';
+import { computeBusinessLedger } from './businessLedger';
+import { computeGroupAnalytics } from './accountGroups';
+import { auditPositionSizes } from './positionAudit';
+import { contractRoot } from '@shared/contractRegistry';
+import { assetClassOf, ASSET_CLASSES, type AssetClass } from '@shared/instrumentRegistry';
+import { computeTradePnl } from '@shared/tradePnl';
+import { computeRAnalytics } from './rAnalytics';
+import { computeSetupStats } from './setupStats';
+import { applyTradeUpdate, splitTrade, mergeTrades, tradeDate } from './tradeEdits';
+import { computeOpenPositions } from './positions';
+import { loadFeeScheduler, withScheduledFees, computeFeeDrag } from './feeSchedules';
+import { importBars, getBarCoverage } from './marketData';
+import {
+  reconcileDays,
+  reconcileRange,
+  resolveReconciliationItem,
+  getReconciliationQueue,
+  getReconciliationItem,
+  getItemTrades
+} from './reconciliation';
 import multer from "multer";
+import os from "node:os";
+import { unlink } from "node:fs/promises";
+import { startImportJob, getImportJob, subscribeToImportJob } from './importJobs';
+import { getCsvParser } from './csvParsers';
+import { importAccountStatement, rollbackStatementBatch, detectStatementMapping, getBalanceHistory, statementMappingSchema } from './accountStatements';
 import {
-  parseCsvFile,
+  previewCsvFile,
+  streamCsvFile,
+  readCsvHeaders,
   detectCsvFormat,
   importCsvTrades,
   saveMappingProfile,
   getMappingProfiles,
+  hashFile,
+  getImportBatches,
+  getImportBatch,
+  getImportBatchHeaders,
+  rollbackImportBatch,
+  reimportBatch,
+  batchParser,
   type MappingSpec
 } from "./csvImport";
 
@@ -34,6 +82,12 @@ function isMarketOpen(date: string): boolean {
   return dayOfWeek >= 1 && dayOfWeek <= 5;
 }
 
+// Analytics take ?assetClass=futures|equity|forex|crypto; anything else means every class
+function filterByAssetClass<T extends { assetClass: string }>(trades: T[], assetClass: unknown): T[] {
+  if (!ASSET_CLASSES.includes(assetClass as AssetClass)) return trades;
+  return trades.filter(trade => trade.assetClass === assetClass);
+}
+
 async function generateInsights(userId: string, trades: any[], accountId?: string): Promise<any[]> {
   try {
     const journalEntries = await storage.getJournalEntries(userId, undefined, accountId);
@@ -89,90 +143,993 @@ async function processAiChat(userId: string, message: string): Promise<string> {
   return "I'm analyzing your trading data. How can I help you improve your performance?";
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Auth middleware
-  await setupAuth(app);
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Auth middleware
+  await setupAuth(app);
+
+  // Initialize multer for file uploads
+  const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+  // Trade CSVs go to disk and are streamed, so multi-year broker histories fit
+  const csvUpload = multer({ dest: os.tmpdir(), limits: { fileSize: 500 * 1024 * 1024 } });
+
+  // Auth routes
+  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      res.json(user);
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  // Trading accounts
+  app.get('/api/trading-accounts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const accounts = await storage.getTradingAccounts(userId);
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching trading accounts:", error);
+      res.status(500).json({ message: "Failed to fetch trading accounts" });
+    }
+  });
+
+  app.post('/api/trading-accounts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const accountData = insertTradingAccountSchema.parse({
+        ...req.body,
+        userId,
+      });
+      const account = await storage.createTradingAccount(accountData);
+      res.json(account);
+    } catch (error) {
+      console.error("Error creating trading account:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create trading account" });
+      }
+    }
+  });
+
+  app.get('/api/trading-accounts/:id/compliance', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      const [accountTrades, accountDays, accountNewsViolations] = await Promise.all([
+        storage.getTradesForAccount(account.id),
+        storage.getDailyMetrics(userId, account.id),
+        storage.getNewsViolations(userId, account.id),
+      ]);
+      res.json(evaluateCompliance(account, accountTrades, accountDays, accountNewsViolations));
+    } catch (error) {
+      console.error("Error evaluating compliance:", error);
+      res.status(500).json({ message: "Failed to evaluate compliance" });
+    }
+  });
+
+  // Replay of open position size against the firm's scaling plan / contract limit
+  app.get('/api/trading-accounts/:id/position-audit', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      const [accountTrades, accountDays] = await Promise.all([
+        storage.getTradesForAccount(account.id),
+        storage.getDailyMetrics(userId, account.id),
+      ]);
+      const params = getRuleParams(account.propFirm, account.accountType, parseFloat(account.accountSize || '50000'));
+      res.json(auditPositionSizes(account, params, accountTrades, accountDays));
+    } catch (error) {
+      console.error("Error auditing position sizes:", error);
+      res.status(500).json({ message: "Failed to audit position sizes" });
+    }
+  });
+
+  // Raw fills; trades for the account are rebuilt from them after every upload
+  app.get('/api/trading-accounts/:id/executions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      res.json(await storage.getExecutions(account.id));
+    } catch (error) {
+      console.error("Error fetching executions:", error);
+      res.status(500).json({ message: "Failed to fetch executions" });
+    }
+  });
+
+  app.post('/api/trading-accounts/:id/executions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      const fills = z.array(z.any()).parse(req.body.fills).map(fill => insertExecutionSchema.parse({
+        ...fill,
+        userId,
+        tradingAccountId: account.id,
+        executedAt: fill.executedAt ? new Date(fill.executedAt) : undefined,
+      }));
+      const created = await storage.createExecutions(fills);
+      const rebuilt = await rebuildTradesFromFills(userId, account.id);
+      await reconcileDays(userId, account.id, rebuilt.map(tradeDate));
+      await updateEvaluationStatus(account.id, 'manual');
+
+      res.json({ inserted: created.length, skipped: fills.length - created.length, trades: rebuilt.length });
+    } catch (error) {
+      console.error("Error importing executions:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid execution data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to import executions" });
+      }
+    }
+  });
+
+  app.get('/api/trading-accounts/:id/drawdown', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      const series = await getDrawdownHistory(account);
+      res.json({
+        rule: getDrawdownRule(account),
+        series,
+        current: series[series.length - 1] || null,
+      });
+    } catch (error) {
+      console.error("Error fetching drawdown history:", error);
+      res.status(500).json({ message: "Failed to fetch drawdown history" });
+    }
+  });
+
+  // Daily balances, from imported account statements where there are any
+  app.get('/api/trading-accounts/:id/balance-history', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+      res.json(await getBalanceHistory(account));
+    } catch (error) {
+      console.error("Error fetching balance history:", error);
+      res.status(500).json({ message: "Failed to fetch balance history" });
+    }
+  });
+
+  app.get('/api/trading-accounts/:id/consistency', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      const params = getRuleParams(account.propFirm, account.accountType, parseFloat(account.accountSize || '50000'));
+      const accountDays = await storage.getDailyMetrics(userId, account.id);
+      res.json(computeConsistency(accountDays, params?.consistencyPct ?? DEFAULT_CONSISTENCY_PCT));
+    } catch (error) {
+      console.error("Error computing consistency:", error);
+      res.status(500).json({ message: "Failed to compute consistency" });
+    }
+  });
+
+  app.get('/api/trading-accounts/:id/evaluation', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      const [accountTrades, accountDays, history] = await Promise.all([
+        storage.getTradesForAccount(account.id),
+        storage.getDailyMetrics(userId, account.id),
+        storage.getAccountStatusHistory(account.id),
+      ]);
+      res.json({
+        progress: computeEvaluationProgress(account, accountTrades, accountDays),
+        history,
+      });
+    } catch (error) {
+      console.error("Error fetching evaluation progress:", error);
+      res.status(500).json({ message: "Failed to fetch evaluation progress" });
+    }
+  });
+
+  app.get('/api/trading-accounts/:id/payout-eligibility', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const account = await storage.getTradingAccount(req.params.id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      const [accountDays, accountPayouts] = await Promise.all([
+        storage.getDailyMetrics(userId, account.id),
+        storage.getPayouts(userId, account.id),
+      ]);
+      res.json(computePayoutEligibility(account, accountDays, accountPayouts));
+    } catch (error) {
+      console.error("Error computing payout eligibility:", error);
+      res.status(500).json({ message: "Failed to compute payout eligibility" });
+    }
+  });
+
+  // Payouts
+  app.get('/api/payouts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId } = req.query;
+      const accountPayouts = await storage.getPayouts(userId, accountId as string);
+      res.json(accountPayouts);
+    } catch (error) {
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  app.post('/api/payouts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const payoutData = insertPayoutSchema.parse({
+        ...req.body,
+        userId,
+      });
+      const account = await storage.getTradingAccount(payoutData.tradingAccountId);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+      const payout = await storage.createPayout(payoutData);
+      res.json(payout);
+    } catch (error) {
+      console.error("Error creating payout:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid payout data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create payout" });
+      }
+    }
+  });
+
+  app.patch('/api/payouts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getPayout(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      const updates = insertPayoutSchema
+        .omit({ userId: true, tradingAccountId: true })
+        .partial()
+        .parse(req.body);
+      const payout = await storage.updatePayout(existing.id, updates);
+      res.json(payout);
+    } catch (error) {
+      console.error("Error updating payout:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid payout data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update payout" });
+      }
+    }
+  });
+
+  app.delete('/api/payouts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getPayout(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      await storage.deletePayout(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting payout:", error);
+      res.status(500).json({ message: "Failed to delete payout" });
+    }
+  });
+
+  // Expenses
+  app.get('/api/expenses', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId } = req.query;
+      const accountExpenses = await storage.getExpenses(userId, accountId as string);
+      res.json(accountExpenses);
+    } catch (error) {
+      console.error("Error fetching expenses:", error);
+      res.status(500).json({ message: "Failed to fetch expenses" });
+    }
+  });
+
+  app.post('/api/expenses', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const expenseData = insertExpenseSchema.parse({
+        ...req.body,
+        userId,
+      });
+      const account = await storage.getTradingAccount(expenseData.tradingAccountId);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+      const expense = await storage.createExpense(expenseData);
+      res.json(expense);
+    } catch (error) {
+      console.error("Error creating expense:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid expense data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create expense" });
+      }
+    }
+  });
+
+  app.patch('/api/expenses/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getExpense(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      const updates = insertExpenseSchema
+        .omit({ userId: true, tradingAccountId: true })
+        .partial()
+        .parse(req.body);
+      const expense = await storage.updateExpense(existing.id, updates);
+      res.json(expense);
+    } catch (error) {
+      console.error("Error updating expense:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid expense data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update expense" });
+      }
+    }
+  });
+
+  app.delete('/api/expenses/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getExpense(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      await storage.deleteExpense(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting expense:", error);
+      res.status(500).json({ message: "Failed to delete expense" });
+    }
+  });
+
+  // Fee schedules
+  app.get('/api/fee-schedules', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      res.json(await storage.getFeeSchedules(userId));
+    } catch (error) {
+      console.error("Error fetching fee schedules:", error);
+      res.status(500).json({ message: "Failed to fetch fee schedules" });
+    }
+  });
+
+  app.post('/api/fee-schedules', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const scheduleData = insertFeeScheduleSchema.parse({
+        ...req.body,
+        propFirm: req.body.propFirm || null,
+        tradingAccountId: req.body.tradingAccountId || null,
+        root: req.body.root ? contractRoot(req.body.root) : null,
+        userId,
+      });
+      if (scheduleData.tradingAccountId) {
+        const account = await storage.getTradingAccount(scheduleData.tradingAccountId);
+        if (!account || account.userId !== userId) {
+          return res.status(404).json({ message: "Trading account not found" });
+        }
+      }
+      const schedule = await storage.createFeeSchedule(scheduleData);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error creating fee schedule:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid fee schedule data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create fee schedule" });
+      }
+    }
+  });
+
+  app.delete('/api/fee-schedules/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getFeeSchedule(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Fee schedule not found" });
+      }
+      await storage.deleteFeeSchedule(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting fee schedule:", error);
+      res.status(500).json({ message: "Failed to delete fee schedule" });
+    }
+  });
+
+  // Setups (playbook)
+  app.get('/api/setups', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      res.json(await storage.getSetups(userId));
+    } catch (error) {
+      console.error("Error fetching setups:", error);
+      res.status(500).json({ message: "Failed to fetch setups" });
+    }
+  });
+
+  app.get('/api/setups/stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId, from, to, assetClass } = req.query;
+      const [userSetups, trades, links] = await Promise.all([
+        storage.getSetups(userId),
+        storage.getTrades(userId, accountId as string, from as string, to as string, 10000),
+        storage.getTradeSetupLinks(userId),
+      ]);
+      res.json(computeSetupStats(userSetups, filterByAssetClass(trades, assetClass), links));
+    } catch (error) {
+      console.error("Error computing setup stats:", error);
+      res.status(500).json({ message: "Failed to compute setup stats" });
+    }
+  });
+
+  app.post('/api/setups', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const setupData = insertSetupSchema.parse({
+        ...req.body,
+        userId,
+      });
+      const setup = await storage.createSetup(setupData);
+      res.json(setup);
+    } catch (error) {
+      console.error("Error creating setup:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid setup data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create setup" });
+      }
+    }
+  });
+
+  app.patch('/api/setups/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getSetup(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Setup not found" });
+      }
+      const updates = insertSetupSchema
+        .omit({ userId: true })
+        .partial()
+        .parse(req.body);
+      const setup = await storage.updateSetup(existing.id, updates);
+      res.json(setup);
+    } catch (error) {
+      console.error("Error updating setup:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid setup data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update setup" });
+      }
+    }
+  });
+
+  app.delete('/api/setups/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getSetup(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Setup not found" });
+      }
+      await storage.deleteSetup(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting setup:", error);
+      res.status(500).json({ message: "Failed to delete setup" });
+    }
+  });
+
+  // Copy-trade account groups
+  app.get('/api/account-groups', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const groups = await storage.getAccountGroups(userId);
+      const withMembers = await Promise.all(groups.map(async (group) => ({
+        ...group,
+        members: await storage.getAccountGroupMembers(group.id),
+      })));
+      res.json(withMembers);
+    } catch (error) {
+      console.error("Error fetching account groups:", error);
+      res.status(500).json({ message: "Failed to fetch account groups" });
+    }
+  });
+
+  app.post('/api/account-groups', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { followerAccountIds = [], ...body } = req.body;
+      const groupData = insertAccountGroupSchema.parse({
+        ...body,
+        userId,
+      });
+      const followerIds = z.array(z.string()).parse(followerAccountIds)
+        .filter(id => id !== groupData.leaderAccountId);
+
+      const accounts = await storage.getTradingAccounts(userId);
+      const ownedIds = new Set(accounts.map(account => account.id));
+      if (![groupData.leaderAccountId, ...followerIds].every(id => ownedIds.has(id))) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+
+      const group = await storage.createAccountGroup(groupData);
+      const members = await Promise.all(followerIds.map(tradingAccountId =>
+        storage.addAccountGroupMember({ groupId: group.id, tradingAccountId })
+      ));
+      res.json({ ...group, members });
+    } catch (error) {
+      console.error("Error creating account group:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account group data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create account group" });
+      }
+    }
+  });
+
+  app.patch('/api/account-groups/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getAccountGroup(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Account group not found" });
+      }
+      const updates = insertAccountGroupSchema
+        .omit({ userId: true, leaderAccountId: true })
+        .partial()
+        .parse(req.body);
+      const group = await storage.updateAccountGroup(existing.id, updates);
+      res.json(group);
+    } catch (error) {
+      console.error("Error updating account group:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account group data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update account group" });
+      }
+    }
+  });
+
+  app.delete('/api/account-groups/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const existing = await storage.getAccountGroup(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Account group not found" });
+      }
+      await storage.deleteAccountGroup(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting account group:", error);
+      res.status(500).json({ message: "Failed to delete account group" });
+    }
+  });
+
+  app.post('/api/account-groups/:id/members', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const group = await storage.getAccountGroup(req.params.id);
+      if (!group || group.userId !== userId) {
+        return res.status(404).json({ message: "Account group not found" });
+      }
+      const memberData = insertAccountGroupMemberSchema.parse({
+        ...req.body,
+        groupId: group.id,
+      });
+      const account = await storage.getTradingAccount(memberData.tradingAccountId);
+      if (!account || account.userId !== userId || account.id === group.leaderAccountId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+      const member = await storage.addAccountGroupMember(memberData);
+      res.json(member);
+    } catch (error) {
+      console.error("Error adding account group member:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account group member data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to add account group member" });
+      }
+    }
+  });
+
+  app.delete('/api/account-groups/:id/members/:accountId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const group = await storage.getAccountGroup(req.params.id);
+      if (!group || group.userId !== userId) {
+        return res.status(404).json({ message: "Account group not found" });
+      }
+      await storage.removeAccountGroupMember(group.id, req.params.accountId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing account group member:", error);
+      res.status(500).json({ message: "Failed to remove account group member" });
+    }
+  });
+
+  // Group P&L and copier divergences between the leader and each follower
+  app.get('/api/account-groups/:id/analytics', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const group = await storage.getAccountGroup(req.params.id);
+      if (!group || group.userId !== userId) {
+        return res.status(404).json({ message: "Account group not found" });
+      }
+      const { from, to } = req.query;
+      const members = await storage.getAccountGroupMembers(group.id);
+      const accountIds = [group.leaderAccountId, ...members.map(m => m.tradingAccountId)];
+
+      const tradesByAccount = new Map<string, Trade[]>();
+      for (const accountId of accountIds) {
+        const accountTrades = await storage.getTradesForAccount(accountId);
+        tradesByAccount.set(accountId, accountTrades.filter(t => {
+          const date = new Date(t.entryTime).toISOString().split('T')[0];
+          return (!from || date >= from) && (!to || date <= to);
+        }));
+      }
+
+      res.json(computeGroupAnalytics(group, members, tradesByAccount));
+    } catch (error) {
+      console.error("Error computing account group analytics:", error);
+      res.status(500).json({ message: "Failed to compute account group analytics" });
+    }
+  });
+
+  // Trades
+  app.get('/api/trades', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId, startDate, endDate } = req.query;
+      const trades = await storage.getTrades(
+        userId,
+        accountId as string,
+        startDate as string,
+        endDate as string
+      );
+      res.json(trades);
+    } catch (error) {
+      console.error("Error fetching trades:", error);
+      res.status(500).json({ message: "Failed to fetch trades" });
+    }
+  });
+
+  app.post('/api/trades', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const hasPnl = req.body.pnl !== undefined && req.body.pnl !== null && req.body.pnl !== '';
+      const assetClass = req.body.assetClass || (req.body.symbol ? assetClassOf(req.body.symbol) : undefined);
+      const quoteToUsd = req.body.quoteToUsd === '' ? null : req.body.quoteToUsd;
+      const computedPnl = hasPnl || !req.body.symbol ? null : computeTradePnl({ ...req.body, assetClass, quoteToUsd });
+      // Maker or taker decides which crypto fee rate a fee schedule charges
+      const { liquidity, ...body } = req.body;
+      const tradeData = insertTradeSchema.parse({
+        ...body,
+        quoteToUsd,
+        stats: liquidity === 'maker' || liquidity === 'taker' ? { liquidity } : undefined,
+        root: req.body.symbol ? contractRoot(req.body.symbol) : undefined,
+        assetClass,
+        exitPrice: req.body.exitPrice === '' ? null : req.body.exitPrice,
+        stopPrice: req.body.stopPrice === '' ? null : req.body.stopPrice,
+        targetPrice: req.body.targetPrice === '' ? null : req.body.targetPrice,
+        plannedRisk: req.body.plannedRisk === '' ? null : req.body.plannedRisk,
+        pnl: hasPnl ? req.body.pnl : computedPnl?.grossPnl.toString() ?? null,
+        pnlSource: hasPnl ? 'broker' : computedPnl ? 'computed' : null,
+        userId,
+      });
+      const setupIds = z.array(z.string()).optional().parse(req.body.setupIds) || [];
+      const feesFor = await loadFeeScheduler(tradeData.tradingAccountId);
+      const trade = await storage.createTrade(withScheduledFees(tradeData, feesFor));
+      if (setupIds.length > 0) {
+        const owned = new Set((await storage.getSetups(userId)).map(setup => setup.id));
+        await storage.setTradeSetups(trade.id, setupIds.filter(id => owned.has(id)));
+      }
+      await recalculateDailyMetrics(userId, trade.tradingAccountId, [trade.entryTime.toISOString().split('T')[0]]);
+      await updateEvaluationStatus(trade.tradingAccountId, 'manual');
+      res.json(trade);
+    } catch (error) {
+      console.error("Error creating trade:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid trade data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create trade" });
+      }
+    }
+  });
+
+  app.patch('/api/trades/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const trade = await storage.getTrade(req.params.id);
+      if (!trade || trade.userId !== userId) {
+        return res.status(404).json({ message: "Trade not found" });
+      }
 
-  // Initialize multer for file uploads
-  const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+      const blankToNull = (field: string) => req.body[field] === '' ? { [field]: null } : {};
+      const updates = updateTradeSchema.parse({
+        ...req.body,
+        ...blankToNull('exitPrice'),
+        ...blankToNull('stopPrice'),
+        ...blankToNull('targetPrice'),
+        ...blankToNull('plannedRisk'),
+        ...blankToNull('pnl'),
+        ...blankToNull('exitTime'),
+      });
+      const updated = await storage.updateTrade(trade.id, applyTradeUpdate(trade, updates));
+      await storage.createTradeRevision({
+        userId,
+        tradingAccountId: trade.tradingAccountId,
+        tradeId: trade.id,
+        action: 'update',
+        before: trade,
+        after: updated,
+        source: 'manual',
+      });
 
-  // Auth routes
-  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+      const dates = new Set([tradeDate(trade), tradeDate(updated!)]);
+      await recalculateDailyMetrics(userId, trade.tradingAccountId, Array.from(dates).sort());
+      await updateEvaluationStatus(trade.tradingAccountId, 'manual');
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating trade:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid trade data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update trade" });
+      }
+    }
+  });
+
+  app.delete('/api/trades/:id', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.dbUserId || req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      res.json(user);
+      const trade = await storage.getTrade(req.params.id);
+      if (!trade || trade.userId !== userId) {
+        return res.status(404).json({ message: "Trade not found" });
+      }
+
+      await storage.createTradeRevision({
+        userId,
+        tradingAccountId: trade.tradingAccountId,
+        tradeId: trade.id,
+        action: 'delete',
+        before: trade,
+        after: null,
+        source: 'manual',
+      });
+      await storage.deleteTrade(trade.id);
+      await recalculateDailyMetrics(userId, trade.tradingAccountId, [tradeDate(trade)]);
+      await updateEvaluationStatus(trade.tradingAccountId, 'manual');
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+      console.error("Error deleting trade:", error);
+      res.status(500).json({ message: "Failed to delete trade" });
     }
   });
 
-  // Trading accounts
-  app.get('/api/trading-accounts', isAuthenticated, async (req: any, res) => {
+  // Splits one row into partial exits; leg sizes must add up to the original size
+  app.post('/api/trades/:id/split', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.dbUserId || req.user.claims.sub;
-      const accounts = await storage.getTradingAccounts(userId);
-      res.json(accounts);
+      const trade = await storage.getTrade(req.params.id);
+      if (!trade || trade.userId !== userId) {
+        return res.status(404).json({ message: "Trade not found" });
+      }
+
+      const { legs } = z.object({
+        legs: z.array(z.object({
+          qty: z.coerce.number().positive(),
+          exitPrice: z.coerce.number().nullable().optional(),
+          exitTime: z.coerce.date().nullable().optional(),
+        })).min(2),
+      }).refine(
+        body => Math.abs(body.legs.reduce((sum, leg) => sum + leg.qty, 0) - parseFloat(trade.qty)) < 1e-9,
+        { message: `Leg quantities must add up to ${trade.qty}`, path: ['legs'] }
+      ).parse(req.body);
+
+      const [first, ...rest] = splitTrade(trade, legs);
+      const updated = await storage.updateTrade(trade.id, first);
+      const created = [];
+      for (const values of rest) {
+        created.push(await storage.createTrade(values));
+      }
+
+      const setupIds = (await storage.getTradeSetupLinks(userId))
+        .filter(link => link.tradeId === trade.id)
+        .map(link => link.setupId);
+      for (const leg of created) {
+        if (setupIds.length > 0) await storage.setTradeSetups(leg.id, setupIds);
+      }
+
+      const result = [updated!, ...created];
+      await storage.createTradeRevision({
+        userId,
+        tradingAccountId: trade.tradingAccountId,
+        tradeId: trade.id,
+        action: 'split',
+        before: trade,
+        after: result,
+        relatedTradeIds: created.map(leg => leg.id),
+        source: 'manual',
+      });
+
+      await recalculateDailyMetrics(userId, trade.tradingAccountId, [tradeDate(trade)]);
+      await updateEvaluationStatus(trade.tradingAccountId, 'manual');
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching trading accounts:", error);
-      res.status(500).json({ message: "Failed to fetch trading accounts" });
+      console.error("Error splitting trade:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid split data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to split trade" });
+      }
     }
   });
 
-  app.post('/api/trading-accounts', isAuthenticated, async (req: any, res) => {
+  // Merges rows of one position into the earliest; the others are deleted
+  app.post('/api/trades/merge', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.dbUserId || req.user.claims.sub;
-      const accountData = insertTradingAccountSchema.parse({
-        ...req.body,
+      const { tradeIds } = z.object({ tradeIds: z.array(z.string()).min(2) }).parse(req.body);
+
+      const rows: Trade[] = [];
+      for (const id of Array.from(new Set(tradeIds))) {
+        const trade = await storage.getTrade(id);
+        if (!trade || trade.userId !== userId) {
+          return res.status(404).json({ message: "Trade not found" });
+        }
+        rows.push(trade);
+      }
+      if (rows.length < 2) {
+        return res.status(400).json({ message: "Select at least two trades to merge" });
+      }
+      const [first] = rows;
+      const samePosition = rows.every(trade =>
+        trade.tradingAccountId === first.tradingAccountId &&
+        trade.side === first.side &&
+        (trade.root || trade.symbol) === (first.root || first.symbol)
+      );
+      if (!samePosition) {
+        return res.status(400).json({ message: "Merged trades must share an account, contract and side" });
+      }
+
+      const kept = rows.reduce((earliest, trade) =>
+        new Date(trade.entryTime) < new Date(earliest.entryTime) ? trade : earliest
+      );
+      const absorbed = rows.filter(trade => trade.id !== kept.id);
+      const merged = await storage.updateTrade(kept.id, mergeTrades(rows));
+      for (const trade of absorbed) {
+        await storage.moveTradeLinks(trade.id, kept.id);
+        await storage.deleteTrade(trade.id);
+      }
+
+      await storage.createTradeRevision({
         userId,
+        tradingAccountId: kept.tradingAccountId,
+        tradeId: kept.id,
+        action: 'merge',
+        before: rows,
+        after: merged,
+        relatedTradeIds: absorbed.map(trade => trade.id),
+        source: 'manual',
       });
-      const account = await storage.createTradingAccount(accountData);
-      res.json(account);
+
+      const dates = new Set(rows.map(tradeDate));
+      await recalculateDailyMetrics(userId, kept.tradingAccountId, Array.from(dates).sort());
+      await updateEvaluationStatus(kept.tradingAccountId, 'manual');
+      res.json(merged);
     } catch (error) {
-      console.error("Error creating trading account:", error);
+      console.error("Error merging trades:", error);
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid account data", errors: error.errors });
+        res.status(400).json({ message: "Invalid merge data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to create trading account" });
+        res.status(500).json({ message: "Failed to merge trades" });
       }
     }
   });
 
-  // Trades
-  app.get('/api/trades', isAuthenticated, async (req: any, res) => {
+  app.get('/api/trades/:id/revisions', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.dbUserId || req.user.claims.sub;
-      const { accountId, startDate, endDate } = req.query;
-      const trades = await storage.getTrades(
-        userId,
-        accountId as string,
-        startDate as string,
-        endDate as string
-      );
-      res.json(trades);
+      const revisions = await storage.getTradeRevisions(req.params.id);
+      res.json(revisions.filter(revision => revision.userId === userId));
     } catch (error) {
-      console.error("Error fetching trades:", error);
-      res.status(500).json({ message: "Failed to fetch trades" });
+      console.error("Error fetching trade revisions:", error);
+      res.status(500).json({ message: "Failed to fetch trade revisions" });
     }
   });
 
-  app.post('/api/trades', isAuthenticated, async (req: any, res) => {
+  app.put('/api/trades/:id/setups', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.dbUserId || req.user.claims.sub;
-      const tradeData = insertTradeSchema.parse({
-        ...req.body,
-        userId,
-      });
-      const trade = await storage.createTrade(tradeData);
-      res.json(trade);
+      const trade = await storage.getTrade(req.params.id);
+      if (!trade || trade.userId !== userId) {
+        return res.status(404).json({ message: "Trade not found" });
+      }
+
+      const setupIds = z.array(z.string()).parse(req.body.setupIds);
+      const owned = new Set((await storage.getSetups(userId)).map(setup => setup.id));
+      if (setupIds.some(id => !owned.has(id))) {
+        return res.status(404).json({ message: "Setup not found" });
+      }
+      res.json(await storage.setTradeSetups(trade.id, setupIds));
     } catch (error) {
-      console.error("Error creating trade:", error);
+      console.error("Error linking trade setups:", error);
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid trade data", errors: error.errors });
+        res.status(400).json({ message: "Invalid setup data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to create trade" });
+        res.status(500).json({ message: "Failed to link trade setups" });
+      }
+    }
+  });
+
+  app.get('/api/trades/:id/executions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const trade = await storage.getTrade(req.params.id);
+      if (!trade || trade.userId !== userId) {
+        return res.status(404).json({ message: "Trade not found" });
       }
+
+      res.json(await storage.getTradeExecutions(trade.id));
+    } catch (error) {
+      console.error("Error fetching trade executions:", error);
+      res.status(500).json({ message: "Failed to fetch trade executions" });
+    }
+  });
+
+  // Open positions
+  app.get('/api/positions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId } = req.query;
+      const openTrades = await storage.getOpenTrades(userId, accountId as string | undefined);
+      res.json(computeOpenPositions(openTrades));
+    } catch (error) {
+      console.error("Error fetching open positions:", error);
+      res.status(500).json({ message: "Failed to fetch open positions" });
     }
   });
 
@@ -227,8 +1184,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Economic events
   app.get('/api/economic-events', isAuthenticated, async (req: any, res) => {
     try {
-      const { startDate, endDate } = req.query;
-      const events = await storage.getEconomicEvents(startDate as string);
+      const { startDate } = req.query;
+      const month = ((startDate as string) || new Date().toISOString()).slice(0, 7);
+      const events = await storage.getEconomicEvents(month);
       res.json(events);
     } catch (error) {
       console.error("Error fetching economic events:", error);
@@ -240,6 +1198,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const eventData = insertEconomicEventSchema.parse(req.body);
       const event = await storage.createEconomicEvent(eventData);
+
+      // A new high-impact event can turn already-imported trades into violations
+      if (event.importance === 'high') {
+        await updateNewsViolationsForDate(event.date);
+      }
       res.json(event);
     } catch (error) {
       console.error("Error creating economic event:", error);
@@ -251,11 +1214,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trades held through high-impact news, per trade with the event they overlapped
+  app.get('/api/news-violations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId, from, to } = req.query;
+      const violations = await storage.getNewsViolations(userId, accountId as string, from as string, to as string);
+      res.json(violations);
+    } catch (error) {
+      console.error("Error fetching news violations:", error);
+      res.status(500).json({ message: "Failed to fetch news violations" });
+    }
+  });
+
   // Analytics
   app.get('/api/analytics', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.dbUserId || req.user.claims.sub;
-      const { accountId, period = '30d' } = req.query;
+      const { accountId, period = '30d', assetClass } = req.query;
       
       const endDate = new Date();
       const startDate = new Date();
@@ -274,10 +1250,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           startDate.setDate(endDate.getDate() - 30);
       }
 
-      const [trades, dailyMetrics] = await Promise.all([
+      const [allTrades, dailyMetrics] = await Promise.all([
         storage.getTrades(userId, accountId as string, startDate.toISOString().split('T')[0]),
         storage.getDailyMetrics(userId, accountId as string, startDate.toISOString().split('T')[0])
       ]);
+      const trades = filterByAssetClass(allTrades, assetClass);
 
       // Calculate analytics
       const totalTrades = trades.length;
@@ -296,15 +1273,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const profitFactor = avgLoss > 0 ? avgWin / avgLoss : 0;
 
-      // Trading calendar data
-      const calendarData = dailyMetrics.map((metric: any) => ({
-        date: metric.date,
-        pnl: metric.totalPnl - metric.totalFees,
-        trades: metric.totalTrades,
-        winRate: metric.totalTrades > 0 ? (metric.winningTrades / metric.totalTrades) * 100 : 0,
-        isMarketOpen: isMarketOpen(metric.date)
+      // Per product (MNQ, ES, ...) so contract months and micro/mini don't split the picture
+      const productStats = new Map<string, { trades: number; wins: number; netPnl: number }>();
+      for (const trade of trades) {
+        const root = trade.root || contractRoot(trade.symbol);
+        const stats = productStats.get(root) || { trades: 0, wins: 0, netPnl: 0 };
+        const pnl = parseFloat(trade.pnl || '0');
+        stats.trades++;
+        if (pnl > 0) stats.wins++;
+        stats.netPnl += pnl - parseFloat(trade.fees || '0');
+        productStats.set(root, stats);
+      }
+      const byProduct = Array.from(productStats.entries()).map(([root, stats]) => ({
+        root,
+        trades: stats.trades,
+        winRate: Math.round((stats.wins / stats.trades) * 10000) / 100,
+        netPnl: Math.round(stats.netPnl * 100) / 100,
       }));
 
+      // Trading calendar data. Daily metrics cover every asset class, so a filtered view
+      // rolls its days up from the matching trades instead.
+      const filteredDays = new Map<string, { pnl: number; trades: number; wins: number }>();
+      if (trades !== allTrades) {
+        for (const trade of trades) {
+          const date = new Date(trade.entryTime).toISOString().split('T')[0];
+          const day = filteredDays.get(date) || { pnl: 0, trades: 0, wins: 0 };
+          const pnl = parseFloat(trade.pnl || '0') - parseFloat(trade.fees || '0');
+          day.pnl += pnl;
+          day.trades++;
+          if (pnl > 0) day.wins++;
+          filteredDays.set(date, day);
+        }
+      }
+      const calendarData = trades !== allTrades
+        ? Array.from(filteredDays.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([date, day]) => ({
+            date,
+            pnl: Math.round(day.pnl * 100) / 100,
+            trades: day.trades,
+            winRate: (day.wins / day.trades) * 100,
+            isMarketOpen: isMarketOpen(date)
+          }))
+        : dailyMetrics.map((metric: any) => ({
+            date: metric.date,
+            pnl: metric.totalPnl - metric.totalFees,
+            trades: metric.totalTrades,
+            winRate: metric.totalTrades > 0 ? (metric.winningTrades / metric.totalTrades) * 100 : 0,
+            isMarketOpen: isMarketOpen(metric.date)
+          }));
+
       // Performance chart data
       let runningPnl = 0;
       const performanceData = calendarData.map((day: any) => {
@@ -329,6 +1345,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           avgLoss: Math.round(avgLoss * 100) / 100,
           profitFactor: Math.round(profitFactor * 100) / 100
         },
+        byProduct,
         calendarData,
         performanceData
       });
@@ -338,6 +1355,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Fees as a share of gross profit, split by component where a fee schedule supplied them
+  app.get('/api/analytics/fees', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId, from, to, assetClass } = req.query;
+      const trades = await storage.getTrades(userId, accountId as string, from as string, to as string, 10000);
+      res.json(computeFeeDrag(filterByAssetClass(trades, assetClass)));
+    } catch (error) {
+      console.error("Error computing fee drag:", error);
+      res.status(500).json({ message: "Failed to compute fee drag" });
+    }
+  });
+
+  // Realized R per trade, rolled up for the user or one account, by account and by setup
+  app.get('/api/analytics/r-multiples', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId, from, to, assetClass } = req.query;
+      const [trades, userSetups, links] = await Promise.all([
+        storage.getTrades(userId, accountId as string, from as string, to as string, 10000),
+        storage.getSetups(userId),
+        storage.getTradeSetupLinks(userId),
+      ]);
+      const setupName = new Map(userSetups.map(setup => [setup.id, setup.name]));
+      const setupNames = new Map<string, string[]>();
+      for (const link of links) {
+        setupNames.set(link.tradeId, [...(setupNames.get(link.tradeId) || []), setupName.get(link.setupId)!]);
+      }
+      res.json(computeRAnalytics(filterByAssetClass(trades, assetClass), setupNames));
+    } catch (error) {
+      console.error("Error computing R analytics:", error);
+      res.status(500).json({ message: "Failed to compute R analytics" });
+    }
+  });
+
+  // Closed trades with MFE/MAE from stored bars, for the excursion scatter plot
+  app.get('/api/analytics/excursions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId, from, to } = req.query;
+      const trades = await storage.getTrades(userId, accountId as string, from as string, to as string, 10000);
+      res.json(trades
+        .filter(trade => trade.mfe !== null && trade.mae !== null)
+        .map(trade => ({
+          id: trade.id,
+          symbol: trade.symbol,
+          side: trade.side,
+          entryTime: trade.entryTime,
+          pnl: parseFloat(trade.pnl || '0'),
+          mfe: parseFloat(trade.mfe!),
+          mae: parseFloat(trade.mae!),
+          bestExitPrice: trade.bestExitPrice !== null ? parseFloat(trade.bestExitPrice) : null,
+          timeToMfeSec: trade.timeToMfeSec,
+        })));
+    } catch (error) {
+      console.error("Error fetching trade excursions:", error);
+      res.status(500).json({ message: "Failed to fetch trade excursions" });
+    }
+  });
+
+  // Prop firm business ledger: expenses vs paid payouts, rolled up by firm, account and month
+  app.get('/api/analytics/business', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const [accounts, accountExpenses, accountPayouts] = await Promise.all([
+        storage.getTradingAccounts(userId),
+        storage.getExpenses(userId),
+        storage.getPayouts(userId),
+      ]);
+      res.json(computeBusinessLedger(accounts, accountExpenses, accountPayouts));
+    } catch (error) {
+      console.error("Error generating business ledger:", error);
+      res.status(500).json({ message: "Failed to generate business ledger" });
+    }
+  });
+
   // AI insights
   app.get('/api/ai-insights', isAuthenticated, async (req: any, res) => {
     try {
@@ -385,14 +1478,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.dbUserId || req.user.claims.sub;
       const { accountId, credentials } = req.body;
       
-      if (!accountId || !credentials) {
-        return res.status(400).json({ message: "Account ID and credentials are required" });
+      if (!accountId) {
+        return res.status(400).json({ message: "Account ID is required" });
+      }
+
+      const account = await storage.getTradingAccount(accountId);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Trading account not found" });
+      }
+      if (!account.extAccountId) {
+        return res.status(400).json({ message: "Account is missing its Tradovate account ID" });
+      }
+
+      // Fresh credentials take precedence; otherwise renew the token stored at the last sync
+      let tokens: { accessToken: string; refreshToken: string };
+      if (credentials) {
+        tokens = await tradovateAPI.authenticate(credentials);
+      } else if (account.tradovateRefreshToken) {
+        const accessToken = await tradovateAPI.refreshAccessToken(account.tradovateRefreshToken);
+        tokens = { accessToken, refreshToken: account.tradovateRefreshToken };
+      } else {
+        return res.status(400).json({ message: "Account not connected to Tradovate" });
       }
+      const fills = await tradovateAPI.syncAccountFills(tokens.accessToken, Number(account.extAccountId));
+      const created = await storage.createExecutions(fills.map(fill => ({
+        userId,
+        tradingAccountId: account.id,
+        symbol: fill.symbol,
+        side: fill.side === 'Buy' ? 'buy' as const : 'sell' as const,
+        qty: fill.quantity.toString(),
+        price: fill.price.toString(),
+        fees: fill.commission.toString(),
+        executedAt: new Date(fill.timestamp),
+        externalId: fill.id.toString(),
+        orderId: fill.orderId.toString(),
+        source: 'api',
+      })));
 
-      // This would integrate with Tradovate API
-      const result = { message: 'Tradovate sync not yet implemented', accountId };
+      const rebuilt = await rebuildTradesFromFills(userId, account.id);
+      // Broker fills absorb the alerts and statement rows already logged for those days
+      await reconcileDays(userId, account.id, rebuilt.map(tradeDate));
+      await storage.updateTradingAccount(account.id, {
+        tradovateAccessToken: tokens.accessToken,
+        tradovateRefreshToken: tokens.refreshToken,
+        lastSyncAt: new Date(),
+      });
+      const evaluation = await updateEvaluationStatus(accountId, 'api');
       
-      res.json(result);
+      res.json({ accountId, fills: fills.length, newFills: created.length, trades: rebuilt.length, evaluation });
     } catch (error) {
       console.error("Error syncing with Tradovate:", error);
       res.status(500).json({ message: "Failed to sync with Tradovate" });
@@ -411,56 +1544,336 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/import/csv/preview', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post('/api/import/csv/preview', isAuthenticated, csvUpload.single('file'), async (req: any, res) => {
     try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
       if (!req.file) return res.status(400).json({ message: 'No file uploaded' });
-      const rows = await parseCsvFile(req.file.buffer);
-      const headers = Object.keys(rows[0] || {});
-      const detected = detectCsvFormat(headers);
+      const preview = await previewCsvFile(req.file.path);
+      const detected = detectCsvFormat(preview.headers);
+      // Warn before the same file goes in twice
+      const fileHash = await hashFile(req.file.path);
+      const previousImport = (await getImportBatches(userId))
+        .find(batch => batch.fileHash === fileHash && !batch.rolledBackAt);
       res.json({
-        headers,
-        previewRows: rows.slice(0, 100),
-        totalRows: rows.length,
+        ...preview,
         detectedFormat: detected || undefined,
+        statementMapping: detectStatementMapping(preview.headers) || undefined,
         filename: req.file.originalname,
+        previousImport: previousImport
+          ? { id: previousImport.id, createdAt: previousImport.createdAt }
+          : undefined,
       });
     } catch (error) {
       console.error('CSV preview error:', error);
       res.status(500).json({ message: 'Failed to preview CSV' });
+    } finally {
+      if (req.file) await unlink(req.file.path).catch(() => {});
     }
   });
 
-  app.post('/api/import/csv', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  // Starts a background import; progress comes from /api/import/jobs/:id/events
+  app.post('/api/import/csv', isAuthenticated, csvUpload.single('file'), async (req: any, res) => {
+    const discardFile = () => req.file ? unlink(req.file.path).catch(() => {}) : Promise.resolve();
     try {
       const userId = req.user.dbUserId || req.user.claims.sub;
-      const { accountId, source, mapping: mappingJson, saveMapping, mappingName } = req.body;
+      const { accountId, importType, source, mapping: mappingJson, symbol, saveMapping, mappingName } = req.body;
       if (!req.file) return res.status(400).json({ message: 'No file uploaded' });
-      if (!accountId) return res.status(400).json({ message: 'Missing accountId' });
-
-      const rows = await parseCsvFile(req.file.buffer);
-      const headers = Object.keys(rows[0] || {});
+      if (!accountId) {
+        await discardFile();
+        return res.status(400).json({ message: 'Missing accountId' });
+      }
+      const account = await storage.getTradingAccount(accountId);
+      if (!account || account.userId !== userId) {
+        await discardFile();
+        return res.status(404).json({ message: 'Trading account not found' });
+      }
 
-      let mapping: MappingSpec;
+      // A null mapping means the detected platform parser reads the rows
+      let mapping: MappingSpec | null;
       try {
         mapping = JSON.parse(mappingJson);
       } catch {
+        await discardFile();
         return res.status(400).json({ message: 'Invalid mapping JSON' });
       }
 
-      const detected = source || (detectCsvFormat(headers)?.source ?? 'custom');
-      const result = await importCsvTrades(userId, accountId, rows, mapping, detected);
+      const { path, originalname } = req.file;
+      if (importType === 'statement') {
+        const parsed = statementMappingSchema.safeParse(mapping);
+        if (!parsed.success) {
+          await discardFile();
+          return res.status(400).json({ message: 'Invalid statement mapping', errors: parsed.error.errors });
+        }
+        const job = startImportJob(
+          userId,
+          async (hooks) => importAccountStatement(userId, accountId, streamCsvFile(path), parsed.data, {
+            filename: originalname,
+            fileHash: await hashFile(path),
+          }, hooks),
+          discardFile
+        );
+        return res.status(202).json({ jobId: job.id });
+      }
 
-      if (saveMapping === 'true' && mappingName) {
+      const detected = source || (detectCsvFormat(await readCsvHeaders(req.file.path))?.source ?? 'custom');
+      const parser = getCsvParser(detected);
+      if (!mapping && !parser) {
+        await discardFile();
+        return res.status(400).json({ message: 'A column mapping is required for this file' });
+      }
+      if (!mapping && parser?.needsSymbol && !symbol) {
+        await discardFile();
+        return res.status(400).json({ message: `${parser.name} exports have no symbol column; choose a symbol` });
+      }
+      if (mapping && saveMapping === 'true' && mappingName) {
         await saveMappingProfile(userId, mappingName, detected, mapping);
       }
 
-      res.json(result);
+      const job = startImportJob(
+        userId,
+        async (hooks) => importCsvTrades(userId, accountId, streamCsvFile(path), mapping, detected, {
+          filename: originalname,
+          fileHash: await hashFile(path),
+          symbol: symbol || null,
+        }, hooks),
+        discardFile
+      );
+      res.status(202).json({ jobId: job.id });
     } catch (error) {
       console.error('CSV import error:', error);
+      await discardFile();
       res.status(500).json({ message: 'Failed to import CSV' });
     }
   });
 
+  // Server-Sent Events: progress, row-error, then done or failed
+  app.get('/api/import/jobs/:id/events', isAuthenticated, (req: any, res) => {
+    const userId = req.user.dbUserId || req.user.claims.sub;
+    const job = getImportJob(req.params.id);
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ message: 'Import job not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const unsubscribe = subscribeToImportJob(job, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type === 'done' || event.type === 'failed') res.end();
+    });
+    req.on('close', unsubscribe);
+  });
+
+  // Import history: every CSV import is a batch that can be rolled back or re-run
+  app.get('/api/import/batches', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId } = req.query;
+      res.json(await getImportBatches(userId, accountId as string | undefined));
+    } catch (error) {
+      console.error('Error fetching import batches:', error);
+      res.status(500).json({ message: 'Failed to fetch import batches' });
+    }
+  });
+
+  // One batch with the file's column headers, for editing its mapping
+  app.get('/api/import/batches/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const batch = await getImportBatch(req.params.id);
+      if (!batch || batch.userId !== userId) {
+        return res.status(404).json({ message: 'Import batch not found' });
+      }
+      res.json({
+        ...batch,
+        headers: await getImportBatchHeaders(batch.id),
+        parserName: batchParser(batch)?.name ?? null,
+      });
+    } catch (error) {
+      console.error('Error fetching import batch:', error);
+      res.status(500).json({ message: 'Failed to fetch import batch' });
+    }
+  });
+
+  app.delete('/api/import/batches/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const batch = await getImportBatch(req.params.id);
+      if (!batch || batch.userId !== userId) {
+        return res.status(404).json({ message: 'Import batch not found' });
+      }
+      if (batch.rolledBackAt) {
+        return res.status(400).json({ message: 'Import batch already rolled back' });
+      }
+      const result = batch.kind === 'statement'
+        ? await rollbackStatementBatch(batch)
+        : await rollbackImportBatch(batch);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error('Error rolling back import batch:', error);
+      res.status(500).json({ message: 'Failed to roll back import batch' });
+    }
+  });
+
+  app.post('/api/import/batches/:id/reimport', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const batch = await getImportBatch(req.params.id);
+      if (!batch || batch.userId !== userId) {
+        return res.status(404).json({ message: 'Import batch not found' });
+      }
+      if (batch.kind === 'statement') {
+        return res.status(400).json({ message: 'Statement imports cannot be re-imported; import the file again' });
+      }
+      // Platform exports are read by their parser again; a column mapping means nothing for them
+      if (batchParser(batch)) {
+        const job = startImportJob(userId, (hooks) => reimportBatch(batch, null, hooks));
+        return res.status(202).json({ jobId: job.id });
+      }
+      const { mapping } = z.object({
+        mapping: z.object({
+          symbol: z.string().min(1),
+          side: z.string().min(1),
+          qty: z.string().min(1),
+          entryPrice: z.string().min(1),
+          entryTime: z.string().min(1),
+        }).catchall(z.string().optional()),
+      }).parse(req.body);
+      const job = startImportJob(userId, (hooks) => reimportBatch(batch, mapping as MappingSpec, hooks));
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      console.error('Error re-importing batch:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid mapping data', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to re-import batch' });
+      }
+    }
+  });
+
+  // Reconciliation: alerts and statements matched against the broker's records
+  app.get('/api/reconciliation/queue', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId } = req.query;
+      const items = await getReconciliationQueue(userId, accountId as string | undefined);
+      const tradesById = new Map((await getItemTrades(items)).map(trade => [trade.id, trade]));
+      res.json(items.map(item => ({
+        ...item,
+        trade: tradesById.get(item.tradeId) ?? null,
+        candidate: item.candidateTradeId ? tradesById.get(item.candidateTradeId) ?? null : null,
+      })));
+    } catch (error) {
+      console.error('Error fetching reconciliation queue:', error);
+      res.status(500).json({ message: 'Failed to fetch reconciliation queue' });
+    }
+  });
+
+  app.get('/api/reconciliation/days', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId, month } = req.query;
+      const days = await storage.getDailyMetrics(userId, accountId as string | undefined, month as string | undefined);
+      res.json(days
+        .filter(day => parseStats(day.stats).reconciliation)
+        .map(day => ({
+          tradingAccountId: day.tradingAccountId,
+          tradeDate: day.tradeDate,
+          ...parseStats(day.stats).reconciliation,
+        })));
+    } catch (error) {
+      console.error('Error fetching reconciliation days:', error);
+      res.status(500).json({ message: 'Failed to fetch reconciliation days' });
+    }
+  });
+
+  app.post('/api/reconciliation/run', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { accountId, from, to } = z.object({
+        accountId: z.string(),
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      }).parse(req.body);
+      const account = await storage.getTradingAccount(accountId);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: 'Trading account not found' });
+      }
+      // Defaults to the last 30 days; `to` is exclusive
+      const today = new Date();
+      const end = to || new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const start = from || new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const days = await reconcileRange(userId, account.id, start, end);
+      await updateEvaluationStatus(account.id, 'manual');
+      res.json({ days });
+    } catch (error) {
+      console.error('Error running reconciliation:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid reconciliation data', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to run reconciliation' });
+      }
+    }
+  });
+
+  app.post('/api/reconciliation/items/:id/resolve', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const item = await getReconciliationItem(req.params.id);
+      if (!item || item.userId !== userId) {
+        return res.status(404).json({ message: 'Reconciliation item not found' });
+      }
+      if (item.status === 'resolved') {
+        return res.status(400).json({ message: 'Reconciliation item already resolved' });
+      }
+      const { action } = z.object({ action: z.enum(['merge', 'keep', 'delete']) }).parse(req.body);
+      if (action === 'merge' && !item.candidateTradeId) {
+        return res.status(400).json({ message: 'Unmatched trades have nothing to merge into' });
+      }
+      const day = await resolveReconciliationItem(item, action);
+      await updateEvaluationStatus(item.tradingAccountId, 'manual');
+      res.json({ success: true, day });
+    } catch (error) {
+      console.error('Error resolving reconciliation item:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid resolution data', errors: error.errors });
+      } else {
+        res.status(500).json({ message: 'Failed to resolve reconciliation item' });
+      }
+    }
+  });
+
+  // Market data: OHLC bar exports used for MFE/MAE
+  app.get('/api/market-data/bars', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      res.json(await getBarCoverage(userId));
+    } catch (error) {
+      console.error('Error fetching bar coverage:', error);
+      res.status(500).json({ message: 'Failed to fetch bar coverage' });
+    }
+  });
+
+  app.post('/api/market-data/bars', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.dbUserId || req.user.claims.sub;
+      const { symbol, timezone, timeframe } = req.body;
+      if (!req.file) return res.status(400).json({ message: 'No file uploaded' });
+      if (!symbol) return res.status(400).json({ message: 'Missing symbol' });
+
+      const result = await importBars(userId, symbol, req.file.buffer.toString('utf8'), timezone || 'UTC', timeframe || undefined);
+      if (result.bars === 0) {
+        return res.status(400).json({ message: 'No bars found in file', errors: result.errors });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error('Bar import error:', error);
+      res.status(500).json({ message: 'Failed to import bars' });
+    }
+  });
+
   // Email ingestion endpoints
   app.post('/api/ingest/email', emailIngestMiddleware, handleEmailIngest);
   
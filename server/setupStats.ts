@@ -0,0 +1,69 @@
+import type { Setup, Trade, TradeSetup } from "@shared/schema";
+import { realizedR } from "@shared/rMultiple";
+
+export interface SetupStats {
+  setupId: string;
+  name: string;
+  status: Setup['status'];
+  sampleSize: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  // Average net P&L per trade
+  expectancy: number;
+  // Gross wins over gross losses; null until the setup has a losing trade
+  profitFactor: number | null;
+  averageR: number | null;
+  netPnl: number;
+  // Weekly review: promote the top setups and pause the losing bottom ones once the sample is meaningful
+  review: 'promote' | 'pause' | null;
+}
+
+export const MIN_REVIEW_SAMPLE = 10;
+const REVIEW_COUNT = 2;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function computeSetupStats(setups: Setup[], trades: Trade[], links: TradeSetup[]): SetupStats[] {
+  const tradesById = new Map(trades.map(trade => [trade.id, trade]));
+
+  const stats = setups.map((setup): SetupStats => {
+    const closed = links
+      .filter(link => link.setupId === setup.id)
+      .map(link => tradesById.get(link.tradeId))
+      .filter((trade): trade is Trade => Boolean(trade && trade.exitTime && trade.pnl !== null));
+
+    const netResults = closed.map(trade => parseFloat(trade.pnl!) - parseFloat(trade.fees || '0'));
+    const grossWins = netResults.filter(pnl => pnl > 0).reduce((sum, pnl) => sum + pnl, 0);
+    const grossLosses = Math.abs(netResults.filter(pnl => pnl < 0).reduce((sum, pnl) => sum + pnl, 0));
+    const wins = netResults.filter(pnl => pnl > 0).length;
+    const losses = netResults.filter(pnl => pnl < 0).length;
+    const netPnl = netResults.reduce((sum, pnl) => sum + pnl, 0);
+    const rValues = closed.map(trade => realizedR(trade)).filter((r): r is number => r !== null);
+
+    return {
+      setupId: setup.id,
+      name: setup.name,
+      status: setup.status,
+      sampleSize: closed.length,
+      wins,
+      losses,
+      winRate: closed.length > 0 ? round2((wins / closed.length) * 100) : 0,
+      expectancy: closed.length > 0 ? round2(netPnl / closed.length) : 0,
+      profitFactor: grossLosses > 0 ? round2(grossWins / grossLosses) : null,
+      averageR: rValues.length > 0 ? round2(rValues.reduce((sum, r) => sum + r, 0) / rValues.length) : null,
+      netPnl: round2(netPnl),
+      review: null,
+    };
+  });
+
+  const reviewable = stats
+    .filter(stat => stat.status === 'active' && stat.sampleSize >= MIN_REVIEW_SAMPLE)
+    .sort((a, b) => b.expectancy - a.expectancy);
+  reviewable.slice(0, REVIEW_COUNT).filter(stat => stat.expectancy > 0).forEach(stat => { stat.review = 'promote'; });
+  reviewable.slice(-REVIEW_COUNT).filter(stat => stat.expectancy < 0).forEach(stat => { stat.review = 'pause'; });
+
+  return stats.sort((a, b) => b.expectancy - a.expectancy);
+}
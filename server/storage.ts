@@ -6,6 +6,18 @@ import {
   dailyMetrics,
   economicEvents,
   aiInsights,
+  accountStatusHistory,
+  payouts,
+  expenses,
+  accountGroups,
+  accountGroupMembers,
+  newsViolations,
+  executions,
+  tradeExecutions,
+  setups,
+  tradeSetups,
+  tradeRevisions,
+  feeSchedules,
   type User,
   type UpsertUser,
   type TradingAccount,
@@ -20,9 +32,30 @@ import {
   type InsertEconomicEvent,
   type AiInsight,
   type InsertAiInsight,
+  type AccountStatusHistory,
+  type InsertAccountStatusHistory,
+  type Payout,
+  type InsertPayout,
+  type Expense,
+  type InsertExpense,
+  type AccountGroup,
+  type InsertAccountGroup,
+  type AccountGroupMember,
+  type InsertAccountGroupMember,
+  type NewsViolation,
+  type Execution,
+  type InsertExecution,
+  type TradeExecution,
+  type Setup,
+  type InsertSetup,
+  type TradeSetup,
+  type TradeRevision,
+  type InsertTradeRevision,
+  type FeeSchedule,
+  type InsertFeeSchedule,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, gte, lte, sql } from "drizzle-orm";
+import { eq, and, desc, gte, lte, isNull } from "drizzle-orm";
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -34,12 +67,69 @@ export interface IStorage {
   getTradingAccount(accountId: string): Promise<TradingAccount | undefined>;
   createTradingAccount(account: InsertTradingAccount): Promise<TradingAccount>;
   updateTradingAccount(id: string, updates: Partial<InsertTradingAccount>): Promise<TradingAccount | undefined>;
+  getAccountStatusHistory(accountId: string): Promise<AccountStatusHistory[]>;
+  createAccountStatusChange(change: InsertAccountStatusHistory): Promise<AccountStatusHistory>;
   
   // Trade operations
   getTrades(userId: string, accountId?: string, from?: string, to?: string, limit?: number): Promise<Trade[]>;
+  getTradesForAccount(accountId: string): Promise<Trade[]>;
+  getTrade(id: string): Promise<Trade | undefined>;
   createTrade(trade: InsertTrade): Promise<Trade>;
   getRecentTrades(userId: string, accountId?: string, limit?: number): Promise<Trade[]>;
+  getOpenTrades(userId: string, accountId?: string): Promise<Trade[]>;
   getTradeByExternalId(userId: string, accountId: string, externalId: string): Promise<Trade | undefined>;
+  updateTrade(id: string, updates: Partial<InsertTrade>): Promise<Trade | undefined>;
+  deleteTrade(id: string): Promise<void>;
+  moveTradeLinks(fromTradeId: string, toTradeId: string): Promise<void>;
+  getTradeRevisions(tradeId: string): Promise<TradeRevision[]>;
+  createTradeRevision(revision: InsertTradeRevision): Promise<TradeRevision>;
+  
+  // Execution (fill) operations
+  getExecutions(accountId: string): Promise<Execution[]>;
+  createExecutions(fills: InsertExecution[]): Promise<Execution[]>;
+  getTradeExecutions(tradeId: string): Promise<(TradeExecution & { execution: Execution })[]>;
+  
+  // Payout operations
+  getPayouts(userId: string, accountId?: string): Promise<Payout[]>;
+  getPayout(id: string): Promise<Payout | undefined>;
+  createPayout(payout: InsertPayout): Promise<Payout>;
+  updatePayout(id: string, updates: Partial<InsertPayout>): Promise<Payout | undefined>;
+  deletePayout(id: string): Promise<void>;
+  
+  // Expense operations
+  getExpenses(userId: string, accountId?: string): Promise<Expense[]>;
+  getExpense(id: string): Promise<Expense | undefined>;
+  createExpense(expense: InsertExpense): Promise<Expense>;
+  updateExpense(id: string, updates: Partial<InsertExpense>): Promise<Expense | undefined>;
+  deleteExpense(id: string): Promise<void>;
+  
+  // Fee schedule operations
+  getFeeSchedules(userId: string): Promise<FeeSchedule[]>;
+  getFeeSchedule(id: string): Promise<FeeSchedule | undefined>;
+  createFeeSchedule(schedule: InsertFeeSchedule): Promise<FeeSchedule>;
+  deleteFeeSchedule(id: string): Promise<void>;
+  
+  // Setup (playbook) operations
+  getSetups(userId: string): Promise<Setup[]>;
+  getSetup(id: string): Promise<Setup | undefined>;
+  createSetup(setup: InsertSetup): Promise<Setup>;
+  updateSetup(id: string, updates: Partial<InsertSetup>): Promise<Setup | undefined>;
+  deleteSetup(id: string): Promise<void>;
+  getTradeSetupLinks(userId: string): Promise<TradeSetup[]>;
+  setTradeSetups(tradeId: string, setupIds: string[]): Promise<TradeSetup[]>;
+  
+  // Copy-trade group operations
+  getAccountGroups(userId: string): Promise<AccountGroup[]>;
+  getAccountGroup(id: string): Promise<AccountGroup | undefined>;
+  createAccountGroup(group: InsertAccountGroup): Promise<AccountGroup>;
+  updateAccountGroup(id: string, updates: Partial<InsertAccountGroup>): Promise<AccountGroup | undefined>;
+  deleteAccountGroup(id: string): Promise<void>;
+  getAccountGroupMembers(groupId: string): Promise<AccountGroupMember[]>;
+  addAccountGroupMember(member: InsertAccountGroupMember): Promise<AccountGroupMember>;
+  removeAccountGroupMember(groupId: string, accountId: string): Promise<void>;
+  
+  // News blackout operations
+  getNewsViolations(userId: string, accountId?: string, from?: string, to?: string): Promise<NewsViolation[]>;
   
   // Journal operations
   getJournalEntries(userId: string, month?: string, accountId?: string): Promise<JournalEntry[]>;
@@ -115,6 +205,22 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getAccountStatusHistory(accountId: string): Promise<AccountStatusHistory[]> {
+    return await db
+      .select()
+      .from(accountStatusHistory)
+      .where(eq(accountStatusHistory.tradingAccountId, accountId))
+      .orderBy(desc(accountStatusHistory.createdAt));
+  }
+
+  async createAccountStatusChange(change: InsertAccountStatusHistory): Promise<AccountStatusHistory> {
+    const [newChange] = await db
+      .insert(accountStatusHistory)
+      .values(change)
+      .returning();
+    return newChange;
+  }
+
   // Trade operations
   async getTrades(userId: string, accountId?: string, from?: string, to?: string, limit = 100): Promise<Trade[]> {
     let conditions = [eq(trades.userId, userId)];
@@ -139,6 +245,19 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getTradesForAccount(accountId: string): Promise<Trade[]> {
+    return await db
+      .select()
+      .from(trades)
+      .where(eq(trades.tradingAccountId, accountId))
+      .orderBy(trades.entryTime);
+  }
+
+  async getTrade(id: string): Promise<Trade | undefined> {
+    const [trade] = await db.select().from(trades).where(eq(trades.id, id));
+    return trade;
+  }
+
   async createTrade(trade: InsertTrade): Promise<Trade> {
     const [newTrade] = await db
       .insert(trades)
@@ -162,6 +281,20 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getOpenTrades(userId: string, accountId?: string): Promise<Trade[]> {
+    let conditions = [eq(trades.userId, userId), isNull(trades.exitTime)];
+
+    if (accountId) {
+      conditions.push(eq(trades.tradingAccountId, accountId));
+    }
+
+    return await db
+      .select()
+      .from(trades)
+      .where(and(...conditions))
+      .orderBy(trades.entryTime);
+  }
+
   async getTradeByExternalId(userId: string, accountId: string, externalId: string): Promise<Trade | undefined> {
     const [trade] = await db
       .select()
@@ -170,12 +303,309 @@ export class DatabaseStorage implements IStorage {
         and(
           eq(trades.userId, userId),
           eq(trades.tradingAccountId, accountId),
-          sql`${trades.tags}::jsonb ? ${externalId}`
+          eq(trades.externalId, externalId)
         )
       );
     return trade;
   }
 
+  async updateTrade(id: string, updates: Partial<InsertTrade>): Promise<Trade | undefined> {
+    const [updated] = await db
+      .update(trades)
+      .set(updates)
+      .where(eq(trades.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Journal entries outlive the trade they were written about
+  async deleteTrade(id: string): Promise<void> {
+    await db.update(journalEntries).set({ tradeId: null }).where(eq(journalEntries.tradeId, id));
+    await db.delete(trades).where(eq(trades.id, id));
+  }
+
+  // Re-points journal entries and setup tags before a merged-away trade is deleted
+  async moveTradeLinks(fromTradeId: string, toTradeId: string): Promise<void> {
+    await db.update(journalEntries).set({ tradeId: toTradeId }).where(eq(journalEntries.tradeId, fromTradeId));
+    const links = await db.select().from(tradeSetups).where(eq(tradeSetups.tradeId, fromTradeId));
+    if (links.length > 0) {
+      await db
+        .insert(tradeSetups)
+        .values(links.map(link => ({ tradeId: toTradeId, setupId: link.setupId })))
+        .onConflictDoNothing();
+    }
+  }
+
+  async getTradeRevisions(tradeId: string): Promise<TradeRevision[]> {
+    return await db
+      .select()
+      .from(tradeRevisions)
+      .where(eq(tradeRevisions.tradeId, tradeId))
+      .orderBy(desc(tradeRevisions.createdAt));
+  }
+
+  async createTradeRevision(revision: InsertTradeRevision): Promise<TradeRevision> {
+    const [newRevision] = await db
+      .insert(tradeRevisions)
+      .values(revision)
+      .returning();
+    return newRevision;
+  }
+
+  // Execution (fill) operations
+  async getExecutions(accountId: string): Promise<Execution[]> {
+    return await db
+      .select()
+      .from(executions)
+      .where(eq(executions.tradingAccountId, accountId))
+      .orderBy(executions.executedAt);
+  }
+
+  // Fills already stored under the same broker id are skipped
+  async createExecutions(fills: InsertExecution[]): Promise<Execution[]> {
+    if (fills.length === 0) return [];
+    return await db
+      .insert(executions)
+      .values(fills)
+      .onConflictDoNothing({ target: [executions.tradingAccountId, executions.externalId] })
+      .returning();
+  }
+
+  async getTradeExecutions(tradeId: string): Promise<(TradeExecution & { execution: Execution })[]> {
+    const rows = await db
+      .select()
+      .from(tradeExecutions)
+      .innerJoin(executions, eq(tradeExecutions.executionId, executions.id))
+      .where(eq(tradeExecutions.tradeId, tradeId))
+      .orderBy(executions.executedAt);
+    return rows.map(row => ({ ...row.trade_executions, execution: row.executions }));
+  }
+
+  // Payout operations
+  async getPayouts(userId: string, accountId?: string): Promise<Payout[]> {
+    let conditions = [eq(payouts.userId, userId)];
+
+    if (accountId) {
+      conditions.push(eq(payouts.tradingAccountId, accountId));
+    }
+
+    return await db
+      .select()
+      .from(payouts)
+      .where(and(...conditions))
+      .orderBy(desc(payouts.requestedAt));
+  }
+
+  async getPayout(id: string): Promise<Payout | undefined> {
+    const [payout] = await db.select().from(payouts).where(eq(payouts.id, id));
+    return payout;
+  }
+
+  async createPayout(payout: InsertPayout): Promise<Payout> {
+    const [newPayout] = await db
+      .insert(payouts)
+      .values(payout)
+      .returning();
+    return newPayout;
+  }
+
+  async updatePayout(id: string, updates: Partial<InsertPayout>): Promise<Payout | undefined> {
+    const [updated] = await db
+      .update(payouts)
+      .set(updates)
+      .where(eq(payouts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deletePayout(id: string): Promise<void> {
+    await db.delete(payouts).where(eq(payouts.id, id));
+  }
+
+  // Expense operations
+  async getExpenses(userId: string, accountId?: string): Promise<Expense[]> {
+    let conditions = [eq(expenses.userId, userId)];
+
+    if (accountId) {
+      conditions.push(eq(expenses.tradingAccountId, accountId));
+    }
+
+    return await db
+      .select()
+      .from(expenses)
+      .where(and(...conditions))
+      .orderBy(desc(expenses.incurredAt));
+  }
+
+  async getExpense(id: string): Promise<Expense | undefined> {
+    const [expense] = await db.select().from(expenses).where(eq(expenses.id, id));
+    return expense;
+  }
+
+  async createExpense(expense: InsertExpense): Promise<Expense> {
+    const [newExpense] = await db
+      .insert(expenses)
+      .values(expense)
+      .returning();
+    return newExpense;
+  }
+
+  async updateExpense(id: string, updates: Partial<InsertExpense>): Promise<Expense | undefined> {
+    const [updated] = await db
+      .update(expenses)
+      .set(updates)
+      .where(eq(expenses.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteExpense(id: string): Promise<void> {
+    await db.delete(expenses).where(eq(expenses.id, id));
+  }
+
+  // Fee schedule operations
+  async getFeeSchedules(userId: string): Promise<FeeSchedule[]> {
+    return await db
+      .select()
+      .from(feeSchedules)
+      .where(eq(feeSchedules.userId, userId))
+      .orderBy(feeSchedules.createdAt);
+  }
+
+  async getFeeSchedule(id: string): Promise<FeeSchedule | undefined> {
+    const [schedule] = await db.select().from(feeSchedules).where(eq(feeSchedules.id, id));
+    return schedule;
+  }
+
+  async createFeeSchedule(schedule: InsertFeeSchedule): Promise<FeeSchedule> {
+    const [newSchedule] = await db
+      .insert(feeSchedules)
+      .values(schedule)
+      .returning();
+    return newSchedule;
+  }
+
+  async deleteFeeSchedule(id: string): Promise<void> {
+    await db.delete(feeSchedules).where(eq(feeSchedules.id, id));
+  }
+
+  // Setup (playbook) operations
+  async getSetups(userId: string): Promise<Setup[]> {
+    return await db
+      .select()
+      .from(setups)
+      .where(eq(setups.userId, userId))
+      .orderBy(setups.name);
+  }
+
+  async getSetup(id: string): Promise<Setup | undefined> {
+    const [setup] = await db.select().from(setups).where(eq(setups.id, id));
+    return setup;
+  }
+
+  async createSetup(setup: InsertSetup): Promise<Setup> {
+    const [newSetup] = await db
+      .insert(setups)
+      .values(setup)
+      .returning();
+    return newSetup;
+  }
+
+  async updateSetup(id: string, updates: Partial<InsertSetup>): Promise<Setup | undefined> {
+    const [updated] = await db
+      .update(setups)
+      .set(updates)
+      .where(eq(setups.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSetup(id: string): Promise<void> {
+    await db.delete(setups).where(eq(setups.id, id));
+  }
+
+  async getTradeSetupLinks(userId: string): Promise<TradeSetup[]> {
+    const rows = await db
+      .select({ link: tradeSetups })
+      .from(tradeSetups)
+      .innerJoin(setups, eq(tradeSetups.setupId, setups.id))
+      .where(eq(setups.userId, userId));
+    return rows.map(row => row.link);
+  }
+
+  // Replaces the trade's setups with the given ones
+  async setTradeSetups(tradeId: string, setupIds: string[]): Promise<TradeSetup[]> {
+    await db.delete(tradeSetups).where(eq(tradeSetups.tradeId, tradeId));
+    if (setupIds.length === 0) return [];
+    return await db
+      .insert(tradeSetups)
+      .values(Array.from(new Set(setupIds)).map(setupId => ({ tradeId, setupId })))
+      .returning();
+  }
+
+  // Copy-trade group operations
+  async getAccountGroups(userId: string): Promise<AccountGroup[]> {
+    return await db
+      .select()
+      .from(accountGroups)
+      .where(eq(accountGroups.userId, userId))
+      .orderBy(accountGroups.name);
+  }
+
+  async getAccountGroup(id: string): Promise<AccountGroup | undefined> {
+    const [group] = await db.select().from(accountGroups).where(eq(accountGroups.id, id));
+    return group;
+  }
+
+  async createAccountGroup(group: InsertAccountGroup): Promise<AccountGroup> {
+    const [newGroup] = await db
+      .insert(accountGroups)
+      .values(group)
+      .returning();
+    return newGroup;
+  }
+
+  async updateAccountGroup(id: string, updates: Partial<InsertAccountGroup>): Promise<AccountGroup | undefined> {
+    const [updated] = await db
+      .update(accountGroups)
+      .set(updates)
+      .where(eq(accountGroups.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAccountGroup(id: string): Promise<void> {
+    await db.delete(accountGroups).where(eq(accountGroups.id, id));
+  }
+
+  async getAccountGroupMembers(groupId: string): Promise<AccountGroupMember[]> {
+    return await db
+      .select()
+      .from(accountGroupMembers)
+      .where(eq(accountGroupMembers.groupId, groupId));
+  }
+
+  async addAccountGroupMember(member: InsertAccountGroupMember): Promise<AccountGroupMember> {
+    const [newMember] = await db
+      .insert(accountGroupMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [accountGroupMembers.groupId, accountGroupMembers.tradingAccountId],
+        set: { qtyMultiplier: member.qtyMultiplier },
+      })
+      .returning();
+    return newMember;
+  }
+
+  async removeAccountGroupMember(groupId: string, accountId: string): Promise<void> {
+    await db
+      .delete(accountGroupMembers)
+      .where(and(
+        eq(accountGroupMembers.groupId, groupId),
+        eq(accountGroupMembers.tradingAccountId, accountId)
+      ));
+  }
+
   // Journal operations
   async getJournalEntries(userId: string, month?: string, accountId?: string): Promise<JournalEntry[]> {
     let conditions = [eq(journalEntries.userId, userId)];
@@ -249,6 +679,29 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // News blackout operations
+  async getNewsViolations(userId: string, accountId?: string, from?: string, to?: string): Promise<NewsViolation[]> {
+    let conditions = [eq(newsViolations.userId, userId)];
+
+    if (accountId) {
+      conditions.push(eq(newsViolations.tradingAccountId, accountId));
+    }
+
+    if (from) {
+      conditions.push(gte(newsViolations.tradeDate, from));
+    }
+
+    if (to) {
+      conditions.push(lte(newsViolations.tradeDate, to));
+    }
+
+    return await db
+      .select()
+      .from(newsViolations)
+      .where(and(...conditions))
+      .orderBy(newsViolations.eventTime);
+  }
+
   // Economic events operations
   async getEconomicEvents(month: string): Promise<EconomicEvent[]> {
     const startDate = `${month}-01`;
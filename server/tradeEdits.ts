@@ -0,0 +1,179 @@
+import type { Trade, InsertTrade, TradeUpdate } from "@shared/schema";
+import { contractRoot } from "@shared/contractRegistry";
+import { assetClassOf } from "@shared/instrumentRegistry";
+import { computeTradePnl } from "@shared/tradePnl";
+
+export interface SplitLeg {
+  qty: number;
+  // Defaults to the original trade's exit when the partial left at the same price
+  exitPrice?: number | null;
+  exitTime?: Date | null;
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function weightedAverage(values: { qty: number; price: number }[]): number {
+  const qty = values.reduce((sum, value) => sum + value.qty, 0);
+  return values.reduce((sum, value) => sum + value.qty * value.price, 0) / qty;
+}
+
+// Bars-derived fields describe the old position; recalculateDailyMetrics fills them back in
+const CLEARED_EXCURSIONS = {
+  mfe: null,
+  mae: null,
+  bestExitPrice: null,
+  timeToMfeSec: null,
+};
+
+// Scales a fee-schedule breakdown (see feeSchedules.ts) to one leg of a split
+function splitStats(stats: unknown, share: number): Record<string, unknown> {
+  const values = { ...((stats as Record<string, any>) || {}) };
+  if (values.feeBreakdown) {
+    const breakdown = { ...values.feeBreakdown };
+    for (const component of ['commission', 'exchange', 'nfa', 'platform', 'total']) {
+      breakdown[component] = round2(breakdown[component] * share);
+    }
+    values.feeBreakdown = breakdown;
+  }
+  return values;
+}
+
+function mergeStats(rows: Trade[]): Record<string, unknown> {
+  const values = { ...((rows[0].stats as Record<string, any>) || {}) };
+  const breakdowns = rows
+    .map(trade => (trade.stats as Record<string, any> | null)?.feeBreakdown)
+    .filter(Boolean);
+  if (breakdowns.length > 0) {
+    const merged = { ...breakdowns[0] };
+    for (const component of ['commission', 'exchange', 'nfa', 'platform', 'total']) {
+      merged[component] = round2(breakdowns.reduce((sum, breakdown) => sum + breakdown[component], 0));
+    }
+    values.feeBreakdown = merged;
+  }
+  return values;
+}
+
+export function tradeDate(trade: Pick<Trade, 'entryTime'>): string {
+  return new Date(trade.entryTime).toISOString().split('T')[0];
+}
+
+// Broker P&L is kept unless the correction replaces it; computed P&L follows the new prices
+export function applyTradeUpdate(trade: Trade, updates: TradeUpdate): Partial<InsertTrade> {
+  const values: Partial<InsertTrade> = { ...updates };
+  if (updates.symbol) {
+    values.root = contractRoot(updates.symbol);
+    values.assetClass = updates.assetClass ?? assetClassOf(updates.symbol);
+  }
+
+  const pricesChanged = ['symbol', 'assetClass', 'side', 'qty', 'entryPrice', 'exitPrice', 'quoteToUsd', 'entryTime', 'exitTime']
+    .some(field => field in updates);
+  if (pricesChanged) Object.assign(values, CLEARED_EXCURSIONS);
+
+  if ('pnl' in updates) {
+    values.pnlSource = updates.pnl === null || updates.pnl === undefined ? null : 'broker';
+  } else if (pricesChanged && trade.pnlSource !== 'broker') {
+    const computed = computeTradePnl({ ...trade, ...values } as Trade);
+    values.pnl = computed ? computed.grossPnl.toString() : null;
+    values.pnlSource = computed ? 'computed' : null;
+  }
+  return values;
+}
+
+// One row per partial exit. The first leg keeps the original row's import identity;
+// fees and planned risk are shared out by size.
+export function splitTrade(trade: Trade, legs: SplitLeg[]): InsertTrade[] {
+  const totalQty = parseFloat(trade.qty);
+  const fees = toNumber(trade.fees) ?? 0;
+  const pnl = toNumber(trade.pnl);
+  const plannedRisk = toNumber(trade.plannedRisk);
+  const { id, createdAt, ...base } = trade;
+
+  let feesLeft = fees;
+  return legs.map((leg, index): InsertTrade => {
+    const isLast = index === legs.length - 1;
+    const share = leg.qty / totalQty;
+    const legFees = isLast ? round2(feesLeft) : round2(fees * share);
+    feesLeft -= legFees;
+
+    const values: InsertTrade = {
+      ...base,
+      ...CLEARED_EXCURSIONS,
+      qty: leg.qty.toString(),
+      exitPrice: leg.exitPrice === undefined ? trade.exitPrice : leg.exitPrice?.toString() ?? null,
+      exitTime: leg.exitTime === undefined ? trade.exitTime : leg.exitTime,
+      fees: legFees.toString(),
+      tags: Array.isArray(trade.tags) ? trade.tags : [],
+      stats: splitStats(trade.stats, share),
+      plannedRisk: plannedRisk === null ? null : round2(plannedRisk * share).toString(),
+      ...(index > 0 ? { rowHash: null, externalId: null, brokerExecutionId: null } : {}),
+    };
+
+    if (leg.exitPrice === undefined && pnl !== null) {
+      values.pnl = round2(pnl * share).toString();
+    } else {
+      const computed = computeTradePnl(values as Trade);
+      values.pnl = computed ? computed.grossPnl.toString() : null;
+      values.pnlSource = computed ? 'computed' : null;
+    }
+    return values;
+  });
+}
+
+// Collapses partial rows of one position into the earliest row. Callers check that
+// the trades share an account, contract and side.
+export function mergeTrades(rows: Trade[]): Partial<InsertTrade> {
+  const ordered = [...rows].sort((a, b) => new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime());
+  const first = ordered[0];
+  const qty = ordered.reduce((sum, trade) => sum + parseFloat(trade.qty), 0);
+  const entryPrice = weightedAverage(ordered.map(trade => ({ qty: parseFloat(trade.qty), price: parseFloat(trade.entryPrice) })));
+
+  const allClosed = ordered.every(trade => trade.exitPrice !== null && trade.exitTime !== null);
+  const exitPrice = allClosed
+    ? weightedAverage(ordered.map(trade => ({ qty: parseFloat(trade.qty), price: parseFloat(trade.exitPrice!) })))
+    : null;
+  const exitTime = allClosed
+    ? new Date(Math.max(...ordered.map(trade => new Date(trade.exitTime!).getTime())))
+    : null;
+
+  const sameValue = (field: 'stopPrice' | 'targetPrice') =>
+    ordered.every(trade => trade[field] === first[field]) ? first[field] : null;
+  const sumOf = (field: 'fees' | 'pnl' | 'plannedRisk') =>
+    ordered.every(trade => toNumber(trade[field]) !== null)
+      ? round2(ordered.reduce((sum, trade) => sum + toNumber(trade[field])!, 0)).toString()
+      : null;
+
+  const tags = Array.from(new Set(ordered.flatMap(trade => Array.isArray(trade.tags) ? trade.tags : [])));
+  const values: Partial<InsertTrade> = {
+    ...CLEARED_EXCURSIONS,
+    qty: qty.toString(),
+    entryPrice: entryPrice.toString(),
+    exitPrice: exitPrice === null ? null : exitPrice.toString(),
+    entryTime: new Date(first.entryTime),
+    exitTime,
+    stopPrice: sameValue('stopPrice'),
+    targetPrice: sameValue('targetPrice'),
+    plannedRisk: sumOf('plannedRisk'),
+    fees: sumOf('fees') ?? '0',
+    tags,
+    stats: mergeStats(ordered),
+  };
+
+  const pnl = sumOf('pnl');
+  if (pnl !== null && allClosed) {
+    values.pnl = pnl;
+    values.pnlSource = ordered.every(trade => trade.pnlSource === 'broker') ? 'broker' : 'computed';
+  } else {
+    const computed = computeTradePnl({ ...first, ...values } as Trade);
+    values.pnl = computed ? computed.grossPnl.toString() : null;
+    values.pnlSource = computed ? 'computed' : null;
+  }
+  return values;
+}
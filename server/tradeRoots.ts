@@ -0,0 +1,25 @@
+import { db } from "./db";
+import { trades } from "@shared/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import { contractRoot } from "@shared/contractRegistry";
+
+// Trades written before the contract registry have no root, so every lookup by root
+// (excursions, position closing, the positions view) would miss them. Runs at startup;
+// once every row has a root it is a single empty query.
+export async function backfillTradeRoots(): Promise<number> {
+  const symbols = await db
+    .selectDistinct({ symbol: trades.symbol })
+    .from(trades)
+    .where(isNull(trades.root));
+
+  let updated = 0;
+  for (const { symbol } of symbols) {
+    const rows = await db
+      .update(trades)
+      .set({ root: contractRoot(symbol) })
+      .where(and(eq(trades.symbol, symbol), isNull(trades.root)))
+      .returning({ id: trades.id });
+    updated += rows.length;
+  }
+  return updated;
+}
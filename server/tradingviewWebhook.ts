@@ -1,8 +1,15 @@
 import type { Request, Response } from 'express';
 import { db } from './db';
-import { trades, userIngestTokens, journalEntries, dailyMetrics, users } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { trades, tradingAccounts, userIngestTokens, journalEntries, dailyMetrics, users } from '@shared/schema';
+import { eq, and, sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
+import { updateEvaluationStatus } from './evaluationTracker';
+import { listPropFirms } from '@shared/propFirmRegistry';
+import { contractRoot } from '@shared/contractRegistry';
+import { assetClassOf } from '@shared/instrumentRegistry';
+import { closeOpenPositions } from './positions';
+import { loadFeeScheduler, withScheduledFees } from './feeSchedules';
+import { reconcileDays } from './reconciliation';
 
 // TradingView webhook payload interface
 interface TradingViewWebhookPayload {
@@ -46,22 +53,31 @@ async function resolveUserFromToken(token: string): Promise<string | null> {
   }
 }
 
+// Split a tag like "apex-pa" or "tpt-live" into a registry firm id and account type
+function parseAccountTag(accountTag: string): { propFirm: string, accountType: string } | null {
+  const [prefix, accountType] = accountTag.toLowerCase().split('-');
+  if (!prefix || !accountType) return null;
+
+  const firm = listPropFirms().find(f => f.id === prefix || f.aliases.includes(prefix));
+  return firm ? { propFirm: firm.id, accountType } : null;
+}
+
 // Find trading account by tag
 async function findTradingAccountByTag(userId: string, accountTag: string): Promise<string | null> {
-  // This would implement proper account matching based on tag
-  // For now, return first account - in production, match by tag pattern
   try {
-    // Simple mapping of account tags to prop firms and types
-    const tagMapping: Record<string, { propFirm: string, accountType: string }> = {
-      'apex-eval': { propFirm: 'apex', accountType: 'eval' },
-      'apex-pa': { propFirm: 'apex', accountType: 'pa' },
-      'topstep-eval': { propFirm: 'topstep', accountType: 'eval' },
-      'topstep-pa': { propFirm: 'topstep', accountType: 'pa' },
-      'tpt-live': { propFirm: 'takeprofit', accountType: 'live' }
-    };
-    
-    // For now, return a placeholder - in production would query tradingAccounts table
-    return 'default-account-id';
+    const parsed = parseAccountTag(accountTag);
+    if (!parsed) return null;
+
+    const [account] = await db.select({ id: tradingAccounts.id })
+      .from(tradingAccounts)
+      .where(and(
+        eq(tradingAccounts.userId, userId),
+        eq(tradingAccounts.propFirm, parsed.propFirm),
+        sql`${tradingAccounts.accountType} = ${parsed.accountType}`
+      ))
+      .limit(1);
+
+    return account?.id || null;
   } catch (error) {
     console.error('Error finding trading account:', error);
     return null;
@@ -83,29 +99,50 @@ async function storeScreenshot(screenshotUrl: string, userId: string, symbol: st
   return screenshotUrl;
 }
 
+// An alert on the opposite side of an open position in the same product closes it.
+// Returns the size left over to open in the alert's direction.
+async function closeOpenTradeIntent(accountId: string, payload: TradingViewWebhookPayload): Promise<{ tradeId: string | null; remainingQty: number }> {
+  const qty = parseFloat(String(payload.qty));
+  const { closedTradeIds, remainingQty } = await closeOpenPositions(accountId, {
+    symbol: payload.symbol,
+    side: normalizeSide(payload.side) === 'long' ? 'short' : 'long',
+    qty,
+    price: parseFloat(String(payload.price)),
+    time: new Date(payload.time || Date.now()),
+  });
+  return { tradeId: closedTradeIds[0] ?? null, remainingQty: closedTradeIds.length > 0 ? remainingQty : qty };
+}
+
 // Create trade intent from TradingView alert
 async function createTradeIntent(userId: string, accountId: string, payload: TradingViewWebhookPayload) {
   try {
+    const closed = await closeOpenTradeIntent(accountId, payload);
+    if (closed.tradeId && closed.remainingQty <= 0) return closed.tradeId;
+    
     const tradeId = nanoid();
     const executedAt = new Date(payload.time || Date.now());
     
-    await db.insert(trades).values({
+    // Alerts carry no commissions; the fee schedule supplies them
+    const feesFor = await loadFeeScheduler(accountId);
+    await db.insert(trades).values(withScheduledFees({
       id: tradeId,
       userId,
       tradingAccountId: accountId,
       symbol: payload.symbol,
+      root: contractRoot(payload.symbol),
+      assetClass: assetClassOf(payload.symbol),
       side: normalizeSide(payload.side),
-      qty: String(payload.qty),
+      qty: String(closed.remainingQty),
       entryPrice: String(payload.price),
       exitPrice: null,
       entryTime: executedAt,
       exitTime: null,
-      fees: '0',
+      fees: null,
       pnl: null,
       source: 'tv',
       externalId: payload.orderId || `tv_${tradeId}`,
       importSource: 'tradingview_webhook'
-    });
+    }, feesFor));
     
     return tradeId;
   } catch (error) {
@@ -152,25 +189,6 @@ async function createJournalEntryWithScreenshot(
   }
 }
 
-// Mark day as pending reconciliation
-async function markDayPendingReconcile(userId: string, accountId: string, date: Date) {
-  try {
-    const dateStr = date.toISOString().split('T')[0];
-    
-    // Update or create daily metrics with pending status
-    // This is simplified - in production would use proper upsert logic
-    const stats = {
-      pending_reconcile: true,
-      last_tv_update: new Date().toISOString()
-    };
-    
-    // For now, just log - in production would update dailyMetrics table
-    console.log(`Marked ${dateStr} as pending reconcile for account ${accountId}`);
-  } catch (error) {
-    console.error('Error marking day pending reconcile:', error);
-  }
-}
-
 // Main TradingView webhook handler
 export async function handleTradingViewWebhook(req: Request, res: Response) {
   try {
@@ -213,9 +231,12 @@ export async function handleTradingViewWebhook(req: Request, res: Response) {
     // Create journal entry with screenshot
     await createJournalEntryWithScreenshot(userId, accountId, payload, storedScreenshotUrl);
     
-    // Mark day as pending reconciliation
-    const tradeDate = new Date(payload.time || Date.now());
-    await markDayPendingReconcile(userId, accountId, tradeDate);
+    // Match the alert against broker records for the day; it stays pending until one arrives
+    const tradeDate = new Date(payload.time || Date.now()).toISOString().split('T')[0];
+    await reconcileDays(userId, accountId, [tradeDate]);
+    
+    // Re-check eval pass/fail now that the account has a new trade
+    await updateEvaluationStatus(accountId, 'tv');
     
     console.log(`TradingView webhook processed: trade ${tradeId} created`);
     
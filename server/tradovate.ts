@@ -18,22 +18,21 @@ export interface TradovateAccount {
   dayTradingBuyingPower: number;
 }
 
-export interface TradovateTrade {
+// A single execution from /fill/list. Fills are not trades: a scale-in or a partial
+// exit is its own fill, and round trips are built from them in roundTrips.ts.
+export interface TradovateFill {
   id: number;
+  orderId: number;
   accountId: number;
   symbol: string;
   side: 'Buy' | 'Sell';
   quantity: number;
   price: number;
   timestamp: string;
-  pnl: number;
   commission: number;
 }
 
 export class TradovateAPI {
-  public accessToken: string | null = null;
-  public refreshToken: string | null = null;
-
   async authenticate(credentials: TradovateCredentials): Promise<{ accessToken: string; refreshToken: string }> {
     try {
       const response = await fetch(TRADOVATE_AUTH_URL, {
@@ -56,9 +55,6 @@ export class TradovateAPI {
       }
 
       const data = await response.json();
-      
-      this.accessToken = data.accessToken;
-      this.refreshToken = data.refreshToken;
 
       return {
         accessToken: data.accessToken,
@@ -85,8 +81,6 @@ export class TradovateAPI {
       }
 
       const data = await response.json();
-      this.accessToken = data.accessToken;
-      
       return data.accessToken;
     } catch (error) {
       console.error('Tradovate token refresh error:', error);
@@ -94,15 +88,11 @@ export class TradovateAPI {
     }
   }
 
-  async getAccounts(): Promise<TradovateAccount[]> {
-    if (!this.accessToken) {
-      throw new Error('Not authenticated with Tradovate');
-    }
-
+  async getAccounts(accessToken: string): Promise<TradovateAccount[]> {
     try {
       const response = await fetch(`${TRADOVATE_API_BASE}/account/list`, {
         headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
+          'Authorization': `Bearer ${accessToken}`,
         },
       });
 
@@ -126,51 +116,82 @@ export class TradovateAPI {
     }
   }
 
-  async getTrades(accountId: number, startDate?: string, endDate?: string): Promise<TradovateTrade[]> {
-    if (!this.accessToken) {
-      throw new Error('Not authenticated with Tradovate');
+  private async getItems(accessToken: string, entity: string, ids: number[]): Promise<any[]> {
+    if (ids.length === 0) return [];
+
+    const response = await fetch(`${TRADOVATE_API_BASE}/${entity}/items?ids=${ids.join(',')}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${entity} items: ${response.statusText}`);
     }
 
-    try {
-      let url = `${TRADOVATE_API_BASE}/fill/list?accountId=${accountId}`;
-      
-      if (startDate) url += `&startTimestamp=${startDate}`;
-      if (endDate) url += `&endTimestamp=${endDate}`;
+    return response.json();
+  }
 
-      const response = await fetch(url, {
+  // The token is passed per call rather than read from this shared instance, so
+  // concurrent syncs for different users never use each other's session
+  async getFills(accessToken: string, accountId: number, startDate?: string, endDate?: string): Promise<TradovateFill[]> {
+    try {
+      const response = await fetch(`${TRADOVATE_API_BASE}/fill/list`, {
         headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
+          'Authorization': `Bearer ${accessToken}`,
         },
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch trades: ${response.statusText}`);
+        throw new Error(`Failed to fetch fills: ${response.statusText}`);
       }
 
-      const fills = await response.json();
-      
-      return fills.map((fill: any) => ({
-        id: fill.id,
-        accountId: fill.accountId,
-        symbol: fill.instrument.masterInstrument.name,
-        side: fill.side,
-        quantity: fill.qty,
-        price: fill.price,
-        timestamp: fill.timestamp,
-        pnl: fill.realizedPnL || 0,
-        commission: fill.commission || 0,
-      }));
+      const start = startDate ? new Date(startDate).getTime() : -Infinity;
+      const end = endDate ? new Date(endDate).getTime() : Infinity;
+      const fills = (await response.json()).filter((fill: any) => {
+        const time = new Date(fill.timestamp).getTime();
+        return fill.active !== false && time >= start && time <= end;
+      });
+
+      // Fills only carry order and contract ids; the account, symbol and fees live elsewhere
+      const unique = (values: number[]) => Array.from(new Set(values));
+      const [orders, contracts, fees] = await Promise.all([
+        this.getItems(accessToken, 'order', unique(fills.map((fill: any) => fill.orderId))),
+        this.getItems(accessToken, 'contract', unique(fills.map((fill: any) => fill.contractId))),
+        this.getItems(accessToken, 'fillFee', fills.map((fill: any) => fill.id)),
+      ]);
+      const orderAccount = new Map<number, number>(orders.map((order: any) => [order.id, order.accountId]));
+      const contractName = new Map<number, string>(contracts.map((contract: any) => [contract.id, contract.name]));
+      const fillFees = new Map<number, number>(fees.map((fee: any) => [
+        fee.id,
+        (fee.commission || 0) + (fee.clearingFee || 0) + (fee.exchangeFee || 0) + (fee.nfaFee || 0) + (fee.brokerageFee || 0),
+      ]));
+
+      return fills
+        .filter((fill: any) => orderAccount.get(fill.orderId) === accountId)
+        .map((fill: any) => ({
+          id: fill.id,
+          orderId: fill.orderId,
+          accountId,
+          symbol: contractName.get(fill.contractId) || String(fill.contractId),
+          side: fill.action,
+          quantity: fill.qty,
+          price: fill.price,
+          timestamp: fill.timestamp,
+          commission: fillFees.get(fill.id) || 0,
+        }));
     } catch (error) {
-      console.error('Error fetching Tradovate trades:', error);
-      throw new Error('Failed to fetch trades from Tradovate');
+      console.error('Error fetching Tradovate fills:', error);
+      throw new Error('Failed to fetch fills from Tradovate');
     }
   }
 
-  async syncAccountTrades(accountId: number): Promise<TradovateTrade[]> {
+  async syncAccountFills(accessToken: string, accountId: number): Promise<TradovateFill[]> {
     const today = new Date();
     const thirtyDaysAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
     
-    return this.getTrades(
+    return this.getFills(
+      accessToken,
       accountId,
       thirtyDaysAgo.toISOString(),
       today.toISOString()
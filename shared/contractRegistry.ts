@@ -0,0 +1,114 @@
+import registry from "./contracts.json";
+
+// Futures contract specifications live in contracts.json, like the prop firm registry.
+// Symbols arrive in many shapes (MNQZ4, MNQ 12-24, /MNQZ24, NQZ2024, CME_MINI:MNQ1!);
+// parseContractSymbol reduces them to a root that can be looked up here.
+
+export interface TradingHours {
+  // Session times are wall-clock in this zone; a session opening the evening before belongs to the next day
+  timezone: string;
+  open: string;
+  close: string;
+  // Days on which a session opens
+  days: string[];
+}
+
+export interface ContractSpec {
+  root: string;
+  name: string;
+  exchange: string;
+  tickSize: number;
+  tickValue: number;
+  // Dollars per full point for one contract
+  pointValue: number;
+  currency: string;
+  // Key into the registry's trading hours
+  hours: string;
+  // Set on minis that have a micro and on micros, pointing at the other side of the pair
+  microRoot?: string;
+  miniRoot?: string;
+}
+
+export interface ContractRegistry {
+  version: number;
+  tradingHours: Record<string, TradingHours>;
+  contracts: ContractSpec[];
+}
+
+export interface ParsedContractSymbol {
+  root: string;
+  // Expiry month 1-12 and four-digit year; null for continuous or undated symbols
+  month: number | null;
+  year: number | null;
+  spec: ContractSpec | null;
+}
+
+const REGISTRY = registry as ContractRegistry;
+
+const MONTH_CODES = 'FGHJKMNQUVXZ';
+
+export function listContracts(): ContractSpec[] {
+  return REGISTRY.contracts;
+}
+
+export function getContract(root: string): ContractSpec | undefined {
+  return REGISTRY.contracts.find(contract => contract.root === root);
+}
+
+export function getTradingHours(spec: ContractSpec): TradingHours | undefined {
+  return REGISTRY.tradingHours[spec.hours];
+}
+
+export function isMicroContract(spec: ContractSpec): boolean {
+  return Boolean(spec.miniRoot);
+}
+
+// Single-digit years resolve to the nearest matching year that is not more than a year past
+function expandYear(digits: string, referenceYear: number): number {
+  if (digits.length === 4) return Number(digits);
+  if (digits.length === 2) return 2000 + Number(digits);
+  let year = Math.floor(referenceYear / 10) * 10 + Number(digits);
+  if (year < referenceYear - 1) year += 10;
+  return year;
+}
+
+export function parseContractSymbol(symbol: string, referenceYear = new Date().getUTCFullYear()): ParsedContractSymbol {
+  const cleaned = symbol
+    .toUpperCase()
+    .trim()
+    .replace(/^[A-Z_]+:/, '')   // TradingView exchange prefix
+    .replace(/^\//, '')          // /MNQZ24
+    .replace(/\.[A-Z]+$/, '')    // MNQZ4.CME
+    .replace(/\d!$/, '');        // continuous MNQ1!
+
+  const result = (root: string, month: number | null, year: number | null): ParsedContractSymbol =>
+    ({ root, month, year, spec: getContract(root) ?? null });
+
+  // MNQ 12-24, MNQ 12-2024
+  const numeric = cleaned.match(/^([A-Z0-9]+)\s+(\d{1,2})-(\d{2}|\d{4})$/);
+  if (numeric) {
+    return result(numeric[1], Number(numeric[2]), expandYear(numeric[3], referenceYear));
+  }
+
+  // MNQZ4, MNQZ24, NQZ2024: prefer a known root when the split is ambiguous
+  const compact = cleaned.split(/\s/)[0];
+  const candidates = Array.from(compact.matchAll(/(?=([FGHJKMNQUVXZ])(\d{1,2}|\d{4})$)/g))
+    .map(match => ({ root: compact.slice(0, match.index), code: match[1], digits: match[2] }))
+    .filter(candidate => candidate.root.length > 0);
+  const dated = candidates.find(candidate => getContract(candidate.root)) ?? candidates[0];
+  if (dated) {
+    return result(dated.root, MONTH_CODES.indexOf(dated.code) + 1, expandYear(dated.digits, referenceYear));
+  }
+
+  return result(compact, null, null);
+}
+
+export function contractRoot(symbol: string): string {
+  return parseContractSymbol(symbol).root;
+}
+
+// Canonical exchange-style symbol, e.g. MNQZ4; undated symbols are returned as the root
+export function formatContractSymbol(parsed: ParsedContractSymbol): string {
+  if (parsed.month === null || parsed.year === null) return parsed.root;
+  return `${parsed.root}${MONTH_CODES[parsed.month - 1]}${parsed.year % 10}`;
+}
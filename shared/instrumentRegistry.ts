@@ -0,0 +1,86 @@
+import registry from "./instruments.json";
+import { parseContractSymbol } from "./contractRegistry";
+
+// Anything that is not a futures contract: forex pairs, crypto pairs and, by default,
+// stocks. Currency and coin lists live in instruments.json; futures stay in contracts.json.
+
+export type AssetClass = 'futures' | 'equity' | 'forex' | 'crypto';
+
+export const ASSET_CLASSES: AssetClass[] = ['futures', 'equity', 'forex', 'crypto'];
+
+export interface InstrumentRegistry {
+  version: number;
+  forex: {
+    currencies: string[];
+    pipSize: number;
+    // Quote currencies priced with fewer decimals, e.g. JPY pairs move in 0.01 pips
+    pipSizeByQuote: Record<string, number>;
+    // Units of the base currency in one standard lot
+    lotSize: number;
+  };
+  crypto: {
+    assets: string[];
+    // Longest quote is matched first, so BTCUSDT is BTC/USDT rather than BTCUSD + T
+    quotes: string[];
+    // Quotes treated as one US dollar
+    usdQuotes: string[];
+  };
+}
+
+export interface InstrumentInfo {
+  assetClass: AssetClass;
+  // Base and quote currency for forex and crypto pairs; null for futures and stocks
+  base: string | null;
+  quote: string | null;
+}
+
+const REGISTRY = registry as InstrumentRegistry;
+
+function cleanSymbol(symbol: string): string {
+  return symbol
+    .toUpperCase()
+    .trim()
+    .replace(/^[A-Z_]+:/, '')   // TradingView exchange prefix, e.g. OANDA:EURUSD
+    .replace(/\.P$/, '');        // perpetual suffix, e.g. BTCUSDT.P
+}
+
+export function classifyInstrument(symbol: string): InstrumentInfo {
+  if (parseContractSymbol(symbol).spec) {
+    return { assetClass: 'futures', base: null, quote: null };
+  }
+
+  const pair = cleanSymbol(symbol).replace(/[\/\-_ ]/g, '');
+  const currencies = REGISTRY.forex.currencies;
+  if (pair.length === 6 && currencies.includes(pair.slice(0, 3)) && currencies.includes(pair.slice(3))) {
+    return { assetClass: 'forex', base: pair.slice(0, 3), quote: pair.slice(3) };
+  }
+
+  const quotes = [...REGISTRY.crypto.quotes].sort((a, b) => b.length - a.length);
+  for (const quote of quotes) {
+    const base = pair.slice(0, -quote.length);
+    if (pair.endsWith(quote) && REGISTRY.crypto.assets.includes(base)) {
+      return { assetClass: 'crypto', base, quote };
+    }
+  }
+  if (REGISTRY.crypto.assets.includes(pair)) {
+    return { assetClass: 'crypto', base: pair, quote: 'USD' };
+  }
+
+  return { assetClass: 'equity', base: null, quote: null };
+}
+
+export function assetClassOf(symbol: string): AssetClass {
+  return classifyInstrument(symbol).assetClass;
+}
+
+export function forexPipSize(quote: string): number {
+  return REGISTRY.forex.pipSizeByQuote[quote] ?? REGISTRY.forex.pipSize;
+}
+
+export function forexLotSize(): number {
+  return REGISTRY.forex.lotSize;
+}
+
+export function isUsdQuote(quote: string): boolean {
+  return quote === 'USD' || REGISTRY.crypto.usdQuotes.includes(quote);
+}
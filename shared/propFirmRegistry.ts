@@ -0,0 +1,111 @@
+import registry from "./propFirms.json";
+
+// Prop firms are data, not code: display info, account plans, rule parameters and
+// CSV detection patterns all live in propFirms.json. Adding a firm is a JSON edit.
+
+export interface DrawdownRule {
+  type: 'trailing' | 'eod_trailing' | 'static';
+  amount: number;
+  // Offset above the starting balance where a trailing threshold stops moving
+  lockOffset: number;
+}
+
+export interface PayoutRule {
+  // Winning days needed since the last payout, and the net P&L that makes a day count
+  minWinningDays: number;
+  winningDayMin: number;
+  // Profit above the starting balance that has to stay in the account after a payout
+  safetyNet: number;
+  minPayout: number;
+  maxPayout?: number;
+  // Share of current profit that can be withdrawn in one request
+  maxPayoutPct?: number;
+  minDaysBetween: number;
+}
+
+export interface ScalingTier {
+  // Profit above the starting balance, as of the start of the session, that unlocks this tier
+  minProfit: number;
+  maxContracts: number;
+}
+
+export interface RuleParams {
+  dailyLossLimit?: number;
+  drawdown?: DrawdownRule;
+  profitTarget?: number;
+  minTradingDays?: number;
+  consistencyPct?: number;
+  maxContracts?: number;
+  // Contract limit by balance tier; replaces maxContracts once a tier applies
+  scalingPlan?: ScalingTier[];
+  payout?: PayoutRule;
+}
+
+export interface CsvFormatPatterns {
+  // Source tag stored on import mapping profiles
+  source: string;
+  headers: string[];
+  mappings: Record<string, string>;
+}
+
+export interface NewsBlackoutRule {
+  // Minutes around a high-impact release during which no position may be open
+  minutesBefore: number;
+  minutesAfter: number;
+  // Account types the ban applies to; all types when omitted
+  accountTypes?: string[];
+}
+
+export interface PropFirm {
+  id: string;
+  name: string;
+  color: string;
+  // Lower-case names used to recognise the firm in alert tags and email subjects.
+  // The first alias doubles as the short tag prefix, e.g. "tpt" in TPT-50K-01.
+  aliases: string[];
+  // How many micro contracts count as one mini against contract limits
+  microsPerMini?: number;
+  newsBlackout?: NewsBlackoutRule;
+  // Rule parameters per account type, keyed by plan size
+  plans: Record<string, Record<string, RuleParams>>;
+  csvFormats: CsvFormatPatterns[];
+}
+
+export interface PropFirmRegistry {
+  version: number;
+  firms: PropFirm[];
+}
+
+const REGISTRY = registry as PropFirmRegistry;
+
+export function getRegistryVersion(): number {
+  return REGISTRY.version;
+}
+
+export function listPropFirms(): PropFirm[] {
+  return REGISTRY.firms;
+}
+
+export function getPropFirm(id: string): PropFirm | undefined {
+  return REGISTRY.firms.find(firm => firm.id === id);
+}
+
+export function isKnownPropFirm(id: string): boolean {
+  return REGISTRY.firms.some(firm => firm.id === id);
+}
+
+export function getNewsBlackoutRule(propFirm: string, accountType: string): NewsBlackoutRule | null {
+  const rule = getPropFirm(propFirm)?.newsBlackout;
+  if (!rule) return null;
+  if (rule.accountTypes && !rule.accountTypes.includes(accountType)) return null;
+  return rule;
+}
+
+// Plan sizes offered by a firm across all account types, smallest first
+export function getPlanSizes(firm: PropFirm): number[] {
+  const sizes = new Set<number>();
+  for (const plans of Object.values(firm.plans)) {
+    for (const size of Object.keys(plans)) sizes.add(Number(size));
+  }
+  return Array.from(sizes).sort((a, b) => a - b);
+}
@@ -0,0 +1,56 @@
+import { dollarsPerPoint } from "./tradePnl";
+import type { AssetClass } from "./instrumentRegistry";
+
+export interface RiskFields {
+  symbol: string;
+  assetClass?: AssetClass | null;
+  side: 'long' | 'short';
+  qty: string;
+  entryPrice: string;
+  stopPrice?: string | null;
+  targetPrice?: string | null;
+  plannedRisk?: string | null;
+  quoteToUsd?: string | null;
+  pnl?: string | null;
+  fees?: string | null;
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+// Dollars at risk when the trade was opened: the planned risk if one was entered,
+// otherwise the distance to the stop times size and point value
+export function initialRisk(trade: RiskFields): number | null {
+  const planned = toNumber(trade.plannedRisk);
+  if (planned !== null && planned > 0) return planned;
+
+  const stop = toNumber(trade.stopPrice);
+  const entry = toNumber(trade.entryPrice);
+  const qty = toNumber(trade.qty);
+  if (stop === null || entry === null || qty === null) return null;
+  const pointValue = dollarsPerPoint(trade.symbol, stop, trade.assetClass, trade.quoteToUsd);
+  if (pointValue === null) return null;
+
+  const risk = Math.abs(entry - stop) * qty * pointValue;
+  return risk > 0 ? risk : null;
+}
+
+// Net P&L in multiples of initial risk; null until the trade has both a P&L and a risk
+export function realizedR(trade: RiskFields): number | null {
+  const pnl = toNumber(trade.pnl);
+  const risk = initialRisk(trade);
+  if (pnl === null || risk === null) return null;
+  return Math.round(((pnl - (toNumber(trade.fees) ?? 0)) / risk) * 100) / 100;
+}
+
+// Reward-to-risk of the bracket as planned, e.g. 1.5 for a 1:1.5 target
+export function plannedRewardRisk(trade: RiskFields): number | null {
+  const entry = toNumber(trade.entryPrice);
+  const stop = toNumber(trade.stopPrice);
+  const target = toNumber(trade.targetPrice);
+  if (entry === null || stop === null || target === null || entry === stop) return null;
+  return Math.round((Math.abs(target - entry) / Math.abs(entry - stop)) * 100) / 100;
+}
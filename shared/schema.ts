@@ -17,6 +17,7 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isKnownPropFirm } from "./propFirmRegistry";
 
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
@@ -41,11 +42,19 @@ export const users = pgTable("users", {
 });
 
 // Enums
-export const propFirmEnum = pgEnum('prop_firm', ['apex', 'topstep', 'takeprofit']);
 export const accountTypeEnum = pgEnum('account_type', ['eval', 'pa', 'live']);
 export const accountStatusEnum = pgEnum('account_status', ['active', 'disabled', 'passed', 'failed']);
 export const sideEnum = pgEnum('side', ['long', 'short']);
+export const assetClassEnum = pgEnum('asset_class', ['futures', 'equity', 'forex', 'crypto']);
+export const executionSideEnum = pgEnum('execution_side', ['buy', 'sell']);
 export const importanceEnum = pgEnum('importance', ['low', 'medium', 'high']);
+export const payoutStatusEnum = pgEnum('payout_status', ['requested', 'paid', 'denied']);
+export const expenseTypeEnum = pgEnum('expense_type', ['eval_purchase', 'reset', 'activation_fee', 'data_fee']);
+export const setupStatusEnum = pgEnum('setup_status', ['active', 'paused']);
+export const tradeRevisionActionEnum = pgEnum('trade_revision_action', ['update', 'delete', 'split', 'merge']);
+export const reconciliationKindEnum = pgEnum('reconciliation_kind', ['unmatched', 'mismatch']);
+export const reconciliationStatusEnum = pgEnum('reconciliation_status', ['open', 'resolved']);
+export const importKindEnum = pgEnum('import_kind', ['trades', 'statement']);
 export const insightTypeEnum = pgEnum('insight_type', ['performance', 'risk', 'pattern', 'suggestion']);
 
 // Trading accounts
@@ -53,13 +62,15 @@ export const tradingAccounts = pgTable("trading_accounts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   provider: varchar("provider").notNull().default('tradovate'),
-  propFirm: propFirmEnum("prop_firm").notNull(),
+  propFirm: varchar("prop_firm").notNull(), // id from the prop firm registry (shared/propFirms.json)
   extAccountId: varchar("ext_account_id"),
   nickname: varchar("nickname"),
   accountType: accountTypeEnum("account_type").notNull(),
   status: accountStatusEnum("status").default('active'),
+  accountSize: numeric("account_size").default('50000'), // plan size, e.g. 50K / 100K / 150K
   balance: numeric("balance").default('0'),
   maxDrawdown: numeric("max_drawdown"),
+  tradeMatching: varchar("trade_matching").default('fifo'), // 'fifo' | 'average' when building trades from fills
   tradovateAccessToken: text("tradovate_access_token"),
   tradovateRefreshToken: text("tradovate_refresh_token"),
   lastSyncAt: timestamp("last_sync_at"),
@@ -72,27 +83,246 @@ export const trades = pgTable("trades", {
   userId: varchar("user_id").notNull().references(() => users.id),
   tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id),
   symbol: varchar("symbol").notNull(),
+  root: varchar("root"), // product root from the contract registry, e.g. MNQ for MNQZ4
+  assetClass: assetClassEnum("asset_class").notNull().default('futures'), // from the instrument registry
   side: sideEnum("side").notNull(),
   qty: numeric("qty").notNull(),
   entryPrice: numeric("entry_price").notNull(),
   exitPrice: numeric("exit_price"),
+  stopPrice: numeric("stop_price"),
+  targetPrice: numeric("target_price"),
+  plannedRisk: numeric("planned_risk"), // dollars at risk at entry; overrides the stop distance for R
+  quoteToUsd: numeric("quote_to_usd"), // USD per unit of the quote currency, entered for forex crosses and non-USD crypto quotes
+  // Excursions from stored 1-minute bars, in dollars for the whole position
+  mfe: numeric("mfe"),
+  mae: numeric("mae"),
+  bestExitPrice: numeric("best_exit_price"),
+  timeToMfeSec: integer("time_to_mfe_sec"),
   entryTime: timestamp("entry_time").notNull(),
   exitTime: timestamp("exit_time"),
   fees: numeric("fees").default('0'),
   pnl: numeric("pnl"),
+  pnlSource: varchar("pnl_source"), // 'broker' | 'computed'; null while there is no P&L
   tags: jsonb("tags").default('[]'),
+  stats: jsonb("stats").default('{}'), // e.g. feeBreakdown when fees came from a fee schedule, liquidity ('maker' | 'taker') for crypto
   brokerExecutionId: varchar("broker_execution_id"),
   rowHash: varchar("row_hash"),
   importSource: varchar("import_source"),
+  importBatchId: varchar("import_batch_id").references(() => importBatches.id, { onDelete: "set null" }), // batch that created or last updated the row
   source: varchar("source").default("manual"), // 'csv', 'email', 'tv', 'api', 'manual'
   externalId: varchar("external_id"), // orderId/fillId/hash for deduplication
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
   tradesUserAccountIdx: index("trades_user_account_idx").on(table.userId, table.tradingAccountId),
   tradesDateIdx: index("trades_date_idx").on(table.entryTime),
+  tradesRootIdx: index("trades_root_idx").on(table.userId, table.root),
+  tradesAssetClassIdx: index("trades_asset_class_idx").on(table.userId, table.assetClass),
+  tradesImportBatchIdx: index("trades_import_batch_idx").on(table.importBatchId),
   uniqueRowHashIdx: uniqueIndex("trades_row_hash_uidx").on(table.userId, table.tradingAccountId, table.rowHash),
 }));
 
+// OHLC bars uploaded from charting platform exports; each user's bars only feed their own trades
+export const ohlcBars = pgTable("ohlc_bars", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  root: varchar("root").notNull(), // contract root, e.g. MNQ; months are stitched together
+  timeframe: varchar("timeframe").notNull().default('1m'),
+  barTime: timestamp("bar_time").notNull(), // bar open, UTC
+  open: numeric("open").notNull(),
+  high: numeric("high").notNull(),
+  low: numeric("low").notNull(),
+  close: numeric("close").notNull(),
+  volume: numeric("volume"),
+  source: varchar("source"), // 'tradingview', 'sierra', 'ninjatrader'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueBarIdx: uniqueIndex("ohlc_bars_user_root_timeframe_time_uidx").on(table.userId, table.root, table.timeframe, table.barTime),
+}));
+
+// Raw broker fills; round-trip trades are built from these
+export const executions = pgTable("executions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  symbol: varchar("symbol").notNull(),
+  side: executionSideEnum("side").notNull(),
+  qty: numeric("qty").notNull(),
+  price: numeric("price").notNull(),
+  fees: numeric("fees").default('0'),
+  executedAt: timestamp("executed_at").notNull(),
+  externalId: varchar("external_id"), // broker fill id
+  orderId: varchar("order_id"),
+  source: varchar("source").default("api"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  executionsAccountTimeIdx: index("executions_account_time_idx").on(table.tradingAccountId, table.executedAt),
+  uniqueExternalIdx: uniqueIndex("executions_external_uidx").on(table.tradingAccountId, table.externalId),
+}));
+
+// Which fills (or parts of a fill, on flips and partial exits) make up each trade
+export const tradeExecutions = pgTable("trade_executions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tradeId: varchar("trade_id").notNull().references(() => trades.id, { onDelete: "cascade" }),
+  executionId: varchar("execution_id").notNull().references(() => executions.id, { onDelete: "cascade" }),
+  role: varchar("role").notNull(), // 'entry' | 'exit'
+  qty: numeric("qty").notNull(),
+}, (table) => ({
+  tradeExecutionsTradeIdx: index("trade_executions_trade_idx").on(table.tradeId),
+  tradeExecutionsExecutionIdx: index("trade_executions_execution_idx").on(table.executionId),
+}));
+
+// Audit trail of manual trade corrections and CSV re-imports. tradeId is kept after the trade is deleted,
+// so it does not reference trades.
+export const tradeRevisions = pgTable("trade_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  tradeId: varchar("trade_id").notNull(),
+  action: tradeRevisionActionEnum("action").notNull(),
+  before: jsonb("before"), // trade row(s) before the change; null for none
+  after: jsonb("after"), // trade row(s) after the change; null once deleted
+  relatedTradeIds: jsonb("related_trade_ids").default('[]'), // legs created by a split, rows absorbed by a merge
+  source: varchar("source").notNull().default("manual"), // 'manual', 'api', 'csv', 'tv', 'rollback', 'reconcile'
+  importBatchId: varchar("import_batch_id").references(() => importBatches.id, { onDelete: "set null" }), // CSV batch that overwrote the row
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  tradeRevisionsTradeIdx: index("trade_revisions_trade_idx").on(table.tradeId),
+  tradeRevisionsBatchIdx: index("trade_revisions_batch_idx").on(table.importBatchId),
+  tradeRevisionsAccountIdx: index("trade_revisions_account_idx").on(table.tradingAccountId, table.createdAt),
+}));
+
+// Review queue of the reconciliation engine: trades from alerts or statements that no
+// broker record matched, or matched on everything but size or price
+export const reconciliationItems = pgTable("reconciliation_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  tradeDate: date("trade_date").notNull(),
+  kind: reconciliationKindEnum("kind").notNull(),
+  tradeId: varchar("trade_id").notNull().references(() => trades.id, { onDelete: "cascade" }),
+  candidateTradeId: varchar("candidate_trade_id").references(() => trades.id, { onDelete: "cascade" }), // closest broker record, for mismatches
+  differences: jsonb("differences").default('{}'), // field -> [trade value, candidate value]
+  status: reconciliationStatusEnum("status").notNull().default('open'),
+  resolution: varchar("resolution"), // 'merged', 'kept', 'deleted'
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  reconciliationAccountIdx: index("reconciliation_items_account_idx").on(table.tradingAccountId, table.status),
+}));
+
+// Account status transitions (eval pass/fail and manual changes)
+export const accountStatusHistory = pgTable("account_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  fromStatus: accountStatusEnum("from_status"),
+  toStatus: accountStatusEnum("to_status").notNull(),
+  reason: text("reason").notNull(),
+  triggerTradeId: varchar("trigger_trade_id").references(() => trades.id, { onDelete: "set null" }),
+  triggerDate: date("trigger_date"),
+  source: varchar("source"), // 'csv', 'email', 'tv', 'api', 'manual'
+  details: jsonb("details").default('{}'),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  accountStatusHistoryAccountIdx: index("account_status_history_account_idx").on(table.tradingAccountId),
+}));
+
+// Payouts withdrawn from funded accounts
+export const payouts = pgTable("payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  amount: numeric("amount").notNull(),
+  status: payoutStatusEnum("status").default('requested'),
+  requestedAt: date("requested_at").notNull(),
+  paidAt: date("paid_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  payoutsAccountIdx: index("payouts_account_idx").on(table.tradingAccountId),
+}));
+
+// Money spent on prop firm accounts: evaluations, resets, activations and data fees
+export const expenses = pgTable("expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  type: expenseTypeEnum("type").notNull(),
+  amount: numeric("amount").notNull(),
+  incurredAt: date("incurred_at").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  expensesAccountIdx: index("expenses_account_idx").on(table.tradingAccountId),
+}));
+
+// Commission schedules applied when an import or alert has no fees. The most specific
+// match wins: an account over a firm, and a contract root over every contract.
+export const feeSchedules = pgTable("fee_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  propFirm: varchar("prop_firm"), // registry id; null applies to every firm
+  tradingAccountId: varchar("trading_account_id").references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  root: varchar("root"), // contract root; null applies to every contract
+  // Dollars per contract per side
+  commissionPerSide: numeric("commission_per_side").notNull().default('0'),
+  exchangeFeePerSide: numeric("exchange_fee_per_side").notNull().default('0'),
+  nfaFeePerSide: numeric("nfa_fee_per_side").notNull().default('0'),
+  platformFeePerSide: numeric("platform_fee_per_side").notNull().default('0'),
+  // Crypto venues charge a percentage of notional per side instead
+  makerFeePct: numeric("maker_fee_pct").notNull().default('0'),
+  takerFeePct: numeric("taker_fee_pct").notNull().default('0'),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  feeSchedulesUserIdx: index("fee_schedules_user_idx").on(table.userId),
+}));
+
+// Playbook setups; trades link to one or more of them
+export const setups = pgTable("setups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  rules: jsonb("rules").default('[]'), // checklist items, string[]
+  examples: jsonb("examples").default('[]'), // screenshot URLs, string[]
+  status: setupStatusEnum("status").default('active'), // paused at weekly review when expectancy lags
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueUserNameIdx: uniqueIndex("setups_user_name_uidx").on(table.userId, table.name),
+}));
+
+export const tradeSetups = pgTable("trade_setups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tradeId: varchar("trade_id").notNull().references(() => trades.id, { onDelete: "cascade" }),
+  setupId: varchar("setup_id").notNull().references(() => setups.id, { onDelete: "cascade" }),
+}, (table) => ({
+  uniqueTradeSetupIdx: uniqueIndex("trade_setups_trade_setup_uidx").on(table.tradeId, table.setupId),
+  tradeSetupsSetupIdx: index("trade_setups_setup_idx").on(table.setupId),
+}));
+
+// Copy-trade groups: one leader account mirrored into follower accounts
+export const accountGroups = pgTable("account_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name").notNull(),
+  leaderAccountId: varchar("leader_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  // How far a follower fill may drift from the leader before it is flagged
+  priceTolerance: numeric("price_tolerance").default('0.5'),
+  timeToleranceSec: integer("time_tolerance_sec").default(60),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const accountGroupMembers = pgTable("account_group_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => accountGroups.id, { onDelete: "cascade" }),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  // Follower size relative to the leader, e.g. 0.5 when copying half size
+  qtyMultiplier: numeric("qty_multiplier").default('1'),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueGroupMemberIdx: uniqueIndex("account_group_members_uidx").on(table.groupId, table.tradingAccountId),
+}));
+
 // Journal entries
 export const journalEntries = pgTable("journal_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -137,6 +367,25 @@ export const economicEvents = pgTable("economic_events", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Trades that were open inside the blackout window around a high-impact economic event
+export const newsViolations = pgTable("news_violations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  tradeId: varchar("trade_id").notNull().references(() => trades.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id").notNull().references(() => economicEvents.id, { onDelete: "cascade" }),
+  tradeDate: date("trade_date").notNull(),
+  eventTime: timestamp("event_time").notNull(),
+  minutesBefore: integer("minutes_before").notNull(),
+  minutesAfter: integer("minutes_after").notNull(),
+  // True when the firm bans news trading for this account; false for the coaching default window
+  enforced: boolean("enforced").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  newsViolationsAccountIdx: index("news_violations_account_idx").on(table.tradingAccountId, table.tradeDate),
+  uniqueTradeEventIdx: uniqueIndex("news_violations_trade_event_uidx").on(table.tradeId, table.eventId),
+}));
+
 // AI insights
 export const aiInsights = pgTable("ai_insights", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -157,6 +406,42 @@ export const csvMappingProfiles = pgTable("csv_mapping_profiles", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One row per CSV import. The file's rows are kept in import_rows so a batch can be
+// re-imported with an edited mapping without uploading the file again.
+export const importBatches = pgTable("import_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  tradingAccountId: varchar("trading_account_id").notNull().references(() => tradingAccounts.id, { onDelete: "cascade" }),
+  source: varchar("source").notNull(), // 'apex', 'topstep', 'tpt', 'custom', or a platform parser
+  // Trade rows, or daily account statement rows kept in daily_metrics.stats.statement
+  kind: importKindEnum("kind").notNull().default('trades'),
+  filename: varchar("filename"),
+  fileHash: varchar("file_hash"), // sha256 of the uploaded file
+  mapping: jsonb("mapping").notNull(), // {} when a platform parser read the file
+  symbol: varchar("symbol"), // instrument picked at import for exports without a symbol column
+  rowCount: integer("row_count").notNull().default(0),
+  inserted: integer("inserted").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+  errors: jsonb("errors").default('[]'), // first errors only, see errorCount
+  daysTouched: jsonb("days_touched").default('[]'),
+  reimportOf: varchar("reimport_of"), // batch this one replaced
+  rolledBackAt: timestamp("rolled_back_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  importBatchesAccountIdx: index("import_batches_account_idx").on(table.tradingAccountId, table.createdAt),
+}));
+
+// Raw CSV rows of an import batch, as parsed from the file
+export const importRows = pgTable("import_rows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: varchar("batch_id").notNull().references(() => importBatches.id, { onDelete: "cascade" }),
+  rowNumber: integer("row_number").notNull(), // 1-based, header excluded
+  data: jsonb("data").notNull(),
+}, (table) => ({
+  uniqueBatchRowIdx: uniqueIndex("import_rows_batch_row_uidx").on(table.batchId, table.rowNumber),
+}));
+
 // User ingest tokens for email forwarding
 export const userIngestTokens = pgTable("user_ingest_tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -183,6 +468,9 @@ export const tradingAccountsRelations = relations(tradingAccounts, ({ one, many
   trades: many(trades),
   journalEntries: many(journalEntries),
   dailyMetrics: many(dailyMetrics),
+  statusHistory: many(accountStatusHistory),
+  payouts: many(payouts),
+  expenses: many(expenses),
 }));
 
 export const tradesRelations = relations(trades, ({ one, many }) => ({
@@ -194,7 +482,62 @@ export const tradesRelations = relations(trades, ({ one, many }) => ({
     fields: [trades.tradingAccountId],
     references: [tradingAccounts.id],
   }),
+  importBatch: one(importBatches, {
+    fields: [trades.importBatchId],
+    references: [importBatches.id],
+  }),
   journalEntries: many(journalEntries),
+  executions: many(tradeExecutions),
+  setups: many(tradeSetups),
+}));
+
+export const executionsRelations = relations(executions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [executions.userId],
+    references: [users.id],
+  }),
+  tradingAccount: one(tradingAccounts, {
+    fields: [executions.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+  trades: many(tradeExecutions),
+}));
+
+export const tradeExecutionsRelations = relations(tradeExecutions, ({ one }) => ({
+  trade: one(trades, {
+    fields: [tradeExecutions.tradeId],
+    references: [trades.id],
+  }),
+  execution: one(executions, {
+    fields: [tradeExecutions.executionId],
+    references: [executions.id],
+  }),
+}));
+
+export const tradeRevisionsRelations = relations(tradeRevisions, ({ one }) => ({
+  user: one(users, {
+    fields: [tradeRevisions.userId],
+    references: [users.id],
+  }),
+  tradingAccount: one(tradingAccounts, {
+    fields: [tradeRevisions.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+}));
+
+export const reconciliationItemsRelations = relations(reconciliationItems, ({ one }) => ({
+  user: one(users, {
+    fields: [reconciliationItems.userId],
+    references: [users.id],
+  }),
+  tradingAccount: one(tradingAccounts, {
+    fields: [reconciliationItems.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+  trade: one(trades, {
+    fields: [reconciliationItems.tradeId],
+    references: [trades.id],
+  }),
 }));
 
 export const journalEntriesRelations = relations(journalEntries, ({ one }) => ({
@@ -223,6 +566,107 @@ export const dailyMetricsRelations = relations(dailyMetrics, ({ one }) => ({
   }),
 }));
 
+export const accountStatusHistoryRelations = relations(accountStatusHistory, ({ one }) => ({
+  tradingAccount: one(tradingAccounts, {
+    fields: [accountStatusHistory.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+  triggerTrade: one(trades, {
+    fields: [accountStatusHistory.triggerTradeId],
+    references: [trades.id],
+  }),
+}));
+
+export const payoutsRelations = relations(payouts, ({ one }) => ({
+  user: one(users, {
+    fields: [payouts.userId],
+    references: [users.id],
+  }),
+  tradingAccount: one(tradingAccounts, {
+    fields: [payouts.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+}));
+
+export const expensesRelations = relations(expenses, ({ one }) => ({
+  user: one(users, {
+    fields: [expenses.userId],
+    references: [users.id],
+  }),
+  tradingAccount: one(tradingAccounts, {
+    fields: [expenses.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+}));
+
+export const feeSchedulesRelations = relations(feeSchedules, ({ one }) => ({
+  user: one(users, {
+    fields: [feeSchedules.userId],
+    references: [users.id],
+  }),
+  tradingAccount: one(tradingAccounts, {
+    fields: [feeSchedules.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+}));
+
+export const setupsRelations = relations(setups, ({ one, many }) => ({
+  user: one(users, {
+    fields: [setups.userId],
+    references: [users.id],
+  }),
+  trades: many(tradeSetups),
+}));
+
+export const tradeSetupsRelations = relations(tradeSetups, ({ one }) => ({
+  trade: one(trades, {
+    fields: [tradeSetups.tradeId],
+    references: [trades.id],
+  }),
+  setup: one(setups, {
+    fields: [tradeSetups.setupId],
+    references: [setups.id],
+  }),
+}));
+
+export const accountGroupsRelations = relations(accountGroups, ({ one, many }) => ({
+  user: one(users, {
+    fields: [accountGroups.userId],
+    references: [users.id],
+  }),
+  leaderAccount: one(tradingAccounts, {
+    fields: [accountGroups.leaderAccountId],
+    references: [tradingAccounts.id],
+  }),
+  members: many(accountGroupMembers),
+}));
+
+export const accountGroupMembersRelations = relations(accountGroupMembers, ({ one }) => ({
+  group: one(accountGroups, {
+    fields: [accountGroupMembers.groupId],
+    references: [accountGroups.id],
+  }),
+  tradingAccount: one(tradingAccounts, {
+    fields: [accountGroupMembers.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+}));
+
+export const newsViolationsRelations = relations(newsViolations, ({ one }) => ({
+  tradingAccount: one(tradingAccounts, {
+    fields: [newsViolations.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+  trade: one(trades, {
+    fields: [newsViolations.tradeId],
+    references: [trades.id],
+  }),
+  event: one(economicEvents, {
+    fields: [newsViolations.eventId],
+    references: [economicEvents.id],
+  }),
+}));
+
 export const aiInsightsRelations = relations(aiInsights, ({ one }) => ({
   user: one(users, {
     fields: [aiInsights.userId],
@@ -237,6 +681,26 @@ export const csvMappingProfilesRelations = relations(csvMappingProfiles, ({ one
   }),
 }));
 
+export const importBatchesRelations = relations(importBatches, ({ one, many }) => ({
+  user: one(users, {
+    fields: [importBatches.userId],
+    references: [users.id],
+  }),
+  tradingAccount: one(tradingAccounts, {
+    fields: [importBatches.tradingAccountId],
+    references: [tradingAccounts.id],
+  }),
+  trades: many(trades),
+  rows: many(importRows),
+}));
+
+export const importRowsRelations = relations(importRows, ({ one }) => ({
+  batch: one(importBatches, {
+    fields: [importRows.batchId],
+    references: [importBatches.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -244,7 +708,13 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertTradingAccountSchema = createInsertSchema(tradingAccounts).omit({
+export const insertTradingAccountSchema = createInsertSchema(tradingAccounts, {
+  propFirm: (schema) => schema.refine(isKnownPropFirm, { message: "Unknown prop firm" }),
+  tradeMatching: (schema) => schema.refine(
+    (value) => value == null || value === 'fifo' || value === 'average',
+    { message: "Trade matching must be fifo or average" }
+  ),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -254,6 +724,92 @@ export const insertTradeSchema = createInsertSchema(trades).omit({
   createdAt: true,
 });
 
+// Fields a manual correction may change; owner, account and import identity stay fixed.
+// Times are coerced because JSON bodies carry them as strings.
+export const updateTradeSchema = insertTradeSchema.pick({
+  symbol: true,
+  assetClass: true,
+  side: true,
+  qty: true,
+  entryPrice: true,
+  exitPrice: true,
+  stopPrice: true,
+  targetPrice: true,
+  plannedRisk: true,
+  quoteToUsd: true,
+  fees: true,
+  pnl: true,
+  tags: true,
+}).extend({
+  entryTime: z.coerce.date(),
+  exitTime: z.coerce.date().nullable(),
+}).partial();
+
+export const insertAccountStatusHistorySchema = createInsertSchema(accountStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPayoutSchema = createInsertSchema(payouts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExpenseSchema = createInsertSchema(expenses).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFeeScheduleSchema = createInsertSchema(feeSchedules, {
+  propFirm: (schema) => schema.refine((value) => value == null || isKnownPropFirm(value), { message: "Unknown prop firm" }),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSetupSchema = createInsertSchema(setups, {
+  rules: z.array(z.string()).optional(),
+  examples: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAccountGroupSchema = createInsertSchema(accountGroups).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAccountGroupMemberSchema = createInsertSchema(accountGroupMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNewsViolationSchema = createInsertSchema(newsViolations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOhlcBarSchema = createInsertSchema(ohlcBars).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExecutionSchema = createInsertSchema(executions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTradeRevisionSchema = createInsertSchema(tradeRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReconciliationItemSchema = createInsertSchema(reconciliationItems).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({
   id: true,
   createdAt: true,
@@ -278,6 +834,11 @@ export const insertCsvMappingProfileSchema = createInsertSchema(csvMappingProfil
   createdAt: true,
 });
 
+export const insertImportBatchSchema = createInsertSchema(importBatches).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertUserIngestTokenSchema = createInsertSchema(userIngestTokens).omit({
   id: true,
   createdAt: true,
@@ -290,6 +851,33 @@ export type InsertTradingAccount = z.infer<typeof insertTradingAccountSchema>;
 export type TradingAccount = typeof tradingAccounts.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 export type Trade = typeof trades.$inferSelect;
+export type TradeUpdate = z.infer<typeof updateTradeSchema>;
+export type InsertOhlcBar = z.infer<typeof insertOhlcBarSchema>;
+export type OhlcBar = typeof ohlcBars.$inferSelect;
+export type InsertExecution = z.infer<typeof insertExecutionSchema>;
+export type Execution = typeof executions.$inferSelect;
+export type TradeExecution = typeof tradeExecutions.$inferSelect;
+export type InsertTradeRevision = z.infer<typeof insertTradeRevisionSchema>;
+export type TradeRevision = typeof tradeRevisions.$inferSelect;
+export type InsertReconciliationItem = z.infer<typeof insertReconciliationItemSchema>;
+export type ReconciliationItem = typeof reconciliationItems.$inferSelect;
+export type InsertAccountStatusHistory = z.infer<typeof insertAccountStatusHistorySchema>;
+export type AccountStatusHistory = typeof accountStatusHistory.$inferSelect;
+export type InsertPayout = z.infer<typeof insertPayoutSchema>;
+export type Payout = typeof payouts.$inferSelect;
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+export type Expense = typeof expenses.$inferSelect;
+export type InsertFeeSchedule = z.infer<typeof insertFeeScheduleSchema>;
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+export type InsertSetup = z.infer<typeof insertSetupSchema>;
+export type Setup = typeof setups.$inferSelect;
+export type TradeSetup = typeof tradeSetups.$inferSelect;
+export type InsertAccountGroup = z.infer<typeof insertAccountGroupSchema>;
+export type AccountGroup = typeof accountGroups.$inferSelect;
+export type InsertAccountGroupMember = z.infer<typeof insertAccountGroupMemberSchema>;
+export type AccountGroupMember = typeof accountGroupMembers.$inferSelect;
+export type InsertNewsViolation = z.infer<typeof insertNewsViolationSchema>;
+export type NewsViolation = typeof newsViolations.$inferSelect;
 export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
 export type JournalEntry = typeof journalEntries.$inferSelect;
 export type InsertDailyMetrics = z.infer<typeof insertDailyMetricsSchema>;
@@ -300,5 +888,8 @@ export type InsertAiInsight = z.infer<typeof insertAiInsightSchema>;
 export type AiInsight = typeof aiInsights.$inferSelect;
 export type InsertCsvMappingProfile = z.infer<typeof insertCsvMappingProfileSchema>;
 export type CsvMappingProfile = typeof csvMappingProfiles.$inferSelect;
+export type InsertImportBatch = z.infer<typeof insertImportBatchSchema>;
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type ImportRow = typeof importRows.$inferSelect;
 export type InsertUserIngestToken = z.infer<typeof insertUserIngestTokenSchema>;
 export type UserIngestToken = typeof userIngestTokens.$inferSelect;
@@ -0,0 +1,86 @@
+import { getContract, contractRoot } from "./contractRegistry";
+import { classifyInstrument, forexPipSize, isUsdQuote, type AssetClass } from "./instrumentRegistry";
+
+// Where a trade's P&L came from. Broker values win during reconciliation; computed
+// values are derived from prices and the contract's point value.
+export type PnlSource = 'broker' | 'computed';
+
+export interface PricedTrade {
+  symbol: string;
+  side: 'long' | 'short';
+  qty: number | string;
+  entryPrice: number | string;
+  exitPrice?: number | string | null;
+  fees?: number | string | null;
+  // Classified from the symbol when not stored on the trade
+  assetClass?: AssetClass | null;
+  // USD per unit of the quote currency, for forex crosses and crypto quoted in coins or EUR
+  quoteToUsd?: number | string | null;
+}
+
+export interface ComputedPnl {
+  grossPnl: number;
+  netPnl: number;
+}
+
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function pointValueFor(symbol: string): number | null {
+  return getContract(contractRoot(symbol))?.pointValue ?? null;
+}
+
+// USD per unit of the quote currency. USD-based forex pairs (USDJPY) convert at the exit
+// price; other crosses need the rate stored on the trade (trades.quoteToUsd).
+function quoteToUsdRate(quote: string | null, base: string | null, exitPrice: number, override?: number | string | null): number | null {
+  const rate = toNumber(override);
+  if (rate !== null && rate > 0) return rate;
+  if (!quote || isUsdQuote(quote)) return 1;
+  if (base === 'USD') return 1 / exitPrice;
+  return null;
+}
+
+// Dollars per one-point move for one unit: a futures contract, a share, a unit of the
+// base currency or a coin
+export function dollarsPerPoint(symbol: string, price: number, assetClass?: AssetClass | null, quoteToUsd?: number | string | null): number | null {
+  const instrument = classifyInstrument(symbol);
+  switch (assetClass ?? instrument.assetClass) {
+    case 'futures':
+      return pointValueFor(symbol);
+    case 'forex':
+    case 'crypto':
+      return quoteToUsdRate(instrument.quote, instrument.base, price, quoteToUsd);
+    default:
+      return 1;
+  }
+}
+
+// Dollar value of one pip on a forex position of qty base-currency units
+export function forexPipValue(symbol: string, qty: number, price: number, quoteToUsd?: number | string | null): number | null {
+  const instrument = classifyInstrument(symbol);
+  if (instrument.assetClass !== 'forex' || !instrument.quote) return null;
+  const rate = quoteToUsdRate(instrument.quote, instrument.base, price, quoteToUsd);
+  return rate === null ? null : round2(forexPipSize(instrument.quote) * qty * rate);
+}
+
+// Null while the trade is open, for futures not in the registry and for crosses without a USD rate.
+// Forex qty is in units of the base currency; crypto qty may be fractional.
+export function computeTradePnl(trade: PricedTrade): ComputedPnl | null {
+  const qty = toNumber(trade.qty);
+  const entryPrice = toNumber(trade.entryPrice);
+  const exitPrice = toNumber(trade.exitPrice);
+  if (qty === null || entryPrice === null || exitPrice === null) return null;
+  const pointValue = dollarsPerPoint(trade.symbol, exitPrice, trade.assetClass, trade.quoteToUsd);
+  if (pointValue === null) return null;
+
+  const direction = trade.side === 'long' ? 1 : -1;
+  const grossPnl = round2((exitPrice - entryPrice) * direction * qty * pointValue);
+  return { grossPnl, netPnl: round2(grossPnl - (toNumber(trade.fees) ?? 0)) };
+}